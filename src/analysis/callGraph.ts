@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import { IRModule, IROperand, IRValue, ValueKind } from '../ir';
+
+/**
+ * A place where one global calls or refers to a function: a call, invoke or
+ * callbr inside a function, or a function pointer in a global initializer
+ * such as `@llvm.global_ctors`
+ */
+export interface CallSite {
+    caller: string;
+    callee: string;
+    range: vscode.Range;
+    kind: 'call' | 'invoke' | 'callbr' | 'initializer';
+}
+
+/**
+ * All direct call sites of a module, and the functions referenced from
+ * global initializers. Calls through pointers in registers are not known
+ * statically and are left out.
+ */
+export function findCallSites(module: IRModule): CallSite[] {
+    const functions = new Set(module.functions.map(func => func.name));
+    const sites: CallSite[] = [];
+
+    for (const func of module.functions) {
+        for (const block of func.blocks) {
+            for (const inst of block.instructions) {
+                const callee = inst.call && directCallee(inst.call.callee);
+                if (callee?.name && functions.has(callee.name)) {
+                    sites.push({
+                        caller: func.name,
+                        callee: callee.name,
+                        range: callee.range,
+                        kind: inst.opcode as CallSite['kind'],
+                    });
+                }
+            }
+        }
+    }
+
+    for (const global of module.globals) {
+        if (global.kind !== 'variable' || !global.initializer) {
+            continue;
+        }
+        for (const value of globalValues(global.initializer)) {
+            if (functions.has(value.name!)) {
+                sites.push({ caller: global.name, callee: value.name!, range: value.range, kind: 'initializer' });
+            }
+        }
+    }
+    return sites;
+}
+
+/**
+ * The function a callee operand names, looking through constant casts such
+ * as `bitcast (ptr @f to ptr)` of typed-pointer IR
+ */
+function directCallee(callee: IRValue): IRValue | undefined {
+    if (callee.kind === ValueKind.Global) {
+        return callee;
+    }
+    if (callee.kind === ValueKind.ConstantExpr && callee.operands?.length === 1) {
+        return directCallee(callee.operands[0].value);
+    }
+    return undefined;
+}
+
+/**
+ * Global names anywhere inside a constant, e.g. in the structs of an array
+ */
+function globalValues(operand: IROperand, result: IRValue[] = []): IRValue[] {
+    if (operand.value.kind === ValueKind.Global && operand.value.name) {
+        result.push(operand.value);
+    }
+    for (const nested of operand.value.operands ?? []) {
+        globalValues(nested, result);
+    }
+    return result;
+}
@@ -0,0 +1,98 @@
+import { IRBasicBlock, IRFunction, IRInstruction, TERMINATOR_OPCODES, TypeKind } from '../ir';
+
+/**
+ * Control-flow graph of a function. Blocks are identified by their index in
+ * `IRFunction.blocks`; index 0 is the entry block.
+ */
+export interface ControlFlowGraph {
+    blocks: IRBasicBlock[];
+    successors: number[][];
+    predecessors: number[][];
+    blockIndex: Map<string, number>;
+}
+
+/**
+ * Get the terminator of a block, if its last instruction is one
+ */
+export function getTerminator(block: IRBasicBlock): IRInstruction | undefined {
+    const last = block.instructions[block.instructions.length - 1];
+    return last && TERMINATOR_OPCODES.includes(last.opcode) ? last : undefined;
+}
+
+/**
+ * Names (without '%') of the blocks a terminator can transfer control to, in
+ * operand order. Every label operand of a terminator is a successor: br and
+ * switch destinations, invoke normal/unwind destinations, indirectbr and callbr
+ * targets, and the unwind destinations of EH pads.
+ */
+export function getSuccessorNames(terminator: IRInstruction): string[] {
+    return terminator.operands
+        .filter(op => op.type?.kind === TypeKind.Label && op.value.name)
+        .map(op => op.value.name!.substring(1));
+}
+
+/**
+ * Build the control-flow graph of a function definition from its terminators
+ */
+export function buildCFG(func: IRFunction): ControlFlowGraph {
+    const blocks = func.blocks;
+    const blockIndex = new Map<string, number>();
+    blocks.forEach((block, i) => blockIndex.set(block.name, i));
+
+    const successors: number[][] = blocks.map(() => []);
+    const predecessors: number[][] = blocks.map(() => []);
+
+    blocks.forEach((block, i) => {
+        const terminator = getTerminator(block);
+        if (!terminator) {
+            return;
+        }
+        for (const name of getSuccessorNames(terminator)) {
+            const target = blockIndex.get(name);
+            if (target === undefined || successors[i].includes(target)) {
+                continue;
+            }
+            successors[i].push(target);
+            predecessors[target].push(i);
+        }
+    });
+
+    return { blocks, successors, predecessors, blockIndex };
+}
+
+/**
+ * Edges that close a cycle in a depth-first walk from the entry block, as
+ * `[from, to]` pairs. For reducible loops these are exactly the loop back edges.
+ */
+export function findBackEdges(cfg: ControlFlowGraph): [number, number][] {
+    const count = cfg.blocks.length;
+    // 0: unvisited, 1: on the DFS stack, 2: finished
+    const state = new Array<number>(count).fill(0);
+    const backEdges: [number, number][] = [];
+
+    // Unreachable blocks start walks of their own so that their cycles are found too
+    for (let root = 0; root < count; root++) {
+        if (state[root] !== 0) {
+            continue;
+        }
+        const stack: { block: number; next: number }[] = [{ block: root, next: 0 }];
+        state[root] = 1;
+        while (stack.length > 0) {
+            const top = stack[stack.length - 1];
+            const succs = cfg.successors[top.block];
+            if (top.next < succs.length) {
+                const succ = succs[top.next++];
+                if (state[succ] === 1) {
+                    backEdges.push([top.block, succ]);
+                } else if (state[succ] === 0) {
+                    state[succ] = 1;
+                    stack.push({ block: succ, next: 0 });
+                }
+            } else {
+                state[top.block] = 2;
+                stack.pop();
+            }
+        }
+    }
+    return backEdges;
+}
@@ -0,0 +1,276 @@
+import * as vscode from 'vscode';
+import { IRFunction, IRInstruction, TypeKind } from '../ir';
+import { buildCFG, findBackEdges, getTerminator } from './cfg';
+
+// Instructions shown per block before the rest is elided
+const MAX_BLOCK_LINES = 30;
+const MAX_LINE_LENGTH = 80;
+
+/**
+ * A basic block as drawn: its label and instructions
+ */
+export interface CfgNode {
+    index: number;
+    name: string;
+    lines: string[];
+    range: vscode.Range;
+}
+
+/**
+ * A control-flow edge, labelled with the condition or role that selects it
+ */
+export interface CfgEdge {
+    from: number;
+    to: number;
+    label?: string;
+    isBackEdge: boolean;
+}
+
+export interface CfgGraph {
+    functionName: string;
+    nodes: CfgNode[];
+    edges: CfgEdge[];
+}
+
+/**
+ * A graph with positions for drawing; edges run between the listed points
+ */
+export interface CfgLayout {
+    width: number;
+    height: number;
+    nodes: (CfgNode & { x: number; y: number; width: number; height: number })[];
+    edges: (CfgEdge & { points: { x: number; y: number }[] })[];
+}
+
+/**
+ * Build the drawable control-flow graph of a function definition
+ */
+export function buildCfgGraph(func: IRFunction): CfgGraph {
+    const cfg = buildCFG(func);
+    const backEdges = new Set(findBackEdges(cfg).map(([from, to]) => `${from}:${to}`));
+
+    const nodes: CfgNode[] = func.blocks.map((block, index) => {
+        const lines = block.instructions.slice(0, MAX_BLOCK_LINES).map(inst => {
+            const text = inst.text.replace(/\s+/g, ' ');
+            return text.length > MAX_LINE_LENGTH ? `${text.substring(0, MAX_LINE_LENGTH - 3)}...` : text;
+        });
+        if (block.instructions.length > MAX_BLOCK_LINES) {
+            lines.push(`... ${block.instructions.length - MAX_BLOCK_LINES} more`);
+        }
+        return { index, name: block.name, lines, range: block.range };
+    });
+
+    const edges: CfgEdge[] = [];
+    func.blocks.forEach((block, from) => {
+        const terminator = getTerminator(block);
+        if (!terminator) {
+            return;
+        }
+        // Several labels of one terminator may lead to the same block
+        const labels = new Map<number, string[]>();
+        for (const { name, label } of successorLabels(terminator)) {
+            const to = cfg.blockIndex.get(name);
+            if (to === undefined) {
+                continue;
+            }
+            const existing = labels.get(to) ?? [];
+            if (label) {
+                existing.push(label);
+            }
+            labels.set(to, existing);
+        }
+        for (const [to, names] of labels) {
+            edges.push({
+                from,
+                to,
+                label: names.length > 0 ? names.join(', ') : undefined,
+                isBackEdge: backEdges.has(`${from}:${to}`),
+            });
+        }
+    });
+
+    return { functionName: func.name, nodes, edges };
+}
+
+/**
+ * The destinations of a terminator with what selects each of them
+ */
+function successorLabels(terminator: IRInstruction): { name: string; label?: string }[] {
+    const destinations = terminator.operands
+        .filter(op => op.type?.kind === TypeKind.Label && op.value.name)
+        .map(op => op.value.name!.substring(1));
+
+    switch (terminator.opcode) {
+        case 'br':
+            return destinations.length === 2
+                ? [{ name: destinations[0], label: 'true' }, { name: destinations[1], label: 'false' }]
+                : destinations.map(name => ({ name }));
+        case 'switch':
+            return [
+                { name: destinations[0], label: 'default' },
+                ...(terminator.cases ?? [])
+                    .filter(c => c.dest.name)
+                    .map(c => ({ name: c.dest.name!.substring(1), label: c.value.value.text })),
+            ];
+        case 'invoke':
+            return destinations.map((name, i) => ({ name, label: i === 0 ? 'normal' : 'unwind' }));
+        case 'callbr':
+            return destinations.map((name, i) => ({ name, label: i === 0 ? 'fallthrough' : 'indirect' }));
+        default:
+            return destinations.map(name => ({ name }));
+    }
+}
+
+/**
+ * Render a graph in Graphviz DOT syntax
+ */
+export function cfgGraphToDot(graph: CfgGraph): string {
+    const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    const lines = [
+        `digraph ${quote(`CFG for ${graph.functionName}`)} {`,
+        `    label=${quote(`CFG for ${graph.functionName}`)};`,
+        '    node [shape=box, fontname="monospace", fontsize=10];',
+        '    edge [fontname="monospace", fontsize=9];',
+    ];
+    for (const node of graph.nodes) {
+        // \l ends a left-justified line in Graphviz labels
+        const label = [`${node.name}:`, ...node.lines.map(line => `  ${line}`)]
+            .map(line => line.replace(/\\/g, '\\\\').replace(/"/g, '\\"'))
+            .join('\\l');
+        lines.push(`    b${node.index} [label="${label}\\l"];`);
+    }
+    for (const edge of graph.edges) {
+        const attributes: string[] = [];
+        if (edge.label) {
+            attributes.push(`label=${quote(edge.label)}`);
+        }
+        if (edge.isBackEdge) {
+            attributes.push('color="red"', 'style="bold"');
+        }
+        lines.push(`    b${edge.from} -> b${edge.to}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+    }
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
+
+// Layout metrics in pixels, for a monospace font of about 12px
+const CHAR_WIDTH = 7.2;
+const LINE_HEIGHT = 16;
+const NODE_PADDING = 8;
+const LAYER_GAP = 50;
+const NODE_GAP = 30;
+const ORDERING_SWEEPS = 4;
+
+/**
+ * Place the blocks in layers top to bottom (Sugiyama style): back edges are
+ * ignored for layering, each block goes one layer below its lowest
+ * predecessor, and blocks within a layer are ordered by the barycenter of
+ * their neighbors to reduce crossings.
+ */
+export function layoutCfgGraph(graph: CfgGraph): CfgLayout {
+    const count = graph.nodes.length;
+    const forward = graph.edges.filter(edge => !edge.isBackEdge && edge.from !== edge.to);
+    const successors: number[][] = graph.nodes.map(() => []);
+    const predecessors: number[][] = graph.nodes.map(() => []);
+    for (const edge of forward) {
+        successors[edge.from].push(edge.to);
+        predecessors[edge.to].push(edge.from);
+    }
+
+    // Longest-path layering in topological order
+    const layer = new Array<number>(count).fill(0);
+    const remaining = predecessors.map(preds => preds.length);
+    const queue = graph.nodes.map(node => node.index).filter(index => remaining[index] === 0);
+    for (let i = 0; i < queue.length; i++) {
+        const block = queue[i];
+        for (const succ of successors[block]) {
+            layer[succ] = Math.max(layer[succ], layer[block] + 1);
+            if (--remaining[succ] === 0) {
+                queue.push(succ);
+            }
+        }
+    }
+
+    const layers: number[][] = [];
+    for (let index = 0; index < count; index++) {
+        (layers[layer[index]] ??= []).push(index);
+    }
+
+    // Barycenter ordering, alternating downward and upward sweeps
+    const position = new Array<number>(count).fill(0);
+    const renumber = (blocks: number[]) => blocks.forEach((block, i) => (position[block] = i));
+    layers.forEach(renumber);
+    const barycenter = (block: number, neighbors: number[]) => neighbors.length === 0
+        ? position[block]
+        : neighbors.reduce((sum, n) => sum + position[n], 0) / neighbors.length;
+    for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep++) {
+        const downward = sweep % 2 === 0;
+        const order = downward ? layers.slice(1) : layers.slice(0, -1).reverse();
+        for (const blocks of order) {
+            const keys = new Map(blocks.map(block => [
+                block,
+                barycenter(block, downward ? predecessors[block] : successors[block]),
+            ]));
+            blocks.sort((a, b) => keys.get(a)! - keys.get(b)! || a - b);
+            renumber(blocks);
+        }
+    }
+
+    // Sizes and coordinates; each layer is centered on the widest one
+    const size = graph.nodes.map(node => {
+        const longest = Math.max(node.name.length + 1, ...node.lines.map(line => line.length + 2));
+        return {
+            width: Math.ceil(longest * CHAR_WIDTH) + 2 * NODE_PADDING,
+            height: (node.lines.length + 1) * LINE_HEIGHT + 2 * NODE_PADDING,
+        };
+    });
+    const layerWidths = layers.map(blocks =>
+        blocks.reduce((sum, block) => sum + size[block].width, 0) + NODE_GAP * Math.max(blocks.length - 1, 0));
+    const width = Math.max(0, ...layerWidths) + 2 * NODE_GAP;
+
+    const nodes: CfgLayout['nodes'] = new Array(count);
+    let y = NODE_GAP;
+    layers.forEach((blocks, i) => {
+        let x = (width - layerWidths[i]) / 2;
+        const layerHeight = Math.max(...blocks.map(block => size[block].height));
+        for (const block of blocks) {
+            nodes[block] = { ...graph.nodes[block], x, y, ...size[block] };
+            x += size[block].width + NODE_GAP;
+        }
+        y += layerHeight + LAYER_GAP;
+    });
+    const height = y - LAYER_GAP + NODE_GAP;
+
+    // Edges leave from the bottom of a block, spread by target position, and enter at the top;
+    // back edges and self loops go around the right side
+    const edges: CfgLayout['edges'] = graph.edges.map(edge => {
+        const source = nodes[edge.from];
+        const target = nodes[edge.to];
+        if (edge.isBackEdge || edge.from === edge.to) {
+            const offset = 20 + 10 * (edge.from % 3);
+            const right = Math.max(source.x + source.width, target.x + target.width) + offset;
+            return {
+                ...edge,
+                points: [
+                    { x: source.x + source.width, y: source.y + source.height - NODE_PADDING },
+                    { x: right, y: source.y + source.height - NODE_PADDING },
+                    { x: right, y: target.y + NODE_PADDING },
+                    { x: target.x + target.width, y: target.y + NODE_PADDING },
+                ],
+            };
+        }
+        const outgoing = graph.edges
+            .filter(e => e.from === edge.from && !e.isBackEdge && e.from !== e.to)
+            .sort((a, b) => nodes[a.to].x - nodes[b.to].x);
+        const slot = outgoing.indexOf(edge) + 1;
+        return {
+            ...edge,
+            points: [
+                { x: source.x + (source.width * slot) / (outgoing.length + 1), y: source.y + source.height },
+                { x: target.x + target.width / 2, y: target.y },
+            ],
+        };
+    });
+
+    return { width, height, nodes, edges };
+}
@@ -0,0 +1,327 @@
+import { IRMetadataValue, IRModule, MetadataKind } from '../ir';
+
+/**
+ * Metadata nodes by name, e.g. '!42' or '!llvm.dbg.cu'
+ */
+export type MetadataMap = Map<string, IRMetadataValue>;
+
+// Bound on scope and type chains, which may be cyclic in malformed input
+const MAX_DEPTH = 16;
+const MAX_MEMBERS = 50;
+
+export function createMetadataMap(module: IRModule): MetadataMap {
+    return new Map(module.metadata.map(md => [md.name, md.node]));
+}
+
+/**
+ * Follow references to the node they name
+ */
+export function resolveMetadata(value: IRMetadataValue | undefined, map: MetadataMap): IRMetadataValue | undefined {
+    for (let depth = 0; value?.kind === MetadataKind.Reference && depth < MAX_DEPTH; depth++) {
+        value = map.get(value.name!);
+    }
+    return value?.kind === MetadataKind.Reference ? undefined : value;
+}
+
+/**
+ * A position in the source code the IR was compiled from
+ */
+export interface SourceLocation {
+    filename: string;
+    directory?: string;
+    // One-based, as in the debug info; column 0 means unknown
+    line: number;
+    column: number;
+}
+
+/**
+ * The source position of a node with a line: a DILocation, DISubprogram,
+ * variable, label or lexical block
+ */
+export function sourceLocation(node: IRMetadataValue, map: MetadataMap): SourceLocation | undefined {
+    const scope = node.nodeName === 'DILocation' ? resolveMetadata(field(node, 'scope'), map) : node;
+    const file = fileNode(scope, map);
+    const filename = file ? literal(field(file, 'filename')) : undefined;
+    const line = parseInt(literal(field(node, 'line')) ?? '', 10);
+    if (!filename || isNaN(line)) {
+        return undefined;
+    }
+    return {
+        filename,
+        directory: literal(field(file, 'directory')),
+        line,
+        column: parseInt(literal(field(node, 'column')) ?? '0', 10) || 0,
+    };
+}
+
+/**
+ * A readable summary of a debug info node. The first line describes the node;
+ * composite types and enumerations add one line per member.
+ */
+export function describeMetadata(node: IRMetadataValue, map: MetadataMap): string[] {
+    const get = (key: string) => resolveMetadata(field(node, key), map);
+    const at = () => {
+        const file = fileName(node, map);
+        const line = literal(field(node, 'line'));
+        return file && line ? ` at ${file}:${line}` : file ? ` in ${file}` : '';
+    };
+
+    switch (node.nodeName) {
+        case 'DILocation':
+            return [describeLocation(node, map)];
+        case 'DIFile':
+            return [filePath(node)];
+        case 'DISubprogram': {
+            const linkageName = literal(field(node, 'linkageName'));
+            const type = get('type');
+            return [
+                `\`${literal(field(node, 'name')) ?? '<unnamed>'}()\``
+                + (linkageName ? ` (\`${linkageName}\`)` : '')
+                + at()
+                + (type ? `: \`${describeType(type, map)}\`` : ''),
+            ];
+        }
+        case 'DILocalVariable': {
+            const what = field(node, 'arg') ? `parameter ${literal(field(node, 'arg'))}` : 'variable';
+            const scope = subprogramName(get('scope'), map);
+            return [
+                `${what} \`${literal(field(node, 'name'))}: ${describeType(get('type'), map)}\``
+                + at() + (scope ? ` in \`${scope}()\`` : ''),
+            ];
+        }
+        case 'DIGlobalVariable':
+            return [`global variable \`${literal(field(node, 'name'))}: ${describeType(get('type'), map)}\`${at()}`];
+        case 'DIGlobalVariableExpression': {
+            const variable = get('var');
+            return variable ? describeMetadata(variable, map) : [];
+        }
+        case 'DILabel':
+            return [`label \`${literal(field(node, 'name'))}\`${at()}`];
+        case 'DILexicalBlock':
+        case 'DILexicalBlockFile': {
+            const scope = subprogramName(node, map);
+            return [`lexical block${at()}${scope ? ` in \`${scope}()\`` : ''}`];
+        }
+        case 'DINamespace':
+            return [`namespace \`${literal(field(node, 'name')) ?? '(anonymous)'}\``];
+        case 'DICompileUnit': {
+            const producer = literal(field(node, 'producer'));
+            const language = literal(field(node, 'language'));
+            return [`compile unit for ${fileName(node, map) ?? '<unknown file>'}${language ? ` (${language})` : ''}${producer ? `, produced by ${producer}` : ''}`];
+        }
+        case 'DIBasicType':
+        case 'DIDerivedType':
+        case 'DISubroutineType':
+        case 'DIStringType': {
+            const size = literal(field(node, 'size'));
+            return [`type \`${describeType(node, map)}\`${size ? ` (${size} bits)` : ''}${at()}`];
+        }
+        case 'DICompositeType': {
+            const size = literal(field(node, 'size'));
+            return [
+                `type \`${describeType(node, map)}\`${size ? ` (${size} bits)` : ''}${at()}`,
+                ...compositeMembers(node, map),
+            ];
+        }
+        default:
+            return [];
+    }
+}
+
+/**
+ * A source location with its function and inlining chain, e.g.
+ * "foo.c:10:3 in `compute()`, inlined into `main()` at foo.c:42"
+ */
+export function describeLocation(location: IRMetadataValue, map: MetadataMap): string {
+    const scope = resolveMetadata(field(location, 'scope'), map);
+    const column = literal(field(location, 'column'));
+    const subprogram = subprogramName(scope, map);
+    let text = `${fileName(scope, map) ?? '<unknown>'}:${literal(field(location, 'line')) ?? 0}`
+        + (column && column !== '0' ? `:${column}` : '')
+        + (subprogram ? ` in \`${subprogram}()\`` : '');
+
+    let inlinedAt = resolveMetadata(field(location, 'inlinedAt'), map);
+    for (let depth = 0; inlinedAt && depth < MAX_DEPTH; depth++) {
+        const inlinedScope = resolveMetadata(field(inlinedAt, 'scope'), map);
+        const caller = subprogramName(inlinedScope, map);
+        text += `, inlined into ${caller ? `\`${caller}()\`` : '<unknown>'}`
+            + ` at ${fileName(inlinedScope, map) ?? '<unknown>'}:${literal(field(inlinedAt, 'line')) ?? 0}`;
+        inlinedAt = resolveMetadata(field(inlinedAt, 'inlinedAt'), map);
+    }
+    return text;
+}
+
+/**
+ * A C-like spelling of a debug info type, e.g. `const char *` or `int[4]`
+ */
+export function describeType(type: IRMetadataValue | undefined, map: MetadataMap, depth = 0): string {
+    type = resolveMetadata(type, map);
+    if (!type || type.kind === MetadataKind.Literal) {
+        return 'void';
+    }
+    if (depth > MAX_DEPTH) {
+        return '...';
+    }
+
+    const name = literal(field(type, 'name'));
+    const base = () => describeType(field(type, 'baseType'), map, depth + 1);
+    const tag = literal(field(type, 'tag'));
+
+    switch (type.nodeName) {
+        case 'DIBasicType':
+        case 'DIStringType':
+            return name ?? '<unnamed>';
+        case 'DIDerivedType':
+            switch (tag) {
+                case 'DW_TAG_pointer_type':
+                    return `${base()} *`;
+                case 'DW_TAG_reference_type':
+                    return `${base()} &`;
+                case 'DW_TAG_rvalue_reference_type':
+                    return `${base()} &&`;
+                case 'DW_TAG_const_type':
+                    return `const ${base()}`;
+                case 'DW_TAG_volatile_type':
+                    return `volatile ${base()}`;
+                case 'DW_TAG_restrict_type':
+                    return `${base()} restrict`;
+                case 'DW_TAG_atomic_type':
+                    return `_Atomic ${base()}`;
+                case 'DW_TAG_member':
+                case 'DW_TAG_inheritance':
+                    return base();
+                default:
+                    return name ?? base();
+            }
+        case 'DICompositeType':
+            switch (tag) {
+                case 'DW_TAG_array_type':
+                    return `${base()}${arrayBounds(type, map)}`;
+                case 'DW_TAG_structure_type':
+                    return `struct ${name ?? '(anonymous)'}`;
+                case 'DW_TAG_class_type':
+                    return `class ${name ?? '(anonymous)'}`;
+                case 'DW_TAG_union_type':
+                    return `union ${name ?? '(anonymous)'}`;
+                case 'DW_TAG_enumeration_type':
+                    return `enum ${name ?? '(anonymous)'}`;
+                default:
+                    return name ?? '(anonymous)';
+            }
+        case 'DISubroutineType': {
+            const types = tupleElements(field(type, 'types'), map);
+            const [result, ...params] = types.map(t => describeType(t, map, depth + 1));
+            return `${result ?? 'void'} (${params.join(', ')})`;
+        }
+        default:
+            return name ?? `!${type.nodeName ?? '{...}'}`;
+    }
+}
+
+/**
+ * The members of a struct, class or union, or the enumerators of an enum
+ */
+function compositeMembers(type: IRMetadataValue, map: MetadataMap): string[] {
+    const members: string[] = [];
+    const elements = tupleElements(field(type, 'elements'), map);
+    for (const element of elements.slice(0, MAX_MEMBERS)) {
+        const name = literal(field(element, 'name'));
+        switch (element.nodeName) {
+            case 'DIDerivedType': {
+                const offset = literal(field(element, 'offset'));
+                const memberType = describeType(field(element, 'baseType'), map);
+                const label = literal(field(element, 'tag')) === 'DW_TAG_inheritance' ? `base \`${memberType}\`` : `\`${name}: ${memberType}\``;
+                members.push(`- ${label}${offset ? ` at bit offset ${offset}` : ''}`);
+                break;
+            }
+            case 'DIEnumerator':
+                members.push(`- \`${name} = ${literal(field(element, 'value'))}\``);
+                break;
+            case 'DISubprogram':
+                members.push(`- \`${name}()\``);
+                break;
+        }
+    }
+    if (elements.length > MAX_MEMBERS) {
+        members.push(`- ... ${elements.length - MAX_MEMBERS} more`);
+    }
+    return members;
+}
+
+function arrayBounds(type: IRMetadataValue, map: MetadataMap): string {
+    const bounds = tupleElements(field(type, 'elements'), map)
+        .filter(element => element.nodeName === 'DISubrange')
+        .map(subrange => `[${literal(field(subrange, 'count')) ?? ''}]`);
+    return bounds.length > 0 ? bounds.join('') : '[]';
+}
+
+/**
+ * The name of the subprogram a scope belongs to
+ */
+function subprogramName(scope: IRMetadataValue | undefined, map: MetadataMap): string | undefined {
+    for (let depth = 0; scope && depth < MAX_DEPTH; depth++) {
+        if (scope.nodeName === 'DISubprogram') {
+            return literal(field(scope, 'name'));
+        }
+        scope = resolveMetadata(field(scope, 'scope'), map);
+    }
+    return undefined;
+}
+
+/**
+ * The file name of a node, from its own `file` field or that of its scopes
+ */
+function fileName(node: IRMetadataValue | undefined, map: MetadataMap): string | undefined {
+    const file = fileNode(node, map);
+    return file ? literal(field(file, 'filename')) : undefined;
+}
+
+/**
+ * The DIFile of a node, from its own `file` field or that of its scopes
+ */
+function fileNode(node: IRMetadataValue | undefined, map: MetadataMap): IRMetadataValue | undefined {
+    for (let depth = 0; node && depth < MAX_DEPTH; depth++) {
+        if (node.nodeName === 'DIFile') {
+            return node;
+        }
+        const file = resolveMetadata(field(node, 'file'), map);
+        if (file?.nodeName === 'DIFile') {
+            return file;
+        }
+        node = resolveMetadata(field(node, 'scope'), map);
+    }
+    return undefined;
+}
+
+function filePath(file: IRMetadataValue): string {
+    const filename = literal(field(file, 'filename')) ?? '';
+    const directory = literal(field(file, 'directory'));
+    return directory && !filename.startsWith('/') ? `${directory}/${filename}` : filename;
+}
+
+/**
+ * The value of a `key: value` field of a specialized node
+ */
+export function field(node: IRMetadataValue | undefined, key: string): IRMetadataValue | undefined {
+    return node?.fields?.find(f => f.key === key)?.value;
+}
+
+/**
+ * The resolved elements of a tuple field such as `elements: !{...}`
+ */
+function tupleElements(value: IRMetadataValue | undefined, map: MetadataMap): IRMetadataValue[] {
+    const tuple = resolveMetadata(value, map);
+    return (tuple?.elements ?? [])
+        .map(element => resolveMetadata(element, map))
+        .filter((element): element is IRMetadataValue => element !== undefined);
+}
+
+/**
+ * The text of a literal field value without quotes; undefined for null and missing fields
+ */
+function literal(value: IRMetadataValue | undefined): string | undefined {
+    if (!value || value.kind !== MetadataKind.Literal || value.text === 'null') {
+        return undefined;
+    }
+    return value.text.startsWith('"') ? value.text.slice(1, -1) : value.text;
+}
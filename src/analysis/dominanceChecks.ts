@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import { IRFunction, IRModule, IRValue, TypeKind, ValueKind } from '../ir';
+import { ControlFlowGraph, buildCFG, getSuccessorNames } from './cfg';
+import { DominatorTree, computeDominators, dominates } from './dominators';
+
+/**
+ * Where a local value is defined
+ */
+interface ValueDefinition {
+    block: number;
+    index: number;
+    range: vscode.Range;
+    // For invoke/callbr results, the block the value becomes available in
+    normalDest?: number;
+}
+
+/**
+ * Report uses of local values that are not dominated by their definition.
+ * A phi's incoming value only has to dominate the end of the incoming block.
+ */
+export function checkDominance(module: IRModule, uri: vscode.Uri): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+    for (const func of module.functions) {
+        if (!func.isDeclaration && func.blocks.length > 0) {
+            checkFunction(func, uri, diagnostics);
+        }
+    }
+    return diagnostics;
+}
+
+function checkFunction(func: IRFunction, uri: vscode.Uri, diagnostics: vscode.Diagnostic[]): void {
+    const cfg = buildCFG(func);
+    const tree = computeDominators(cfg);
+
+    const definitions = new Map<string, ValueDefinition>();
+    cfg.blocks.forEach((block, b) => {
+        block.instructions.forEach((inst, index) => {
+            if (!inst.result) {
+                return;
+            }
+            const definition: ValueDefinition = { block: b, index, range: inst.result.range };
+            if (inst.opcode === 'invoke' || inst.opcode === 'callbr') {
+                const normal = getSuccessorNames(inst)[0];
+                definition.normalDest = normal !== undefined ? cfg.blockIndex.get(normal) : undefined;
+            }
+            definitions.set(inst.result.name, definition);
+        });
+    });
+
+    const report = (value: IRValue, definition: ValueDefinition) => {
+        const diagnostic = new vscode.Diagnostic(
+            value.range,
+            `'${value.name}' does not dominate this use`,
+            vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = 'llvm-ir';
+        diagnostic.relatedInformation = [
+            new vscode.DiagnosticRelatedInformation(
+                new vscode.Location(uri, definition.range),
+                `'${value.name}' is defined here`
+            ),
+        ];
+        diagnostics.push(diagnostic);
+    };
+
+    cfg.blocks.forEach((block, b) => {
+        block.instructions.forEach((inst, index) => {
+            if (inst.opcode === 'phi' && inst.incoming) {
+                for (const incoming of inst.incoming) {
+                    const definition = localDefinition(incoming.value, definitions);
+                    const pred = incoming.block.name ? cfg.blockIndex.get(incoming.block.name.substring(1)) : undefined;
+                    if (definition && pred !== undefined && !dominatesIncomingEdge(cfg, tree, definition, pred, b)) {
+                        report(incoming.value, definition);
+                    }
+                }
+                return;
+            }
+
+            for (const operand of inst.operands) {
+                if (operand.type?.kind === TypeKind.Label) {
+                    continue;
+                }
+                const definition = localDefinition(operand.value, definitions);
+                if (definition && !dominatesUse(cfg, tree, definition, b, index)) {
+                    report(operand.value, definition);
+                }
+            }
+        });
+    });
+}
+
+function localDefinition(value: IRValue, definitions: Map<string, ValueDefinition>): ValueDefinition | undefined {
+    return value.kind === ValueKind.Local && value.name ? definitions.get(value.name) : undefined;
+}
+
+/**
+ * Does the definition dominate the instruction at (block, index)?
+ */
+function dominatesUse(
+    cfg: ControlFlowGraph,
+    tree: DominatorTree,
+    definition: ValueDefinition,
+    block: number,
+    index: number
+): boolean {
+    if (definition.normalDest !== undefined) {
+        return edgeDominates(cfg, tree, definition.block, definition.normalDest, block);
+    }
+    if (definition.block === block) {
+        return definition.index < index || !tree.reachable[block];
+    }
+    return dominates(tree, definition.block, block);
+}
+
+/**
+ * Does the definition dominate the phi incoming edge pred -> block, i.e. the end of pred?
+ */
+function dominatesIncomingEdge(
+    cfg: ControlFlowGraph,
+    tree: DominatorTree,
+    definition: ValueDefinition,
+    pred: number,
+    block: number
+): boolean {
+    if (definition.normalDest !== undefined) {
+        if (pred === definition.block) {
+            return block === definition.normalDest || !tree.reachable[pred];
+        }
+        return edgeDominates(cfg, tree, definition.block, definition.normalDest, pred);
+    }
+    return dominates(tree, definition.block, pred);
+}
+
+/**
+ * Does the edge from -> to dominate block `use`? As in LLVM, this holds when
+ * `to` dominates `use` and every other way into `to` comes from a back edge.
+ */
+function edgeDominates(
+    cfg: ControlFlowGraph,
+    tree: DominatorTree,
+    from: number,
+    to: number,
+    use: number
+): boolean {
+    if (!tree.reachable[use]) {
+        return true;
+    }
+    if (!dominates(tree, to, use)) {
+        return false;
+    }
+    return cfg.predecessors[to].every(pred => pred === from || dominates(tree, to, pred));
+}
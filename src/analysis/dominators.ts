@@ -0,0 +1,105 @@
+import { ControlFlowGraph } from './cfg';
+
+/**
+ * Dominator tree of a control-flow graph
+ */
+export interface DominatorTree {
+    // Immediate dominator of each block; -1 for the entry block and unreachable blocks
+    idom: number[];
+    // Whether each block is reachable from the entry block
+    reachable: boolean[];
+    // Reverse post-order of the reachable blocks
+    order: number[];
+}
+
+/**
+ * Compute dominators with the iterative algorithm of Cooper, Harvey and
+ * Kennedy ("A Simple, Fast Dominance Algorithm")
+ */
+export function computeDominators(cfg: ControlFlowGraph): DominatorTree {
+    const count = cfg.blocks.length;
+    const idom = new Array<number>(count).fill(-1);
+    const reachable = new Array<boolean>(count).fill(false);
+    if (count === 0) {
+        return { idom, reachable, order: [] };
+    }
+
+    // Iterative DFS for the post-order; IR test files can be deep enough to overflow recursion
+    const postOrder: number[] = [];
+    const stack: { block: number; next: number }[] = [{ block: 0, next: 0 }];
+    reachable[0] = true;
+    while (stack.length > 0) {
+        const top = stack[stack.length - 1];
+        const succs = cfg.successors[top.block];
+        if (top.next < succs.length) {
+            const succ = succs[top.next++];
+            if (!reachable[succ]) {
+                reachable[succ] = true;
+                stack.push({ block: succ, next: 0 });
+            }
+        } else {
+            postOrder.push(top.block);
+            stack.pop();
+        }
+    }
+
+    const order = postOrder.slice().reverse();
+    const postNumber = new Array<number>(count).fill(-1);
+    postOrder.forEach((block, i) => (postNumber[block] = i));
+
+    const intersect = (a: number, b: number): number => {
+        while (a !== b) {
+            while (postNumber[a] < postNumber[b]) {
+                a = idom[a];
+            }
+            while (postNumber[b] < postNumber[a]) {
+                b = idom[b];
+            }
+        }
+        return a;
+    };
+
+    idom[0] = 0;
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const block of order) {
+            if (block === 0) {
+                continue;
+            }
+            let newIdom = -1;
+            for (const pred of cfg.predecessors[block]) {
+                if (idom[pred] === -1) {
+                    continue;
+                }
+                newIdom = newIdom === -1 ? pred : intersect(pred, newIdom);
+            }
+            if (newIdom !== -1 && idom[block] !== newIdom) {
+                idom[block] = newIdom;
+                changed = true;
+            }
+        }
+    }
+    idom[0] = -1;
+
+    return { idom, reachable, order };
+}
+
+/**
+ * True if block `a` dominates block `b` (every block dominates itself)
+ */
+export function dominates(tree: DominatorTree, a: number, b: number): boolean {
+    if (!tree.reachable[b]) {
+        // Unreachable code is dominated by everything
+        return true;
+    }
+    if (!tree.reachable[a]) {
+        return false;
+    }
+    for (let block = b; block !== -1; block = tree.idom[block]) {
+        if (block === a) {
+            return true;
+        }
+    }
+    return false;
+}
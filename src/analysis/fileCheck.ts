@@ -0,0 +1,386 @@
+import * as vscode from 'vscode';
+import { Comment, IRModule } from '../ir';
+
+/**
+ * A `; RUN:` line, with the range of the `RUN:` keyword and of the command
+ */
+export interface RunLine {
+    keywordRange: vscode.Range;
+    commandRange: vscode.Range;
+    command: string;
+}
+
+/**
+ * One FileCheck invocation of the RUN lines and the prefixes it checks
+ */
+export interface FileCheckRun {
+    prefixes: string[];
+    // Where each prefix is given on the RUN lines; absent for the implicit CHECK
+    prefixRanges: Map<string, vscode.Range>;
+    // Variables defined on the command line with -D
+    definedVariables: Set<string>;
+    // --enable-var-scope: local variables are forgotten at each CHECK-LABEL
+    varScope: boolean;
+    allowUnusedPrefixes: boolean;
+    range: vscode.Range;
+}
+
+/**
+ * A `[[VAR:regex]]`, `[[#VAR:]]` definition or a `[[VAR]]`, `[[#VAR+1]]` use
+ */
+export interface FileCheckVariable {
+    name: string;
+    range: vscode.Range;
+    isDefinition: boolean;
+}
+
+/**
+ * A check directive such as `; CHECK-NEXT: add i32 [[X]], 1`
+ */
+export interface CheckDirective {
+    prefix: string;
+    // NEXT, SAME, NOT, DAG, LABEL, EMPTY, COUNT-n, or empty for a plain check
+    kind: string;
+    // The `PREFIX-KIND:` keyword
+    range: vscode.Range;
+    variables: FileCheckVariable[];
+    // `{{regex}}` blocks and the regexes of variable definitions
+    regexRanges: vscode.Range[];
+}
+
+/**
+ * The lit and FileCheck parts of a test file
+ */
+export interface FileCheckTest {
+    runLines: RunLine[];
+    runs: FileCheckRun[];
+    directives: CheckDirective[];
+    // Comments that look like directives of a prefix no RUN line checks
+    unknownDirectives: { prefix: string; range: vscode.Range }[];
+}
+
+const RUN_RE = /^(;+\s*)(RUN:)(.*)$/;
+const DIRECTIVE_RE = /^(;+\s*)([A-Za-z][\w-]*?)(?:-(NEXT|SAME|NOT|DAG|LABEL|EMPTY|COUNT-\d+))?:/;
+const VARIABLE_NAME_RE = /\$?[A-Za-z_]\w*/;
+// Functions that may appear in numeric expressions such as [[#add(X,1)]]
+const NUMERIC_FUNCTIONS = new Set(['add', 'div', 'max', 'min', 'mul', 'sub']);
+
+const analyzed = new WeakMap<IRModule, FileCheckTest | undefined>();
+
+/**
+ * Find the RUN lines, FileCheck invocations and check directives in the
+ * comments of a module. Undefined for files without RUN lines.
+ */
+export function analyzeFileCheck(module: IRModule): FileCheckTest | undefined {
+    if (analyzed.has(module)) {
+        return analyzed.get(module);
+    }
+
+    const runComments: Comment[][] = [];
+    const runLines: RunLine[] = [];
+    let continued = false;
+    for (const comment of module.comments) {
+        const match = comment.text.match(RUN_RE);
+        if (!match) {
+            continued = false;
+            continue;
+        }
+        const line = comment.range.start.line;
+        const start = comment.range.start.character;
+        runLines.push({
+            keywordRange: new vscode.Range(line, start + match[1].length, line, start + match[1].length + match[2].length),
+            commandRange: new vscode.Range(line, start + match[1].length + match[2].length, line, comment.range.end.character),
+            command: match[3],
+        });
+        // A trailing backslash continues the command on the next RUN line
+        if (continued) {
+            runComments[runComments.length - 1].push(comment);
+        } else {
+            runComments.push([comment]);
+        }
+        continued = match[3].trimEnd().endsWith('\\');
+    }
+
+    if (runLines.length === 0) {
+        analyzed.set(module, undefined);
+        return undefined;
+    }
+
+    const runs = runComments.flatMap(parseRunCommand);
+    const prefixes = new Set(runs.flatMap(run => run.prefixes));
+    const directives: CheckDirective[] = [];
+    const unknownDirectives: FileCheckTest['unknownDirectives'] = [];
+    for (const comment of module.comments) {
+        const match = comment.text.match(DIRECTIVE_RE);
+        if (!match || match[2] === 'RUN') {
+            continue;
+        }
+        const line = comment.range.start.line;
+        const start = comment.range.start.character + match[1].length;
+        const range = new vscode.Range(line, start, line, comment.range.start.character + match[0].length);
+        if (prefixes.has(match[2])) {
+            directives.push(parseDirective(comment, match[2], match[3] ?? '', range, match[0].length));
+        } else if (match[3] || /CHECK/i.test(match[2])) {
+            // Words such as NOTE: or TODO: are left alone
+            unknownDirectives.push({ prefix: match[2], range });
+        }
+    }
+
+    const test = { runLines, runs, directives, unknownDirectives };
+    analyzed.set(module, test);
+    return test;
+}
+
+/**
+ * Report check directives of prefixes that no RUN line checks, prefixes that
+ * no directive uses and uses of FileCheck variables before their definition
+ */
+export function checkFileCheck(module: IRModule): vscode.Diagnostic[] {
+    const test = analyzeFileCheck(module);
+    if (!test) {
+        return [];
+    }
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    const known = [...new Set(test.runs.flatMap(run => run.prefixes))].join(', ');
+    for (const unknown of test.unknownDirectives) {
+        diagnostics.push(diagnostic(
+            unknown.range,
+            `unknown check prefix '${unknown.prefix}', the RUN lines check ${known || 'no prefixes'}`,
+            vscode.DiagnosticSeverity.Warning
+        ));
+    }
+
+    const used = new Set(test.directives.map(directive => directive.prefix));
+    for (const run of test.runs) {
+        if (run.allowUnusedPrefixes) {
+            continue;
+        }
+        for (const [prefix, range] of run.prefixRanges) {
+            if (!used.has(prefix)) {
+                diagnostics.push(diagnostic(
+                    range,
+                    `prefix '${prefix}' is not used by any check directive`,
+                    vscode.DiagnosticSeverity.Warning
+                ));
+            }
+        }
+    }
+
+    const reported = new Set<vscode.Range>();
+    for (const run of test.runs) {
+        for (const use of findUndefinedUses(test, run)) {
+            if (!reported.has(use.range)) {
+                reported.add(use.range);
+                diagnostics.push(diagnostic(
+                    use.range,
+                    `undefined FileCheck variable '${use.name}'`,
+                    vscode.DiagnosticSeverity.Error
+                ));
+            }
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * The definition a variable use refers to: the closest one before it
+ */
+export function findVariableDefinition(test: FileCheckTest, use: FileCheckVariable): FileCheckVariable | undefined {
+    let definition: FileCheckVariable | undefined;
+    for (const directive of test.directives) {
+        for (const variable of directive.variables) {
+            if (!variable.range.start.isBefore(use.range.start)) {
+                return definition;
+            }
+            if (variable.isDefinition && variable.name === use.name) {
+                definition = variable;
+            }
+        }
+    }
+    return definition;
+}
+
+/**
+ * The variable definition or use at a position
+ */
+export function findVariableAt(test: FileCheckTest, position: vscode.Position): FileCheckVariable | undefined {
+    for (const directive of test.directives) {
+        if (directive.range.start.line === position.line) {
+            return directive.variables.find(variable => variable.range.contains(position));
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Walk the directives one FileCheck invocation sees, in order
+ */
+function findUndefinedUses(test: FileCheckTest, run: FileCheckRun): FileCheckVariable[] {
+    const defined = new Set(run.definedVariables);
+    const undefinedUses: FileCheckVariable[] = [];
+    for (const directive of test.directives) {
+        if (!run.prefixes.includes(directive.prefix)) {
+            continue;
+        }
+        if (directive.kind === 'LABEL' && run.varScope) {
+            // Global variables start with $ and survive
+            for (const name of [...defined]) {
+                if (!name.startsWith('$')) {
+                    defined.delete(name);
+                }
+            }
+        }
+        for (const variable of directive.variables) {
+            if (variable.isDefinition) {
+                defined.add(variable.name);
+            } else if (!defined.has(variable.name)) {
+                undefinedUses.push(variable);
+            }
+        }
+    }
+    return undefinedUses;
+}
+
+/**
+ * Split one RUN command into its pipeline stages and read the options of
+ * each FileCheck among them
+ */
+function parseRunCommand(comments: Comment[]): FileCheckRun[] {
+    const command = comments
+        .map(comment => comment.text.match(RUN_RE)![3].trimEnd().replace(/\\$/, ''))
+        .join(' ');
+    const first = comments[0].range;
+    const last = comments[comments.length - 1].range;
+    const range = new vscode.Range(first.start, last.end);
+
+    const runs: FileCheckRun[] = [];
+    for (const stage of command.split(/\||&&|;/)) {
+        const words = stage.trim().split(/\s+/);
+        const tool = words.findIndex(word => /(^|[/%])FileCheck$/.test(word));
+        if (tool < 0) {
+            continue;
+        }
+
+        const prefixes: string[] = [];
+        const definedVariables = new Set<string>();
+        let varScope = false;
+        let allowUnusedPrefixes = false;
+        for (let i = tool + 1; i < words.length; i++) {
+            const option = words[i].match(/^--?([\w-]+)(?:=(.*))?$/);
+            const name = option?.[1];
+            // Options take their value after `=` or as the next word
+            const value = () => option?.[2] ?? words[++i] ?? '';
+            if (name === 'check-prefix' || name === 'check-prefixes') {
+                prefixes.push(...value().split(',').filter(prefix => prefix));
+            } else if (name === 'enable-var-scope') {
+                varScope = true;
+            } else if (name === 'allow-unused-prefixes') {
+                allowUnusedPrefixes = !/^(false|0)$/.test(option?.[2] ?? '');
+            } else if (words[i] === '-D') {
+                definedVariables.add(defineName(words[++i] ?? ''));
+            } else if (words[i].startsWith('-D')) {
+                definedVariables.add(defineName(words[i].substring(2)));
+            }
+        }
+
+        const explicit = prefixes.length > 0;
+        const unique = explicit ? [...new Set(prefixes)] : ['CHECK'];
+        const prefixRanges = new Map<string, vscode.Range>();
+        if (explicit) {
+            for (const prefix of unique) {
+                prefixRanges.set(prefix, findPrefixRange(comments, prefix) ?? range);
+            }
+        }
+        runs.push({ prefixes: unique, prefixRanges, definedVariables, varScope, allowUnusedPrefixes, range });
+    }
+    return runs;
+}
+
+// `VAR=value`, `#VAR=expr` or `#%x,VAR=expr`
+function defineName(definition: string): string {
+    return definition.replace(/^#(%[^,]*,)?/, '').split('=')[0];
+}
+
+function findPrefixRange(comments: Comment[], prefix: string): vscode.Range | undefined {
+    const escaped = prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const re = new RegExp(`(?<=check-prefix(?:es)?[=\\s](?:[\\w-]+,)*)${escaped}(?![\\w-])`);
+    for (const comment of comments) {
+        const match = re.exec(comment.text);
+        if (match) {
+            const line = comment.range.start.line;
+            const start = comment.range.start.character + match.index;
+            return new vscode.Range(line, start, line, start + prefix.length);
+        }
+    }
+    return undefined;
+}
+
+function parseDirective(comment: Comment, prefix: string, kind: string, range: vscode.Range, patternStart: number): CheckDirective {
+    const directive: CheckDirective = { prefix, kind, range, variables: [], regexRanges: [] };
+    const line = comment.range.start.line;
+    const column = (index: number) => comment.range.start.character + index;
+    const text = comment.text;
+
+    const blockRe = /\{\{(.*?)\}\}|\[\[(.*?)\]\]/g;
+    blockRe.lastIndex = patternStart;
+    let match;
+    while ((match = blockRe.exec(text))) {
+        if (match[1] !== undefined) {
+            directive.regexRanges.push(new vscode.Range(line, column(match.index), line, column(blockRe.lastIndex)));
+            continue;
+        }
+
+        const inner = match[2];
+        const innerStart = match.index + 2;
+        if (inner.startsWith('#')) {
+            // Numeric: [[#VAR:]], [[#%x,VAR:expr]], [[#VAR+1]], [[#@LINE]]
+            const body = inner.replace(/^#(%[^,]*,)?/, '');
+            const bodyStart = innerStart + inner.length - body.length;
+            const definition = body.match(/^\s*(\$?[A-Za-z_]\w*)\s*:/);
+            if (definition) {
+                const start = bodyStart + definition[0].indexOf(definition[1]);
+                directive.variables.push(variable(definition[1], line, column(start), true));
+            }
+            const expression = definition ? body.substring(definition[0].length) : body;
+            const expressionStart = bodyStart + (definition ? definition[0].length : 0);
+            const nameRe = /@?\$?[A-Za-z_]\w*/g;
+            let name;
+            while ((name = nameRe.exec(expression))) {
+                const isFunction = NUMERIC_FUNCTIONS.has(name[0]) && expression[nameRe.lastIndex] === '(';
+                if (!name[0].startsWith('@') && !isFunction) {
+                    directive.variables.push(variable(name[0], line, column(expressionStart + name.index), false));
+                }
+            }
+            continue;
+        }
+
+        // String: [[VAR:regex]] or [[VAR]]
+        const colon = inner.indexOf(':');
+        const name = colon < 0 ? inner : inner.substring(0, colon);
+        if (!VARIABLE_NAME_RE.test(name) || name.match(VARIABLE_NAME_RE)![0] !== name) {
+            continue;
+        }
+        if (colon >= 0) {
+            directive.variables.push(variable(name, line, column(innerStart), true));
+            directive.regexRanges.push(new vscode.Range(
+                line, column(innerStart + colon + 1),
+                line, column(innerStart + inner.length)
+            ));
+        } else {
+            directive.variables.push(variable(name, line, column(innerStart), false));
+        }
+    }
+    return directive;
+}
+
+function variable(name: string, line: number, start: number, isDefinition: boolean): FileCheckVariable {
+    return { name, range: new vscode.Range(line, start, line, start + name.length), isDefinition };
+}
+
+function diagnostic(range: vscode.Range, message: string, severity: vscode.DiagnosticSeverity): vscode.Diagnostic {
+    const result = new vscode.Diagnostic(range, message, severity);
+    result.source = 'llvm-ir';
+    return result;
+}
@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+import { IRModule } from '../ir';
+import { SourceLocation, createMetadataMap, resolveMetadata, sourceLocation } from './debugInfo';
+
+/**
+ * An instruction and the source position its `!dbg` location points to
+ */
+export interface LineTableEntry {
+    source: SourceLocation;
+    range: vscode.Range;
+    functionName: string;
+}
+
+/**
+ * Map every instruction with a `!dbg` attachment to its source position.
+ * Inlined code maps to the line it was written on, not the call site.
+ */
+export function buildLineTable(module: IRModule): LineTableEntry[] {
+    const metadata = createMetadataMap(module);
+    // Many instructions share one DILocation
+    const locations = new Map<string, SourceLocation | undefined>();
+    const entries: LineTableEntry[] = [];
+
+    for (const func of module.functions) {
+        for (const block of func.blocks) {
+            for (const inst of block.instructions) {
+                const dbg = inst.attachments.find(attachment => attachment.kind === '!dbg')?.value;
+                if (!dbg) {
+                    continue;
+                }
+                let source = dbg.name !== undefined ? locations.get(dbg.name) : undefined;
+                if (dbg.name === undefined || !locations.has(dbg.name)) {
+                    const node = resolveMetadata(dbg, metadata);
+                    source = node?.nodeName === 'DILocation' ? sourceLocation(node, metadata) : undefined;
+                    if (dbg.name !== undefined) {
+                        locations.set(dbg.name, source);
+                    }
+                }
+                if (source) {
+                    entries.push({ source, range: inst.range, functionName: func.name });
+                }
+            }
+        }
+    }
+    return entries;
+}
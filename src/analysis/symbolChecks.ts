@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+import { IRModule } from '../ir';
+import { ParsedDocument, SymbolKind, getSymbolKey } from '../llvmIrParser';
+
+/**
+ * Report uses of undefined symbols and branches to missing labels
+ */
+export function checkUndefinedSymbols(parsed: ParsedDocument): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+    const labels = collectBlockNames(parsed.module);
+
+    for (const ref of parsed.references) {
+        switch (ref.kind) {
+            case SymbolKind.LocalValue:
+                if (ref.functionName && !parsed.definitions.has(getSymbolKey(ref.kind, ref.name, ref.functionName))) {
+                    diagnostics.push(error(ref.range, `use of undefined value '${ref.name}'`));
+                }
+                break;
+            case SymbolKind.Label:
+                if (ref.functionName && !labels.get(ref.functionName)?.has(ref.name)) {
+                    diagnostics.push(error(ref.range, `reference to undefined label '%${ref.name}'`));
+                }
+                break;
+            case SymbolKind.GlobalValue:
+                if (!parsed.definitions.has(getSymbolKey(ref.kind, ref.name))) {
+                    diagnostics.push(error(ref.range, `use of undefined value '${ref.name}'`));
+                }
+                break;
+            case SymbolKind.NamedType:
+                if (!parsed.definitions.has(getSymbolKey(ref.kind, ref.name))) {
+                    diagnostics.push(error(ref.range, `use of undefined type '${ref.name}'`));
+                }
+                break;
+            case SymbolKind.Metadata:
+                if (!parsed.definitions.has(getSymbolKey(ref.kind, ref.name))) {
+                    diagnostics.push(error(ref.range, `use of undefined metadata '${ref.name}'`));
+                }
+                break;
+            case SymbolKind.AttributeGroup:
+                if (!parsed.definitions.has(getSymbolKey(ref.kind, ref.name))) {
+                    diagnostics.push(error(ref.range, `use of undefined attribute group '${ref.name}'`));
+                }
+                break;
+            case SymbolKind.Comdat:
+                if (!parsed.definitions.has(getSymbolKey(ref.kind, ref.name))) {
+                    diagnostics.push(error(ref.range, `use of undefined comdat '${ref.name}'`));
+                }
+                break;
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Report names defined more than once, both inside a function (where values
+ * and labels share one namespace) and at module level
+ */
+export function checkDuplicateDefinitions(module: IRModule): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    const globals = new Map<string, vscode.Range>();
+    const checkGlobal = (name: string, range: vscode.Range, what: string) => {
+        if (globals.has(name)) {
+            diagnostics.push(error(range, `redefinition of ${what} '${name}'`));
+        } else {
+            globals.set(name, range);
+        }
+    };
+
+    for (const type of module.types) {
+        checkGlobal(type.name, type.nameRange, 'type');
+    }
+    for (const global of module.globals) {
+        checkGlobal(global.name, global.nameRange, 'global');
+    }
+    for (const func of module.functions) {
+        checkGlobal(func.name, func.nameRange, 'function');
+    }
+    for (const md of module.metadata) {
+        checkGlobal(md.name, md.nameRange, 'metadata');
+    }
+    for (const group of module.attributeGroups) {
+        checkGlobal(group.name, group.nameRange, 'attribute group');
+    }
+    for (const comdat of module.comdats) {
+        checkGlobal(comdat.name, comdat.nameRange, 'comdat');
+    }
+
+    for (const func of module.functions) {
+        // Values are written with '%' and labels without; both share one namespace
+        const locals = new Set<string>();
+        const checkLocal = (name: string, range: vscode.Range) => {
+            const key = name.startsWith('%') ? name.substring(1) : name;
+            if (locals.has(key)) {
+                diagnostics.push(error(range, `multiple definition of local value named '${key}' in '${func.name}'`));
+            } else {
+                locals.add(key);
+            }
+        };
+
+        for (const param of func.params) {
+            if (param.name) {
+                checkLocal(param.name.name, param.name.range);
+            }
+        }
+        for (const block of func.blocks) {
+            if (block.label) {
+                checkLocal(block.label.name, block.label.range);
+            }
+            for (const inst of block.instructions) {
+                if (inst.result) {
+                    checkLocal(inst.result.name, inst.result.range);
+                }
+            }
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Report unnamed values (parameters, blocks and instruction results) whose
+ * numbers are not sequential within their function, e.g. %5 after %3
+ */
+export function checkValueNumbering(module: IRModule): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    for (const func of module.functions) {
+        let expected = 0;
+        const check = (number: number, range: vscode.Range, what: string, prefix: string) => {
+            if (number !== expected) {
+                diagnostics.push(error(range, `${what} expected to be numbered '${prefix}${expected}'`));
+            }
+            // Continue from the written number so a single gap is reported once
+            expected = number + 1;
+        };
+
+        for (const param of func.params) {
+            if (param.implicitName) {
+                expected++;
+            } else if (isNumbered(param.name!.name)) {
+                check(parseInt(param.name!.name.substring(1), 10), param.name!.range, 'argument', '%');
+            }
+        }
+
+        for (const block of func.blocks) {
+            if (!block.label) {
+                expected++;
+            } else if (/^[0-9]+$/.test(block.label.name)) {
+                check(parseInt(block.label.name, 10), block.label.range, 'label', '');
+            }
+
+            for (const inst of block.instructions) {
+                if (inst.result) {
+                    if (isNumbered(inst.result.name)) {
+                        check(parseInt(inst.result.name.substring(1), 10), inst.result.range, 'instruction', '%');
+                    }
+                } else if (inst.implicitName) {
+                    expected++;
+                }
+            }
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Names of all basic blocks per function, including unlabelled entry blocks
+ */
+function collectBlockNames(module: IRModule): Map<string, Set<string>> {
+    const labels = new Map<string, Set<string>>();
+    for (const func of module.functions) {
+        labels.set(func.name, new Set(func.blocks.map(block => block.name)));
+    }
+    return labels;
+}
+
+function isNumbered(name: string): boolean {
+    return /^%[0-9]+$/.test(name);
+}
+
+function error(range: vscode.Range, message: string): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Error);
+    diagnostic.source = 'llvm-ir';
+    return diagnostic;
+}
@@ -0,0 +1,421 @@
+import * as vscode from 'vscode';
+import {
+    IRFunction,
+    IRInstruction,
+    IRModule,
+    IROperand,
+    IRType,
+    TypeKind,
+    ValueKind,
+    typeToString,
+    typesEqual,
+} from '../ir';
+import {
+    TypeContext,
+    aggregateElementType,
+    collectValueTypes,
+    createTypeContext,
+    scalarType,
+} from './typeInference';
+
+const INTEGER_BINARY_OPCODES = ['add', 'sub', 'mul', 'udiv', 'sdiv', 'urem', 'srem', 'shl', 'lshr', 'ashr', 'and', 'or', 'xor'];
+const FLOAT_BINARY_OPCODES = ['fadd', 'fsub', 'fmul', 'fdiv', 'frem'];
+
+const FLOAT_BITS: Record<string, number> = {
+    half: 16,
+    bfloat: 16,
+    float: 32,
+    double: 64,
+    x86_fp80: 80,
+    fp128: 128,
+    ppc_fp128: 128,
+};
+
+type Report = (range: vscode.Range, message: string, severity?: vscode.DiagnosticSeverity) => void;
+
+/**
+ * Check instruction operands against the typing rules of their opcode and the
+ * types their values were defined with
+ */
+export function checkTypes(module: IRModule): vscode.Diagnostic[] {
+    const ctx = createTypeContext(module);
+    const diagnostics: vscode.Diagnostic[] = [];
+    const report: Report = (range, message, severity = vscode.DiagnosticSeverity.Error) => {
+        const diagnostic = new vscode.Diagnostic(range, message, severity);
+        diagnostic.source = 'llvm-ir';
+        diagnostics.push(diagnostic);
+    };
+
+    for (const func of module.functions) {
+        if (func.isDeclaration) {
+            continue;
+        }
+        const valueTypes = collectValueTypes(func, ctx);
+        for (const block of func.blocks) {
+            for (const inst of block.instructions) {
+                for (const operand of inst.operands) {
+                    if (operand.value !== inst.call?.callee) {
+                        checkOperandValue(operand, valueTypes, ctx, report);
+                    }
+                }
+                checkInstruction(inst, func, ctx, report);
+            }
+        }
+    }
+    return diagnostics;
+}
+
+/**
+ * Does the value match the type it is written with?
+ */
+function checkOperandValue(
+    operand: IROperand,
+    valueTypes: Map<string, IRType>,
+    ctx: TypeContext,
+    report: Report
+): void {
+    const type = operand.type;
+    const value = operand.value;
+    if (!type || type.kind === TypeKind.Label || type.kind === TypeKind.Metadata) {
+        return;
+    }
+
+    switch (value.kind) {
+        case ValueKind.Local: {
+            const defined = valueTypes.get(value.name!);
+            if (defined && !typesEqual(defined, type)) {
+                report(value.range, `'${value.name}' defined with type '${typeToString(defined)}' but expected '${typeToString(type)}'`);
+            }
+            return;
+        }
+
+        case ValueKind.Global: {
+            const addrSpace = ctx.globalAddressSpaces.get(value.name!);
+            if (addrSpace === undefined) {
+                return;
+            }
+            const defined: IRType = { kind: TypeKind.Pointer, addrSpace };
+            if (!typesEqual(defined, type)) {
+                report(value.range, `'${value.name}' defined with type '${typeToString(defined)}' but expected '${typeToString(type)}'`);
+            }
+            return;
+        }
+
+        case ValueKind.Constant: {
+            const text = value.text;
+            if (/^[-+]?[0-9]+$/.test(text) && type.kind !== TypeKind.Integer) {
+                report(value.range, 'integer constant must have integer type');
+            } else if (/^[-+]?([0-9]+\.[0-9]*([eE][-+]?[0-9]+)?|0x[KLMHR]?[0-9A-Fa-f]+)$/.test(text) && type.kind !== TypeKind.Float) {
+                report(value.range, `floating point constant invalid for type '${typeToString(type)}'`);
+            } else if (text === 'null' && type.kind !== TypeKind.Pointer) {
+                report(value.range, 'null must be a pointer type');
+            } else if ((text === 'true' || text === 'false') && !(type.kind === TypeKind.Integer && type.bits === 1)) {
+                report(value.range, `'${text}' must have type 'i1'`);
+            }
+            return;
+        }
+    }
+}
+
+/**
+ * Opcode-specific typing rules
+ */
+function checkInstruction(inst: IRInstruction, func: IRFunction, ctx: TypeContext, report: Report): void {
+    const op = inst.opcode;
+    const operands = inst.operands;
+    const typeName = (type: IRType) => `'${typeToString(type)}'`;
+
+    if (INTEGER_BINARY_OPCODES.includes(op) || op === 'icmp') {
+        const scalar = inst.type && scalarType(inst.type);
+        const allowed = scalar?.kind === TypeKind.Integer || (op === 'icmp' && scalar?.kind === TypeKind.Pointer);
+        if (scalar && !allowed) {
+            const expected = op === 'icmp' ? 'integer or pointer' : 'integer';
+            report(inst.range, `'${op}' requires ${expected} operands, got ${typeName(inst.type!)}`);
+        }
+        return;
+    }
+
+    if (FLOAT_BINARY_OPCODES.includes(op) || op === 'fcmp' || op === 'fneg') {
+        if (inst.type && scalarType(inst.type).kind !== TypeKind.Float) {
+            report(inst.range, `'${op}' requires floating point operands, got ${typeName(inst.type)}`);
+        }
+        return;
+    }
+
+    switch (op) {
+        case 'trunc':
+        case 'zext':
+        case 'sext':
+        case 'fptrunc':
+        case 'fpext':
+        case 'fptoui':
+        case 'fptosi':
+        case 'uitofp':
+        case 'sitofp':
+        case 'ptrtoint':
+        case 'inttoptr':
+        case 'bitcast':
+        case 'addrspacecast': {
+            const source = operands[0]?.type;
+            if (source && inst.type && !isValidCast(op, source, inst.type)) {
+                report(inst.range, `invalid cast opcode for cast from ${typeName(source)} to ${typeName(inst.type)}`);
+            }
+            return;
+        }
+
+        case 'load':
+        case 'va_arg':
+            expectPointer(operands[0], `${op} operand must be a pointer`, report);
+            return;
+
+        case 'store':
+            expectPointer(operands[1], 'store operand must be a pointer', report);
+            return;
+
+        case 'atomicrmw':
+        case 'cmpxchg':
+            expectPointer(operands[0], `${op} operand must be a pointer`, report);
+            if (op === 'cmpxchg' && operands[1]?.type && operands[2]?.type && !typesEqual(operands[1].type, operands[2].type)) {
+                report(operands[2].range, 'compare value and new value type do not match');
+            }
+            return;
+
+        case 'getelementptr':
+            expectPointer(operands[0], 'base of getelementptr must be a pointer', report);
+            for (const index of operands.slice(1)) {
+                if (index.type && scalarType(index.type).kind !== TypeKind.Integer) {
+                    report(index.range, 'getelementptr index must be an integer');
+                }
+            }
+            return;
+
+        case 'select': {
+            const [condition, trueValue, falseValue] = operands;
+            if (condition?.type && !isBoolean(scalarType(condition.type))) {
+                report(condition.range, 'select condition must be i1 or <n x i1>');
+            }
+            if (trueValue?.type && falseValue?.type && !typesEqual(trueValue.type, falseValue.type)) {
+                report(falseValue.range, 'select values must have the same type');
+            }
+            return;
+        }
+
+        case 'br':
+            if (operands.length === 3 && operands[0].type && !isBoolean(operands[0].type)) {
+                report(operands[0].range, `branch condition must have type 'i1'`);
+            }
+            return;
+
+        case 'switch': {
+            const condition = operands[0]?.type;
+            if (condition && condition.kind !== TypeKind.Integer) {
+                report(operands[0].range, 'switch condition must be an integer');
+                return;
+            }
+            for (const switchCase of inst.cases ?? []) {
+                const caseType = switchCase.value.type;
+                if (condition && caseType && !typesEqual(condition, caseType)) {
+                    report(switchCase.value.range, `case value type ${typeName(caseType)} does not match condition type ${typeName(condition)}`);
+                }
+            }
+            return;
+        }
+
+        case 'ret': {
+            const returned = operands[0]?.type ?? inst.type;
+            if (returned && !typesEqual(returned, func.returnType)) {
+                report(inst.range, `value doesn't match function result type ${typeName(func.returnType)}`);
+            }
+            return;
+        }
+
+        case 'extractelement':
+        case 'insertelement': {
+            const vector = operands[0]?.type;
+            if (vector && vector.kind !== TypeKind.Vector) {
+                report(operands[0].range, `${op} requires a vector operand`);
+                return;
+            }
+            const element = op === 'insertelement' ? operands[1] : undefined;
+            if (vector && element?.type && !typesEqual(vector.element!, element.type)) {
+                report(element.range, `inserted element must be of type ${typeName(vector.element!)}`);
+            }
+            const index = operands[op === 'insertelement' ? 2 : 1];
+            if (index?.type && index.type.kind !== TypeKind.Integer) {
+                report(index.range, `${op} index must be an integer`);
+            }
+            return;
+        }
+
+        case 'extractvalue':
+        case 'insertvalue': {
+            let type = operands[0]?.type;
+            for (const index of inst.indices ?? []) {
+                type = type && aggregateElementType(type, index, ctx);
+                if (!type) {
+                    report(inst.range, `invalid indices for ${op}`);
+                    return;
+                }
+            }
+            const inserted = op === 'insertvalue' ? operands[1]?.type : undefined;
+            if (type && inserted && !typesEqual(type, inserted)) {
+                report(operands[1].range, `insertvalue operand and field disagree in type: ${typeName(inserted)} instead of ${typeName(type)}`);
+            }
+            return;
+        }
+
+        case 'call':
+        case 'invoke':
+        case 'callbr':
+            checkCall(inst, ctx, report);
+            return;
+    }
+}
+
+/**
+ * Check call arguments against the explicit function type of the call, and
+ * the call against the callee's declaration. With opaque pointers LLVM accepts
+ * calls through a mismatched signature, so the latter are only warnings.
+ */
+function checkCall(inst: IRInstruction, ctx: TypeContext, report: Report): void {
+    const call = inst.call!;
+    const args = call.args;
+    const typeName = (type: IRType) => `'${typeToString(type)}'`;
+
+    if (call.calleeType.kind === TypeKind.Function) {
+        const params = call.calleeType.params!;
+        if (args.length > params.length && !call.calleeType.varArgs) {
+            report(args[params.length].range, 'too many arguments specified');
+        } else if (args.length < params.length) {
+            report(inst.range, 'not enough parameters specified for call');
+        }
+        params.forEach((param, i) => {
+            const argType = args[i]?.type;
+            if (argType && !typesEqual(param, argType)) {
+                report(args[i].range, `argument is not of expected type ${typeName(param)}`);
+            }
+        });
+    }
+
+    if (call.callee.kind !== ValueKind.Global) {
+        return;
+    }
+    const callee = ctx.functions.get(call.callee.name!);
+    if (!callee) {
+        return;
+    }
+
+    const warn = (range: vscode.Range, message: string) =>
+        report(range, message, vscode.DiagnosticSeverity.Warning);
+    const params = callee.params;
+    if (args.length < params.length || (args.length > params.length && !callee.varArgs)) {
+        const expected = `${params.length}${callee.varArgs ? ' or more' : ''}`;
+        warn(call.callee.range, `'${callee.name}' expects ${expected} argument${params.length === 1 ? '' : 's'} but is called with ${args.length}`);
+    }
+    params.forEach((param, i) => {
+        const argType = args[i]?.type;
+        if (argType && !typesEqual(param.type, argType)) {
+            warn(args[i].range, `argument ${i + 1} of '${callee.name}' has type ${typeName(argType)} but the parameter is ${typeName(param.type)}`);
+        }
+    });
+    if (inst.type && !typesEqual(inst.type, callee.returnType)) {
+        warn(call.callee.range, `'${callee.name}' returns ${typeName(callee.returnType)} but is called as returning ${typeName(inst.type)}`);
+    }
+}
+
+function expectPointer(operand: IROperand | undefined, message: string, report: Report): void {
+    if (operand?.type && scalarType(operand.type).kind !== TypeKind.Pointer) {
+        report(operand.range, message);
+    }
+}
+
+function isBoolean(type: IRType): boolean {
+    return type.kind === TypeKind.Integer && type.bits === 1;
+}
+
+/**
+ * Bit width of an integer, floating point or fixed vector type
+ */
+function primitiveBits(type: IRType): number | undefined {
+    switch (type.kind) {
+        case TypeKind.Integer:
+            return type.bits;
+        case TypeKind.Float:
+            return FLOAT_BITS[type.name!];
+        case TypeKind.Vector: {
+            const element = primitiveBits(type.element!);
+            return element !== undefined && !type.scalable ? element * type.count! : undefined;
+        }
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * The cast rules of CastInst::castIsValid
+ */
+function isValidCast(op: string, source: IRType, dest: IRType): boolean {
+    if (op === 'bitcast') {
+        const sourcePointer = scalarType(source).kind === TypeKind.Pointer;
+        const destPointer = scalarType(dest).kind === TypeKind.Pointer;
+        if (sourcePointer || destPointer) {
+            return sourcePointer && destPointer
+                && (scalarType(source).addrSpace ?? 0) === (scalarType(dest).addrSpace ?? 0)
+                && sameShape(source, dest);
+        }
+        const sourceBits = primitiveBits(source);
+        const destBits = primitiveBits(dest);
+        if (source.kind === TypeKind.Vector && dest.kind === TypeKind.Vector && source.scalable !== dest.scalable) {
+            return false;
+        }
+        return sourceBits === undefined || destBits === undefined || sourceBits === destBits;
+    }
+
+    if (!sameShape(source, dest)) {
+        return false;
+    }
+    const from = scalarType(source);
+    const to = scalarType(dest);
+    const isInt = (type: IRType) => type.kind === TypeKind.Integer;
+    const isFloat = (type: IRType) => type.kind === TypeKind.Float;
+    const isPointer = (type: IRType) => type.kind === TypeKind.Pointer;
+    const fromBits = primitiveBits(from) ?? 0;
+    const toBits = primitiveBits(to) ?? 0;
+
+    switch (op) {
+        case 'trunc':
+            return isInt(from) && isInt(to) && fromBits > toBits;
+        case 'zext':
+        case 'sext':
+            return isInt(from) && isInt(to) && fromBits < toBits;
+        case 'fptrunc':
+            return isFloat(from) && isFloat(to) && fromBits > toBits;
+        case 'fpext':
+            return isFloat(from) && isFloat(to) && fromBits < toBits;
+        case 'fptoui':
+        case 'fptosi':
+            return isFloat(from) && isInt(to);
+        case 'uitofp':
+        case 'sitofp':
+            return isInt(from) && isFloat(to);
+        case 'ptrtoint':
+            return isPointer(from) && isInt(to);
+        case 'inttoptr':
+            return isInt(from) && isPointer(to);
+        case 'addrspacecast':
+            return isPointer(from) && isPointer(to) && (from.addrSpace ?? 0) !== (to.addrSpace ?? 0);
+        default:
+            return true;
+    }
+}
+
+/**
+ * Both scalars, or vectors with the same element count
+ */
+function sameShape(a: IRType, b: IRType): boolean {
+    if (a.kind === TypeKind.Vector || b.kind === TypeKind.Vector) {
+        return a.kind === b.kind && a.count === b.count && !!a.scalable === !!b.scalable;
+    }
+    return true;
+}
+
@@ -0,0 +1,219 @@
+import {
+    IRFunction,
+    IRInstruction,
+    IRModule,
+    IRType,
+    TypeKind,
+    intType,
+    TOKEN_TYPE,
+    VOID_TYPE,
+} from '../ir';
+
+/**
+ * Module-level information needed to reason about types
+ */
+export interface TypeContext {
+    namedTypes: Map<string, IRType>;
+    // Definitions win over declarations of the same name
+    functions: Map<string, IRFunction>;
+    // Address space of each global variable, alias and function
+    globalAddressSpaces: Map<string, number>;
+}
+
+/**
+ * Collect named types, function signatures and global address spaces
+ */
+export function createTypeContext(module: IRModule): TypeContext {
+    const namedTypes = new Map<string, IRType>();
+    for (const type of module.types) {
+        namedTypes.set(type.name, type.type);
+    }
+
+    const functions = new Map<string, IRFunction>();
+    const globalAddressSpaces = new Map<string, number>();
+    for (const func of module.functions) {
+        if (!functions.has(func.name) || !func.isDeclaration) {
+            functions.set(func.name, func);
+        }
+        globalAddressSpaces.set(func.name, addressSpaceOf([...func.keywords, ...func.attributes]));
+    }
+    for (const global of module.globals) {
+        globalAddressSpaces.set(global.name, addressSpaceOf(global.keywords));
+    }
+
+    return { namedTypes, functions, globalAddressSpaces };
+}
+
+function addressSpaceOf(keywords: string[]): number {
+    for (const keyword of keywords) {
+        const match = keyword.match(/^addrspace\s*\(\s*([0-9]+)\s*\)$/);
+        if (match) {
+            return parseInt(match[1], 10);
+        }
+    }
+    return 0;
+}
+
+/**
+ * Look through a named type to its definition
+ */
+export function resolveType(type: IRType, ctx: TypeContext): IRType {
+    const seen = new Set<string>();
+    while (type.kind === TypeKind.Named && !seen.has(type.name!)) {
+        seen.add(type.name!);
+        const resolved = ctx.namedTypes.get(type.name!);
+        if (!resolved) {
+            break;
+        }
+        type = resolved;
+    }
+    return type;
+}
+
+/**
+ * The element type of a vector, or the type itself for scalars
+ */
+export function scalarType(type: IRType): IRType {
+    return type.kind === TypeKind.Vector ? type.element! : type;
+}
+
+/**
+ * Wrap a scalar type into a vector shaped like `shape`, if `shape` is a vector
+ */
+function withShapeOf(scalar: IRType, shape: IRType | undefined): IRType {
+    if (shape?.kind === TypeKind.Vector) {
+        return { kind: TypeKind.Vector, count: shape.count, scalable: shape.scalable, element: scalar };
+    }
+    return scalar;
+}
+
+/**
+ * The type of element `index` of an aggregate, or undefined if out of range
+ */
+export function aggregateElementType(type: IRType, index: number, ctx: TypeContext): IRType | undefined {
+    const resolved = resolveType(type, ctx);
+    switch (resolved.kind) {
+        case TypeKind.Struct:
+            return resolved.elements![index];
+        case TypeKind.Array:
+        case TypeKind.Vector:
+            return index < resolved.count! || resolved.scalable ? resolved.element : undefined;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Infer the result type of an instruction. Returns undefined when the
+ * instruction is malformed enough that no type can be determined.
+ */
+export function inferResultType(inst: IRInstruction, ctx: TypeContext): IRType | undefined {
+    const op0 = inst.operands[0]?.type;
+    switch (inst.opcode) {
+        case 'icmp':
+        case 'fcmp':
+            return withShapeOf(intType(1), inst.type);
+
+        case 'alloca': {
+            const space = inst.flags.map(flag => flag.match(/^addrspace\s*\(\s*([0-9]+)\s*\)$/)).find(m => m);
+            return { kind: TypeKind.Pointer, addrSpace: space ? parseInt(space[1], 10) : 0 };
+        }
+
+        case 'getelementptr': {
+            // The result is a vector of pointers if the base or any index is a vector
+            const base = op0 ? scalarType(op0) : { kind: TypeKind.Pointer, addrSpace: 0 };
+            const pointer: IRType = { kind: TypeKind.Pointer, addrSpace: base.addrSpace ?? 0 };
+            const vector = inst.operands.map(op => op.type).find(type => type?.kind === TypeKind.Vector);
+            return withShapeOf(pointer, vector);
+        }
+
+        case 'select':
+            return inst.operands[1]?.type;
+
+        case 'extractelement':
+            return op0 && op0.kind === TypeKind.Vector ? op0.element : undefined;
+
+        case 'insertelement':
+            return op0;
+
+        case 'shufflevector': {
+            const mask = inst.operands[2]?.type;
+            if (!op0 || op0.kind !== TypeKind.Vector || !mask || mask.kind !== TypeKind.Vector) {
+                return undefined;
+            }
+            return { kind: TypeKind.Vector, count: mask.count, scalable: mask.scalable, element: op0.element };
+        }
+
+        case 'extractvalue': {
+            let type = op0;
+            for (const index of inst.indices ?? []) {
+                type = type && aggregateElementType(type, index, ctx);
+            }
+            return type;
+        }
+
+        case 'insertvalue':
+            return op0;
+
+        case 'cmpxchg': {
+            const valueType = inst.operands[1]?.type;
+            return valueType && { kind: TypeKind.Struct, elements: [valueType, intType(1)], packed: false };
+        }
+
+        case 'atomicrmw':
+            return inst.operands[1]?.type;
+
+        case 'catchpad':
+        case 'cleanuppad':
+        case 'catchswitch':
+            return TOKEN_TYPE;
+
+        case 'store':
+        case 'fence':
+        case 'br':
+        case 'switch':
+        case 'indirectbr':
+        case 'resume':
+        case 'unreachable':
+        case 'catchret':
+        case 'cleanupret':
+        case 'ret':
+            return VOID_TYPE;
+
+        default:
+            // Binary ops, casts, load, phi, calls, va_arg, landingpad and
+            // friends: the parser already recorded the result type
+            return inst.type;
+    }
+}
+
+/**
+ * Types of all local values of a function: parameters and instruction results
+ */
+export function collectValueTypes(func: IRFunction, ctx: TypeContext): Map<string, IRType> {
+    const types = new Map<string, IRType>();
+    for (const param of func.params) {
+        types.set(param.name?.name ?? param.implicitName!, param.type);
+    }
+    for (const block of func.blocks) {
+        for (const inst of block.instructions) {
+            const name = inst.result?.name ?? inst.implicitName;
+            if (!name) {
+                continue;
+            }
+            const type = inferResultType(inst, ctx);
+            if (type) {
+                types.set(name, type);
+            }
+        }
+    }
+    return types;
+}
+
+/**
+ * Infer the type of a local value of the named function
+ */
+export function inferValueType(module: IRModule, functionName: string, valueName: string): IRType | undefined {
+    const func = module.functions.find(f => f.name === functionName && !f.isDeclaration);
+    return func && collectValueTypes(func, createTypeContext(module)).get(valueName);
+}
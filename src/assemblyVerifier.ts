@@ -0,0 +1,272 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { IRFunction, IRModule } from './ir';
+import { parseDocument } from './llvmIrParser';
+import {
+    parseToolMessages,
+    parseVerifierMessages,
+    resolveTool,
+    runTool,
+    ToolNotFoundError,
+    ToolTimeoutError,
+    VerifierMessage,
+} from './llvmTools';
+
+type VerifierTool = 'llvm-as' | 'opt';
+
+/**
+ * Where a value dumped by the verifier was found in the document
+ */
+interface LocatedValue {
+    range: vscode.Range;
+    isInstruction: boolean;
+    func?: IRFunction;
+}
+
+/**
+ * Checks documents with a local llvm-as or `opt -passes=verify`, on save or
+ * on demand, and reports the parser and verifier errors as diagnostics.
+ */
+export class AssemblyVerifier implements vscode.Disposable {
+    private readonly diagnostics = vscode.languages.createDiagnosticCollection('llvm-verifier');
+    private readonly running = new Map<string, vscode.CancellationTokenSource>();
+    private readonly disposables: vscode.Disposable[] = [];
+    // A missing tool is reported once per session when checking on save
+    private missingToolReported = false;
+
+    constructor() {
+        this.disposables.push(
+            vscode.workspace.onDidSaveTextDocument(document => {
+                if (document.languageId === 'llvm-ir'
+                    && vscode.workspace.getConfiguration('llvm-ir').get<boolean>('verifier.onSave', false)) {
+                    this.verify(document, false);
+                }
+            }),
+            // Reported positions are only valid for the text that was checked
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.contentChanges.length > 0) {
+                    this.diagnostics.delete(event.document.uri);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                this.running.get(document.uri.toString())?.cancel();
+                this.diagnostics.delete(document.uri);
+            })
+        );
+    }
+
+    /**
+     * Check a document and replace its diagnostics. When `interactive`, a
+     * clean result and any failure to run the tool are reported in a message.
+     */
+    async verify(document: vscode.TextDocument, interactive: boolean): Promise<void> {
+        const config = vscode.workspace.getConfiguration('llvm-ir');
+        const tool = config.get<VerifierTool>('verifier.tool', 'llvm-as');
+        const timeout = config.get<number>('verifier.timeout', 10) * 1000;
+        const executable = resolveTool(tool);
+        const args = tool === 'opt'
+            ? ['-passes=verify', '-disable-output', '-']
+            : ['-o', os.devNull, '-'];
+
+        const key = document.uri.toString();
+        this.running.get(key)?.cancel();
+        const cancellation = new vscode.CancellationTokenSource();
+        this.running.set(key, cancellation);
+        const version = document.version;
+
+        let result;
+        try {
+            result = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Window,
+                title: `Running ${tool}`,
+            }, () => runTool(executable, args, document.getText(), cancellation.token, timeout));
+        } catch (error) {
+            if (!(error instanceof vscode.CancellationError)) {
+                this.reportFailure(error, interactive);
+            }
+            return;
+        } finally {
+            if (this.running.get(key) === cancellation) {
+                this.running.delete(key);
+            }
+            cancellation.dispose();
+        }
+
+        if (document.isClosed || document.version !== version) {
+            return;
+        }
+        const diagnostics = collectDiagnostics(document, result.stderr, tool);
+        if (result.exitCode !== 0 && diagnostics.length === 0) {
+            // Output the parsers above do not understand, e.g. a crash
+            const firstLine = result.stderr.split('\n').find(line => line.trim()) ?? '';
+            const diagnostic = new vscode.Diagnostic(
+                document.lineAt(0).range,
+                `${tool} exited with status ${result.exitCode}. ${firstLine}`.trim(),
+                vscode.DiagnosticSeverity.Error
+            );
+            diagnostic.source = tool;
+            diagnostics.push(diagnostic);
+        }
+        this.diagnostics.set(document.uri, diagnostics);
+
+        if (interactive && result.exitCode === 0) {
+            vscode.window.showInformationMessage(`${tool} found no errors.`);
+        }
+    }
+
+    private async reportFailure(error: unknown, interactive: boolean): Promise<void> {
+        if (error instanceof ToolNotFoundError) {
+            if (!interactive) {
+                if (this.missingToolReported) {
+                    return;
+                }
+                this.missingToolReported = true;
+            }
+            const actions = interactive ? ['Open Settings'] : ['Open Settings', 'Disable on Save'];
+            const choice = await vscode.window.showErrorMessage(error.message, ...actions);
+            if (choice === 'Open Settings') {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'llvm-ir.llvmBinDirectory');
+            } else if (choice === 'Disable on Save') {
+                vscode.workspace.getConfiguration('llvm-ir').update('verifier.onSave', false, vscode.ConfigurationTarget.Global);
+            }
+            return;
+        }
+        if (error instanceof ToolTimeoutError) {
+            vscode.window.showWarningMessage(`${error.message} Raise llvm-ir.verifier.timeout for large files.`);
+            return;
+        }
+        vscode.window.showErrorMessage(`Verification failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    dispose(): void {
+        for (const cancellation of this.running.values()) {
+            cancellation.cancel();
+        }
+        this.diagnostics.dispose();
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+    }
+}
+
+function collectDiagnostics(document: vscode.TextDocument, stderr: string, tool: VerifierTool): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+    for (const message of parseToolMessages(stderr)) {
+        if (message.line >= document.lineCount) {
+            continue;
+        }
+        const text = document.lineAt(message.line).text;
+        const position = new vscode.Position(message.line, Math.min(message.column, text.length));
+        const range = document.getWordRangeAtPosition(position)
+            ?? new vscode.Range(position, new vscode.Position(message.line, text.length));
+        const diagnostic = new vscode.Diagnostic(range, message.message, message.severity);
+        diagnostic.source = tool;
+        diagnostics.push(diagnostic);
+    }
+
+    const module = parseDocument(document).module;
+    for (const message of parseVerifierMessages(stderr)) {
+        diagnostics.push(verifierDiagnostic(document, module, message, tool));
+    }
+    return diagnostics;
+}
+
+/**
+ * A diagnostic on the last instruction the message names, which is the
+ * offending one: for `Instruction does not dominate all uses!` the verifier
+ * dumps the definition first and the use second. The other values become
+ * related information and are repeated in the message.
+ */
+function verifierDiagnostic(
+    document: vscode.TextDocument,
+    module: IRModule,
+    message: VerifierMessage,
+    tool: VerifierTool
+): vscode.Diagnostic {
+    let scope: IRFunction | undefined;
+    const located: { value: string; location?: LocatedValue }[] = [];
+    for (const value of message.values) {
+        const location = locateValue(module, value, scope);
+        scope = location?.func ?? scope;
+        located.push({ value, location });
+    }
+
+    const primary = [...located].reverse().find(entry => entry.location?.isInstruction)
+        ?? [...located].reverse().find(entry => entry.location);
+    const range = primary?.location?.range ?? scope?.nameRange ?? document.lineAt(0).range;
+    const details = located.filter(entry => entry !== primary).map(entry => entry.value);
+    const diagnostic = new vscode.Diagnostic(
+        range,
+        [message.message, ...details].join('\n'),
+        vscode.DiagnosticSeverity.Error
+    );
+    diagnostic.source = tool;
+    diagnostic.relatedInformation = located
+        .filter(entry => entry !== primary && entry.location)
+        .map(entry => new vscode.DiagnosticRelatedInformation(
+            new vscode.Location(document.uri, entry.location!.range),
+            entry.value
+        ));
+    return diagnostic;
+}
+
+/**
+ * Find a dumped value: an instruction by its text, a block from `label %bb`,
+ * a function, global or parameter from `type name`. Identical instructions
+ * and local names are looked up in `scope` first, the function of the
+ * values found before.
+ */
+function locateValue(module: IRModule, value: string, scope?: IRFunction): LocatedValue | undefined {
+    const functions = scope ? [scope, ...module.functions.filter(func => func !== scope)] : module.functions;
+
+    const compact = compactInstruction(value);
+    for (const func of functions) {
+        for (const block of func.blocks) {
+            const inst = block.instructions.find(candidate => compactInstruction(candidate.text) === compact);
+            if (inst) {
+                return { range: inst.range, isInstruction: true, func };
+            }
+        }
+    }
+
+    const label = value.match(/^label (%\S+)$/);
+    if (label) {
+        for (const func of functions) {
+            const block = func.blocks.find(candidate => `%${candidate.name}` === label[1]);
+            if (block) {
+                return { range: block.label?.range ?? block.range.with({ end: block.range.start }), isInstruction: false, func };
+            }
+        }
+        return undefined;
+    }
+
+    const name = value.match(/ ([%@](?:"[^"]*"|[-\w.$]+))$/)?.[1];
+    if (name?.startsWith('@')) {
+        const func = module.functions.find(candidate => candidate.name === name);
+        if (func) {
+            return { range: func.nameRange, isInstruction: false, func };
+        }
+        const global = module.globals.find(candidate => candidate.name === name);
+        return global && { range: global.nameRange, isInstruction: false };
+    }
+    if (name) {
+        for (const func of functions) {
+            const param = func.params.find(candidate => candidate.name?.name === name);
+            if (param) {
+                return { range: param.name!.range, isInstruction: false, func };
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Instruction text without comments, whitespace and metadata numbers, which
+ * the verifier prints with its own numbering
+ */
+function compactInstruction(text: string): string {
+    return text
+        .replace(/;[^"\n]*$/gm, '')
+        .replace(/!\d+/g, '!')
+        .replace(/\s+/g, '');
+}
@@ -0,0 +1,249 @@
+import * as vscode from 'vscode';
+import { parseDocument } from './llvmIrParser';
+import { buildCfgGraph, layoutCfgGraph } from './analysis/cfgGraph';
+
+/**
+ * A webview that draws the control-flow graph of one function and follows
+ * edits to its document. Clicking a block reveals it in the editor.
+ */
+export class CfgPanel implements vscode.Disposable {
+    private static current: CfgPanel | undefined;
+
+    private readonly panel: vscode.WebviewPanel;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    private constructor(private document: vscode.TextDocument, private functionName: string) {
+        this.panel = vscode.window.createWebviewPanel(
+            'llvm-ir.cfg',
+            `CFG: ${functionName}`,
+            vscode.ViewColumn.Beside,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        this.panel.webview.html = this.html();
+
+        this.disposables.push(
+            this.panel.onDidDispose(() => this.dispose()),
+            this.panel.webview.onDidReceiveMessage((message: { type: string; block?: number }) => {
+                if (message.type === 'ready') {
+                    this.update();
+                } else if (message.type === 'reveal' && message.block !== undefined) {
+                    this.revealBlock(message.block);
+                }
+            }),
+            vscode.workspace.onDidChangeTextDocument((event) => {
+                if (event.document === this.document) {
+                    this.update();
+                }
+            })
+        );
+    }
+
+    /**
+     * Show the graph of a function, reusing the open panel
+     */
+    static show(document: vscode.TextDocument, functionName: string): void {
+        if (CfgPanel.current) {
+            CfgPanel.current.document = document;
+            CfgPanel.current.functionName = functionName;
+            CfgPanel.current.panel.title = `CFG: ${functionName}`;
+            CfgPanel.current.panel.reveal(vscode.ViewColumn.Beside);
+            CfgPanel.current.update();
+            return;
+        }
+        CfgPanel.current = new CfgPanel(document, functionName);
+    }
+
+    private update(): void {
+        const func = parseDocument(this.document).module.functions
+            .find(f => f.name === this.functionName && !f.isDeclaration);
+        if (!func) {
+            this.panel.webview.postMessage({ type: 'error', message: `${this.functionName} is no longer defined.` });
+            return;
+        }
+        this.panel.webview.postMessage({ type: 'graph', layout: layoutCfgGraph(buildCfgGraph(func)) });
+    }
+
+    private async revealBlock(index: number): Promise<void> {
+        const func = parseDocument(this.document).module.functions
+            .find(f => f.name === this.functionName && !f.isDeclaration);
+        const block = func?.blocks[index];
+        if (!block) {
+            return;
+        }
+        const editor = await vscode.window.showTextDocument(this.document, vscode.ViewColumn.One);
+        editor.selection = new vscode.Selection(block.range.start, block.range.start);
+        editor.revealRange(block.range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    }
+
+    private html(): string {
+        const nonce = createNonce();
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+<style nonce="${nonce}">
+    html, body { margin: 0; padding: 0; width: 100%; height: 100%; overflow: hidden; }
+    body { background: var(--vscode-editor-background); color: var(--vscode-editor-foreground); }
+    svg { width: 100%; height: 100%; cursor: grab; user-select: none; }
+    svg.dragging { cursor: grabbing; }
+    .block rect { fill: var(--vscode-editorWidget-background); stroke: var(--vscode-editorWidget-border, var(--vscode-foreground)); }
+    .block:hover rect { stroke: var(--vscode-focusBorder); stroke-width: 2; }
+    .block { cursor: pointer; }
+    .block text { font-family: var(--vscode-editor-font-family, monospace); font-size: 12px; fill: var(--vscode-editor-foreground); }
+    .block text.label { font-weight: bold; }
+    .edge path { fill: none; stroke: var(--vscode-foreground); stroke-width: 1.2; }
+    .edge.back path { stroke: var(--vscode-errorForeground, red); stroke-dasharray: 5 3; stroke-width: 1.6; }
+    .edge text { font-family: var(--vscode-editor-font-family, monospace); font-size: 11px; fill: var(--vscode-descriptionForeground); }
+    #arrow path { fill: var(--vscode-foreground); }
+    #back-arrow path { fill: var(--vscode-errorForeground, red); }
+    #message { position: absolute; top: 8px; left: 8px; color: var(--vscode-errorForeground); }
+</style>
+</head>
+<body>
+<div id="message"></div>
+<svg id="graph" xmlns="http://www.w3.org/2000/svg">
+    <defs>
+        <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto"><path d="M0,0 L10,5 L0,10 z"/></marker>
+        <marker id="back-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto"><path d="M0,0 L10,5 L0,10 z"/></marker>
+    </defs>
+    <g id="viewport"></g>
+</svg>
+<script nonce="${nonce}">
+(function () {
+    const vscode = acquireVsCodeApi();
+    const SVG = 'http://www.w3.org/2000/svg';
+    const svg = document.getElementById('graph');
+    const viewport = document.getElementById('viewport');
+    const message = document.getElementById('message');
+    const view = { x: 0, y: 0, scale: 1 };
+    let fitted = false;
+
+    function element(name, attributes, parent) {
+        const node = document.createElementNS(SVG, name);
+        for (const key in attributes) {
+            node.setAttribute(key, attributes[key]);
+        }
+        parent.appendChild(node);
+        return node;
+    }
+
+    function applyView() {
+        viewport.setAttribute('transform', 'translate(' + view.x + ',' + view.y + ') scale(' + view.scale + ')');
+    }
+
+    function edgePath(points) {
+        if (points.length === 2) {
+            const [a, b] = points;
+            const bend = Math.max(20, (b.y - a.y) / 2);
+            return 'M' + a.x + ',' + a.y + ' C' + a.x + ',' + (a.y + bend) + ' ' + b.x + ',' + (b.y - bend) + ' ' + b.x + ',' + b.y;
+        }
+        return 'M' + points.map(p => p.x + ',' + p.y).join(' L');
+    }
+
+    function render(layout) {
+        message.textContent = '';
+        viewport.textContent = '';
+        const edges = element('g', {}, viewport);
+        for (const edge of layout.edges) {
+            const group = element('g', { class: edge.isBackEdge ? 'edge back' : 'edge' }, edges);
+            element('path', {
+                d: edgePath(edge.points),
+                'marker-end': edge.isBackEdge ? 'url(#back-arrow)' : 'url(#arrow)',
+            }, group);
+            if (edge.label) {
+                const at = edge.points.length === 2 ? edge.points[0] : edge.points[1];
+                const text = element('text', { x: at.x + 4, y: at.y + (edge.points.length === 2 ? 14 : -4) }, group);
+                text.textContent = edge.label;
+            }
+        }
+        for (const node of layout.nodes) {
+            const group = element('g', { class: 'block', transform: 'translate(' + node.x + ',' + node.y + ')' }, viewport);
+            element('rect', { width: node.width, height: node.height, rx: 3 }, group);
+            const lines = [node.name + ':'].concat(node.lines.map(line => '  ' + line));
+            lines.forEach((line, i) => {
+                const text = element('text', { x: 8, y: 8 + 12 + i * 16, class: i === 0 ? 'label' : '' }, group);
+                text.textContent = line;
+                text.setAttribute('xml:space', 'preserve');
+            });
+            group.addEventListener('click', () => {
+                if (!dragged) {
+                    vscode.postMessage({ type: 'reveal', block: node.index });
+                }
+            });
+        }
+        if (!fitted) {
+            const scale = Math.min(1, svg.clientWidth / layout.width, svg.clientHeight / layout.height);
+            view.scale = scale > 0 ? scale : 1;
+            view.x = Math.max(0, (svg.clientWidth - layout.width * view.scale) / 2);
+            view.y = 0;
+            fitted = true;
+        }
+        applyView();
+    }
+
+    window.addEventListener('message', event => {
+        const data = event.data;
+        if (data.type === 'graph') {
+            render(data.layout);
+        } else if (data.type === 'error') {
+            message.textContent = data.message;
+        }
+    });
+
+    svg.addEventListener('wheel', event => {
+        event.preventDefault();
+        const factor = event.deltaY < 0 ? 1.1 : 1 / 1.1;
+        const scale = Math.min(4, Math.max(0.1, view.scale * factor));
+        view.x = event.offsetX - (event.offsetX - view.x) * (scale / view.scale);
+        view.y = event.offsetY - (event.offsetY - view.y) * (scale / view.scale);
+        view.scale = scale;
+        applyView();
+    }, { passive: false });
+
+    // A drag that moved the view is not a click on the block it started on
+    let drag = null;
+    let dragged = false;
+    svg.addEventListener('mousedown', event => {
+        drag = { x: event.clientX - view.x, y: event.clientY - view.y };
+        dragged = false;
+        svg.classList.add('dragging');
+    });
+    window.addEventListener('mousemove', event => {
+        if (drag) {
+            view.x = event.clientX - drag.x;
+            view.y = event.clientY - drag.y;
+            dragged = true;
+            applyView();
+        }
+    });
+    window.addEventListener('mouseup', () => {
+        drag = null;
+        svg.classList.remove('dragging');
+    });
+
+    vscode.postMessage({ type: 'ready' });
+})();
+</script>
+</body>
+</html>`;
+    }
+
+    dispose(): void {
+        CfgPanel.current = undefined;
+        this.panel.dispose();
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+        this.disposables.length = 0;
+    }
+}
+
+function createNonce(): string {
+    const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let nonce = '';
+    for (let i = 0; i < 32; i++) {
+        nonce += characters.charAt(Math.floor(Math.random() * characters.length));
+    }
+    return nonce;
+}
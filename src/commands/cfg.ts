@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { IRFunction } from '../ir';
+import { getFunctionAtPosition, parseDocument } from '../llvmIrParser';
+import { buildCfgGraph, cfgGraphToDot } from '../analysis/cfgGraph';
+
+/**
+ * The function definition at the cursor, or one picked by the user when the
+ * cursor is outside of any
+ */
+export async function pickFunction(editor: vscode.TextEditor): Promise<IRFunction | undefined> {
+    const parsed = parseDocument(editor.document);
+    const definitions = parsed.module.functions.filter(func => !func.isDeclaration);
+    if (definitions.length === 0) {
+        vscode.window.showInformationMessage('There are no function definitions in this file.');
+        return undefined;
+    }
+
+    const name = getFunctionAtPosition(parsed, editor.selection.active);
+    const atCursor = definitions.find(func => func.name === name);
+    if (atCursor) {
+        return atCursor;
+    }
+    if (definitions.length === 1) {
+        return definitions[0];
+    }
+    const picked = await vscode.window.showQuickPick(
+        definitions.map(func => ({
+            label: func.name,
+            description: `${func.blocks.length} block${func.blocks.length === 1 ? '' : 's'}`,
+            func,
+        })),
+        { placeHolder: 'Choose a function' }
+    );
+    return picked?.func;
+}
+
+/**
+ * Save the control-flow graph of a function as a Graphviz .dot file
+ */
+export async function exportCfgDot(document: vscode.TextDocument, func: IRFunction): Promise<void> {
+    const baseName = `${path.basename(document.uri.fsPath, path.extname(document.uri.fsPath))}.${func.name.substring(1)}.dot`;
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.joinPath(document.uri, '..', baseName.replace(/[\\/:*?"<>|]/g, '_')),
+        filters: { 'Graphviz DOT': ['dot', 'gv'] },
+    });
+    if (!uri) {
+        return;
+    }
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(cfgGraphToDot(buildCfgGraph(func)), 'utf8'));
+    vscode.window.showInformationMessage(`Saved the CFG of ${func.name} to ${path.basename(uri.fsPath)}.`);
+}
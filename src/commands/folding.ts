@@ -0,0 +1,38 @@
+import * as vscode from 'vscode';
+import { parseDocument } from '../llvmIrParser';
+import { findModuleSections } from '../providers/foldingRangeProvider';
+
+/**
+ * Fold the metadata sections of the module, which hold the debug info
+ */
+export async function foldDebugMetadata(editor: vscode.TextEditor): Promise<void> {
+    const lines = findModuleSections(parseDocument(editor.document).module)
+        .filter(section => section.kind === 'metadata' && section.endLine > section.startLine)
+        .map(section => section.startLine);
+    if (lines.length === 0) {
+        vscode.window.showInformationMessage('There is no metadata to fold.');
+        return;
+    }
+    await vscode.commands.executeCommand('editor.fold', { levels: 1, direction: 'up', selectionLines: lines });
+}
+
+/**
+ * Fold every function definition except the one containing the cursor
+ */
+export async function foldOtherFunctions(editor: vscode.TextEditor): Promise<void> {
+    const cursor = editor.selection.active;
+    const functions = parseDocument(editor.document).module.functions
+        .filter(func => !func.isDeclaration && func.range.end.line > func.range.start.line);
+    const current = functions.find(func => func.range.contains(cursor));
+    const lines = functions.filter(func => func !== current).map(func => func.range.start.line);
+    if (current) {
+        await vscode.commands.executeCommand('editor.unfold', {
+            levels: 1,
+            direction: 'up',
+            selectionLines: [current.range.start.line],
+        });
+    }
+    if (lines.length > 0) {
+        await vscode.commands.executeCommand('editor.fold', { levels: 1, direction: 'up', selectionLines: lines });
+    }
+}
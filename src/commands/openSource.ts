@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { IRMetadataAttachment, IRMetadataValue } from '../ir';
+import { parseDocument } from '../llvmIrParser';
+import { SourceLocation, createMetadataMap, resolveMetadata, sourceLocation } from '../analysis/debugInfo';
+
+/**
+ * The source location of the IR on a line: the `!dbg` attachment of the
+ * instruction there, the DISubprogram of a function header, or the metadata
+ * node defined on the line
+ */
+export function findSourceLocation(document: vscode.TextDocument, position: vscode.Position): SourceLocation | undefined {
+    const module = parseDocument(document).module;
+    const metadata = createMetadataMap(module);
+    const line = position.line;
+    const locate = (value?: IRMetadataValue) => {
+        const node = resolveMetadata(value, metadata);
+        return node ? sourceLocation(node, metadata) : undefined;
+    };
+
+    for (const func of module.functions) {
+        if (line < func.range.start.line || line > func.range.end.line) {
+            continue;
+        }
+        for (const block of func.blocks) {
+            const inst = block.instructions.find(i => i.range.start.line <= line && line <= i.range.end.line);
+            if (inst) {
+                return locate(debugAttachment(inst.attachments));
+            }
+        }
+        return locate(debugAttachment(func.attachments));
+    }
+
+    const md = module.metadata.find(m => m.range.start.line <= line && line <= m.range.end.line);
+    return md ? locate(md.node) : undefined;
+}
+
+/**
+ * Open the source file of a location beside the IR, at its line and column
+ */
+export async function openSourceLocation(location: SourceLocation): Promise<void> {
+    const uri = await findSourceFile(location);
+    if (!uri) {
+        vscode.window.showWarningMessage(
+            `Cannot find '${location.filename}' in the workspace or the configured llvm-ir.sourceRoots.`
+        );
+        return;
+    }
+
+    const position = new vscode.Position(Math.max(location.line - 1, 0), Math.max(location.column - 1, 0));
+    await vscode.window.showTextDocument(uri, {
+        viewColumn: vscode.ViewColumn.Beside,
+        selection: new vscode.Range(position, position),
+        preview: true,
+    });
+}
+
+/**
+ * Look for the file of a location: at its recorded path, under each source
+ * root and workspace folder, and finally anywhere in the workspace by name
+ */
+export async function findSourceFile(location: SourceLocation): Promise<vscode.Uri | undefined> {
+    const { filename, directory } = location;
+    const candidates: string[] = [];
+    if (path.isAbsolute(filename)) {
+        candidates.push(filename);
+    } else if (directory) {
+        candidates.push(path.join(directory, filename));
+    }
+    for (const root of sourceRoots()) {
+        if (!path.isAbsolute(filename)) {
+            candidates.push(path.join(root, filename));
+        }
+        candidates.push(path.join(root, path.basename(filename)));
+    }
+
+    for (const candidate of candidates) {
+        const uri = vscode.Uri.file(candidate);
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return uri;
+        } catch {
+            // Try the next candidate
+        }
+    }
+
+    // The IR may have been compiled on another machine; match on the trailing path
+    const matches = await vscode.workspace.findFiles(`**/${path.basename(filename)}`, '**/node_modules/**', 20);
+    const suffix = path.normalize(filename).replace(/^(\.\.?[/\\])+/, '');
+    return matches.find(uri => uri.fsPath.endsWith(suffix)) ?? (matches.length === 1 ? matches[0] : undefined);
+}
+
+/**
+ * Does a location refer to the file at `fsPath`?
+ */
+export function isSameSourceFile(location: SourceLocation, fsPath: string): boolean {
+    const { filename, directory } = location;
+    const full = path.isAbsolute(filename) || !directory ? filename : path.join(directory, filename);
+    const normalized = path.normalize(fsPath);
+    return normalized === path.normalize(full) || normalized.endsWith(path.sep + path.normalize(filename));
+}
+
+/**
+ * The configured source roots, resolved against the first workspace folder,
+ * followed by the workspace folders themselves
+ */
+function sourceRoots(): string[] {
+    const folders = (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+    const configured = vscode.workspace.getConfiguration('llvm-ir').get<string[]>('sourceRoots', []);
+    const base = folders[0] ?? '';
+    const roots = configured.map(root => {
+        const expanded = root.replace(/\$\{workspaceFolder\}/g, base);
+        return path.isAbsolute(expanded) ? expanded : path.join(base, expanded);
+    });
+    return [...roots, ...folders];
+}
+
+function debugAttachment(attachments: IRMetadataAttachment[]): IRMetadataValue | undefined {
+    return attachments.find(attachment => attachment.kind === '!dbg')?.value;
+}
@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import { previousSnapshotText, snapshotTitle, splitFunctions } from '../ir';
+import { getPassDumpSnapshots } from '../llvmIrParser';
+import { PassDumpTreeNode } from '../providers/passDumpTreeProvider';
+
+// Scheme of the read-only documents holding the two sides of a snapshot diff
+export const PASS_DUMP_SCHEME = 'llvm-ir-pass-dump';
+
+/**
+ * Open a diff of a snapshot against the previous version of the same IR:
+ * the snapshot of the view item, or the one at the cursor
+ */
+export async function compareWithPreviousSnapshot(node?: PassDumpTreeNode): Promise<void> {
+    let document: vscode.TextDocument | undefined;
+    let index: number | undefined;
+    if (node) {
+        document = await vscode.workspace.openTextDocument(node.uri);
+        index = node.index;
+    } else {
+        const editor = vscode.window.activeTextEditor;
+        const line = editor?.selection.active.line ?? -1;
+        document = editor?.document;
+        index = document && getPassDumpSnapshots(document)
+            ?.findIndex(snapshot => line >= snapshot.headerLine && line < snapshot.endLine);
+    }
+
+    const snapshots = document && getPassDumpSnapshots(document);
+    const snapshot = index !== undefined ? snapshots?.[index] : undefined;
+    if (!document || !snapshot || snapshot.previous === undefined) {
+        vscode.window.showInformationMessage('Place the cursor in a snapshot of a pass dump that has an earlier version to compare with.');
+        return;
+    }
+
+    const previous = snapshots![snapshot.previous];
+    await vscode.commands.executeCommand(
+        'vscode.diff',
+        snapshotUri(document.uri, index!, 'previous', snapshot.target),
+        snapshotUri(document.uri, index!, 'current', snapshot.target),
+        `${snapshot.target}: ${snapshotTitle(previous)} ↔ ${snapshotTitle(snapshot)}`
+    );
+}
+
+/**
+ * The text of one side of a snapshot diff, taken from the open pass dump
+ */
+export function providePassDumpContent(uri: vscode.Uri): string {
+    const [, index, side] = uri.path.split('/');
+    const source = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.query);
+    const snapshots = source && getPassDumpSnapshots(source);
+    const snapshot = snapshots?.[parseInt(index, 10)];
+    if (!source || !snapshot) {
+        return '';
+    }
+
+    const text = source.getText();
+    if (side === 'previous') {
+        return previousSnapshotText(text, snapshots!, parseInt(index, 10)) ?? '';
+    }
+    const body = text.substring(snapshot.startOffset, snapshot.endOffset);
+    if (snapshot.scope === 'module' && snapshots![snapshot.previous!]?.scope === 'module') {
+        return body;
+    }
+    // The previous side holds only the functions, without comments around them
+    return [...splitFunctions(body).values()].join('\n\n') + '\n';
+}
+
+function snapshotUri(source: vscode.Uri, index: number, side: string, target: string): vscode.Uri {
+    const name = target.replace(/[^\w.-]+/g, '_') || 'snapshot';
+    return vscode.Uri.from({ scheme: PASS_DUMP_SCHEME, path: `/${index}/${side}/${name}.ll`, query: source.toString() });
+}
@@ -0,0 +1,239 @@
+import * as vscode from 'vscode';
+import { IRMetadataDefinition } from '../ir';
+import { parseDocument, SymbolKind, SymbolReference } from '../llvmIrParser';
+
+/**
+ * Edits that make the unnamed values of every function, and the unnamed
+ * globals of the module, sequential again. References are rewritten along
+ * with the definitions.
+ */
+export function renumberValues(document: vscode.TextDocument): vscode.TextEdit[] {
+    const parsed = parseDocument(document);
+    const module = parsed.module;
+    const edits: vscode.TextEdit[] = [];
+
+    // Unnamed global variables and functions share one sequence, in source order
+    const globalNumbers = new Numbering();
+    const globals = [...module.globals, ...module.functions]
+        .sort((a, b) => a.nameRange.start.compareTo(b.nameRange.start));
+    for (const global of globals) {
+        const old = numberOf(global.name, '@');
+        if (old !== undefined) {
+            globalNumbers.assign(old, global.nameRange, '@', edits);
+        }
+    }
+
+    // Within a function, parameters, blocks and instruction results share one sequence
+    const functionNumbers = new Map<string, Numbering>();
+    for (const func of module.functions) {
+        if (func.isDeclaration) {
+            continue;
+        }
+        const numbers = new Numbering();
+        functionNumbers.set(func.name, numbers);
+
+        for (const param of func.params) {
+            const old = param.name ? numberOf(param.name.name, '%') : undefined;
+            if (param.implicitName) {
+                numbers.skip(numberOf(param.implicitName, '%'));
+            } else if (old !== undefined) {
+                numbers.assign(old, param.name!.range, '%', edits);
+            }
+        }
+
+        for (const block of func.blocks) {
+            const label = block.label ? numberOf(block.label.name, '') : undefined;
+            if (!block.label) {
+                numbers.skip(numberOf(block.name, ''));
+            } else if (label !== undefined) {
+                numbers.assign(label, block.label.range, '', edits);
+            }
+
+            for (const inst of block.instructions) {
+                const old = inst.result ? numberOf(inst.result.name, '%') : undefined;
+                if (old !== undefined) {
+                    numbers.assign(old, inst.result!.range, '%', edits);
+                } else if (inst.implicitName) {
+                    numbers.skip(numberOf(inst.implicitName, '%'));
+                }
+            }
+        }
+    }
+
+    for (const ref of parsed.references) {
+        if (ref.kind === SymbolKind.GlobalValue) {
+            globalNumbers.rewrite(ref, '@', edits);
+        } else if (ref.kind === SymbolKind.LocalValue && ref.functionName) {
+            functionNumbers.get(ref.functionName)?.rewrite(ref, '%', edits);
+        } else if (ref.kind === SymbolKind.Label && ref.functionName) {
+            // Label references are recorded without the '%'
+            functionNumbers.get(ref.functionName)?.rewrite(ref, '', edits);
+        }
+    }
+
+    return edits;
+}
+
+/**
+ * Edits that compact the numbering of metadata nodes and attribute groups.
+ * With `removeUnused`, nodes that cannot be reached from the IR or from named
+ * metadata and attribute groups that no function uses are deleted.
+ */
+export function renumberMetadata(document: vscode.TextDocument, removeUnused: boolean): vscode.TextEdit[] {
+    const parsed = parseDocument(document);
+    const module = parsed.module;
+    const edits: vscode.TextEdit[] = [];
+
+    const metadataRefs = parsed.references.filter(ref => ref.kind === SymbolKind.Metadata);
+    const groupRefs = parsed.references.filter(ref => ref.kind === SymbolKind.AttributeGroup);
+
+    // Delete whole lines
+    const remove = (range: vscode.Range) => {
+        edits.push(vscode.TextEdit.delete(new vscode.Range(
+            new vscode.Position(range.start.line, 0),
+            document.lineAt(range.end.line).rangeIncludingLineBreak.end
+        )));
+    };
+
+    // Metadata
+    const reachable = removeUnused
+        ? reachableMetadata(module.metadata, metadataRefs)
+        : new Set(module.metadata.map(md => md.name));
+    const metadataNumbers = new Numbering();
+    for (const md of module.metadata) {
+        const old = md.isNamed ? undefined : numberOf(md.name, '!');
+        if (old === undefined) {
+            continue;
+        }
+        if (reachable.has(md.name)) {
+            metadataNumbers.assign(old, md.nameRange, '!', edits);
+        } else {
+            remove(md.range);
+        }
+    }
+
+    // Attribute groups
+    const usedGroups = new Set(groupRefs.map(ref => ref.name));
+    const groupNumbers = new Numbering();
+    for (const group of module.attributeGroups) {
+        const old = numberOf(group.name, '#');
+        if (old === undefined) {
+            continue;
+        }
+        if (!removeUnused || usedGroups.has(group.name)) {
+            groupNumbers.assign(old, group.nameRange, '#', edits);
+        } else {
+            remove(group.range);
+        }
+    }
+
+    // References inside deleted nodes go away with them
+    const numbered = module.metadata.filter(md => !md.isNamed);
+    for (const ref of metadataRefs) {
+        const owner = findContaining(numbered, ref.range.start);
+        if (!owner || reachable.has(owner.name)) {
+            metadataNumbers.rewrite(ref, '!', edits);
+        }
+    }
+    for (const ref of groupRefs) {
+        groupNumbers.rewrite(ref, '#', edits);
+    }
+
+    return edits;
+}
+
+/**
+ * Maps old numbers to a new, gapless sequence in definition order
+ */
+class Numbering {
+    private readonly numbers = new Map<number, number>();
+    private next = 0;
+
+    /**
+     * Give the definition at `range` the next number
+     */
+    assign(old: number, range: vscode.Range, prefix: string, edits: vscode.TextEdit[]): void {
+        if (!this.numbers.has(old)) {
+            this.numbers.set(old, this.next);
+        }
+        if (old !== this.next) {
+            edits.push(vscode.TextEdit.replace(range, `${prefix}${this.next}`));
+        }
+        this.next++;
+    }
+
+    /**
+     * An implicitly numbered value takes the next number. Nothing is written
+     * to change, but the uses of its old number are rewritten.
+     */
+    skip(old: number | undefined): void {
+        if (old !== undefined && !this.numbers.has(old)) {
+            this.numbers.set(old, this.next);
+        }
+        this.next++;
+    }
+
+    rewrite(ref: SymbolReference, prefix: string, edits: vscode.TextEdit[]): void {
+        const old = numberOf(ref.name, prefix);
+        const renumbered = old !== undefined ? this.numbers.get(old) : undefined;
+        if (renumbered !== undefined && renumbered !== old) {
+            edits.push(vscode.TextEdit.replace(ref.range, `${prefix}${renumbered}`));
+        }
+    }
+}
+
+function numberOf(name: string, prefix: string): number | undefined {
+    const digits = name.substring(prefix.length);
+    return name.startsWith(prefix) && /^[0-9]+$/.test(digits) ? parseInt(digits, 10) : undefined;
+}
+
+/**
+ * Names of the metadata nodes reachable from uses outside of numbered metadata
+ * definitions: instructions, globals, functions and named metadata
+ */
+function reachableMetadata(definitions: IRMetadataDefinition[], refs: SymbolReference[]): Set<string> {
+    const numbered = definitions.filter(md => !md.isNamed);
+    const edges = new Map<string, string[]>();
+    const worklist: string[] = [];
+
+    for (const ref of refs) {
+        const owner = findContaining(numbered, ref.range.start);
+        if (owner) {
+            const targets = edges.get(owner.name) ?? [];
+            targets.push(ref.name);
+            edges.set(owner.name, targets);
+        } else {
+            worklist.push(ref.name);
+        }
+    }
+
+    const reachable = new Set<string>();
+    while (worklist.length > 0) {
+        const name = worklist.pop()!;
+        if (!reachable.has(name)) {
+            reachable.add(name);
+            worklist.push(...(edges.get(name) ?? []));
+        }
+    }
+    return reachable;
+}
+
+/**
+ * Binary search for the definition containing a position; definitions are in source order
+ */
+function findContaining(definitions: IRMetadataDefinition[], position: vscode.Position): IRMetadataDefinition | undefined {
+    let low = 0;
+    let high = definitions.length - 1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        const range = definitions[mid].range;
+        if (position.isBefore(range.start)) {
+            high = mid - 1;
+        } else if (position.isAfter(range.end)) {
+            low = mid + 1;
+        } else {
+            return definitions[mid];
+        }
+    }
+    return undefined;
+}
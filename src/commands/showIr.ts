@@ -0,0 +1,215 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { parseDocument } from '../llvmIrParser';
+import { buildLineTable } from '../analysis/lineTable';
+import { isSameSourceFile } from './openSource';
+
+// Source file URI to the URI of the .ll file chosen for it
+const ASSOCIATIONS_KEY = 'llvm-ir.sourceAssociations';
+
+// Files larger than this are not searched for source file names
+const MAX_SEARCHED_FILE_SIZE = 64 * 1024 * 1024;
+
+// The most likely .ll files read when looking for the ones that mention a
+// source file; an LLVM checkout has tens of thousands of test files
+const MAX_SEARCHED_FILES = 500;
+
+// The most .ll files offered to choose from
+const MAX_LISTED_FILES = 10000;
+
+/**
+ * The .ll files of the workspace and those among them that mention a source file
+ */
+interface IrFileSearch {
+    files: vscode.Uri[];
+    matching: vscode.Uri[];
+}
+
+/**
+ * Peek the instructions of the associated .ll file whose `!dbg` location is
+ * the line of the cursor in a source editor
+ */
+export async function showIrForSourceLine(editor: vscode.TextEditor, state: vscode.Memento): Promise<void> {
+    const sourceUri = editor.document.uri;
+    const irUri = await findIrFile(sourceUri, state);
+    if (!irUri) {
+        return;
+    }
+
+    const irDocument = await vscode.workspace.openTextDocument(irUri);
+    const position = editor.selection.active;
+    const line = position.line + 1;
+    const locations = buildLineTable(parseDocument(irDocument).module)
+        .filter(entry => entry.source.line === line && isSameSourceFile(entry.source, sourceUri.fsPath))
+        .map(entry => new vscode.Location(irUri, entry.range));
+
+    if (locations.length === 0) {
+        vscode.window.showInformationMessage(
+            `No instructions in ${path.basename(irUri.fsPath)} have a debug location on line ${line}.`
+        );
+        return;
+    }
+    await vscode.commands.executeCommand('editor.action.peekLocations', sourceUri, position, locations, 'peek');
+}
+
+/**
+ * Let the user pick the .ll file for a source file, listing the files that
+ * mention it first, and remember the choice
+ */
+export async function chooseIrFile(sourceUri: vscode.Uri, state: vscode.Memento): Promise<vscode.Uri | undefined> {
+    const search = await searchIrFiles(sourceUri);
+    return search && pickIrFile(sourceUri, state, search.matching, search.files);
+}
+
+/**
+ * The remembered .ll file of a source file, or the only one that mentions it.
+ * Asks the user when there is no match or more than one.
+ */
+async function findIrFile(sourceUri: vscode.Uri, state: vscode.Memento): Promise<vscode.Uri | undefined> {
+    const associations = state.get<Record<string, string>>(ASSOCIATIONS_KEY, {});
+    const remembered = associations[sourceUri.toString()];
+    if (remembered) {
+        const uri = vscode.Uri.parse(remembered);
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return uri;
+        } catch {
+            // The file is gone; find another one
+        }
+    }
+
+    const search = await searchIrFiles(sourceUri);
+    if (!search) {
+        return undefined;
+    }
+    if (search.matching.length === 1) {
+        await remember(state, sourceUri, search.matching[0]);
+        return search.matching[0];
+    }
+    return pickIrFile(sourceUri, state, search.matching, search.files);
+}
+
+/**
+ * List the .ll files and search the likeliest ones for the source file,
+ * with progress. Resolves to undefined when cancelled.
+ */
+function searchIrFiles(sourceUri: vscode.Uri): Thenable<IrFileSearch | undefined> {
+    return vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Looking for the LLVM IR of ${path.basename(sourceUri.fsPath)}`,
+        cancellable: true,
+    }, async (progress, token) => {
+        const files = await vscode.workspace.findFiles('**/*.ll', '**/node_modules/**', MAX_LISTED_FILES, token);
+        const candidates = rankCandidates(sourceUri, files).slice(0, MAX_SEARCHED_FILES);
+        const matching = await matchingIrFiles(sourceUri, candidates, progress, token);
+        return token.isCancellationRequested ? undefined : { files, matching };
+    });
+}
+
+/**
+ * Files in the order they are searched: open documents, then files named
+ * after the source file such as foo.ll or foo.O2.ll for foo.c, each ordered
+ * by how much of their directory they share with the source file
+ */
+function rankCandidates(sourceUri: vscode.Uri, files: vscode.Uri[]): vscode.Uri[] {
+    const stem = path.basename(sourceUri.fsPath, path.extname(sourceUri.fsPath));
+    const sourceDirectory = path.dirname(sourceUri.fsPath).split(path.sep);
+    const open = new Set(vscode.workspace.textDocuments.map(document => document.uri.toString()));
+    const score = (uri: vscode.Uri) => {
+        const name = path.basename(uri.fsPath);
+        const directory = path.dirname(uri.fsPath).split(path.sep);
+        let shared = 0;
+        while (shared < directory.length && directory[shared] === sourceDirectory[shared]) {
+            shared++;
+        }
+        const named = name.startsWith(`${stem}.`);
+        return (open.has(uri.toString()) ? 2000 : 0) + (named ? 1000 : 0) + shared;
+    };
+    const scores = new Map(files.map(uri => [uri, score(uri)]));
+    return [...files].sort((a, b) => scores.get(b)! - scores.get(a)!);
+}
+
+async function pickIrFile(
+    sourceUri: vscode.Uri,
+    state: vscode.Memento,
+    matching: vscode.Uri[],
+    files: vscode.Uri[]
+): Promise<vscode.Uri | undefined> {
+    if (files.length === 0) {
+        vscode.window.showInformationMessage('There are no .ll files in the workspace.');
+        return undefined;
+    }
+
+    const matched = new Set(matching.map(uri => uri.toString()));
+    const items = [...matching, ...files.filter(uri => !matched.has(uri.toString()))].map(uri => ({
+        label: path.basename(uri.fsPath),
+        description: vscode.workspace.asRelativePath(uri),
+        detail: matched.has(uri.toString()) ? 'Has debug info for this file' : undefined,
+        uri,
+    }));
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: `Choose the LLVM IR file compiled from ${path.basename(sourceUri.fsPath)}`,
+    });
+    if (picked) {
+        await remember(state, sourceUri, picked.uri);
+    }
+    return picked?.uri;
+}
+
+async function remember(state: vscode.Memento, sourceUri: vscode.Uri, irUri: vscode.Uri): Promise<void> {
+    const associations = state.get<Record<string, string>>(ASSOCIATIONS_KEY, {});
+    await state.update(ASSOCIATIONS_KEY, { ...associations, [sourceUri.toString()]: irUri.toString() });
+}
+
+/**
+ * The .ll files whose source_filename or a DIFile names the source file.
+ * Open documents are searched in their current state, others on disk.
+ */
+async function matchingIrFiles(
+    sourceUri: vscode.Uri,
+    files: vscode.Uri[],
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+): Promise<vscode.Uri[]> {
+    const name = path.basename(sourceUri.fsPath);
+    const openDocuments = new Map(vscode.workspace.textDocuments.map(document => [document.uri.toString(), document]));
+    const matches: vscode.Uri[] = [];
+
+    for (const uri of files) {
+        if (token.isCancellationRequested) {
+            break;
+        }
+        progress.report({ message: vscode.workspace.asRelativePath(uri), increment: 100 / files.length });
+        let text = openDocuments.get(uri.toString())?.getText();
+        if (text === undefined) {
+            try {
+                const stat = await vscode.workspace.fs.stat(uri);
+                if (stat.size > MAX_SEARCHED_FILE_SIZE) {
+                    continue;
+                }
+                text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            } catch {
+                continue;
+            }
+        }
+        if (text.includes(name) && mentionsSourceFile(text, sourceUri.fsPath)) {
+            matches.push(uri);
+        }
+    }
+    return matches;
+}
+
+function mentionsSourceFile(text: string, fsPath: string): boolean {
+    const sourceFilename = text.match(/^source_filename\s*=\s*"([^"]*)"/m);
+    if (sourceFilename && isSameSourceFile({ filename: sourceFilename[1], line: 0, column: 0 }, fsPath)) {
+        return true;
+    }
+    for (const file of text.matchAll(/!DIFile\(([^)]*)\)/g)) {
+        const filename = file[1].match(/filename:\s*"([^"]*)"/)?.[1];
+        const directory = file[1].match(/directory:\s*"([^"]*)"/)?.[1];
+        if (filename && isSameSourceFile({ filename, directory, line: 0, column: 0 }, fsPath)) {
+            return true;
+        }
+    }
+    return false;
+}
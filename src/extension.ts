@@ -1,20 +1,67 @@
 import * as vscode from 'vscode';
 import { LLVMIRDefinitionProvider } from './providers/definitionProvider';
+import { LLVMIRFileCheckDefinitionProvider } from './providers/fileCheckDefinitionProvider';
 import { LLVMIRReferenceProvider } from './providers/referenceProvider';
 import { LLVMIRDocumentSymbolProvider } from './providers/documentSymbolProvider';
 import { LLVMIRHoverProvider } from './providers/hoverProvider';
-import { clearCache, clearAllCache } from './llvmIrParser';
+import { LLVMIRDiagnosticsProvider } from './providers/diagnosticsProvider';
+import { LLVMIRInlayHintsProvider } from './providers/inlayHintsProvider';
+import { LLVMIRRenameProvider } from './providers/renameProvider';
+import { LLVMIRWorkspaceSymbolProvider } from './providers/workspaceSymbolProvider';
+import { LLVMIRCompletionProvider } from './providers/completionProvider';
+import { LLVMIRSignatureHelpProvider } from './providers/signatureHelpProvider';
+import { LLVMIRMetadataTreeProvider } from './providers/metadataTreeProvider';
+import { LLVMIRPassDumpTreeProvider } from './providers/passDumpTreeProvider';
+import { renumberMetadata, renumberValues } from './commands/renumber';
+import { findSourceLocation, openSourceLocation } from './commands/openSource';
+import { chooseIrFile, showIrForSourceLine } from './commands/showIr';
+import { exportCfgDot, pickFunction } from './commands/cfg';
+import { foldDebugMetadata, foldOtherFunctions } from './commands/folding';
+import { compareWithPreviousSnapshot, PASS_DUMP_SCHEME, providePassDumpContent } from './commands/passDump';
+import { LLVMIRCodeLensProvider } from './providers/codeLensProvider';
+import { LLVMIRLitCodeLensProvider } from './providers/litCodeLensProvider';
+import { LLVMIRCallHierarchyProvider } from './providers/callHierarchyProvider';
+import { LLVMIRFoldingRangeProvider } from './providers/foldingRangeProvider';
+import { LLVMIRDocumentHighlightProvider } from './providers/documentHighlightProvider';
+import { LLVMIRSemanticTokensProvider, SEMANTIC_TOKENS_LEGEND } from './providers/semanticTokensProvider';
+import { LLVMIRFormattingProvider } from './providers/formattingProvider';
+import { clearCache, clearAllCache, getSymbolAtPosition, SymbolKind } from './llvmIrParser';
+import { WorkspaceIndex } from './workspaceIndex';
+import { SourceLineDecorator } from './sourceLineDecorator';
+import { CfgPanel } from './cfgPanel';
+import { OptRunner } from './optRunner';
+import { AssemblyVerifier } from './assemblyVerifier';
+import { LitRunner } from './litRunner';
+import { SourceLocation } from './analysis/debugInfo';
 
 const LLVM_IR_LANGUAGE_ID = 'llvm-ir';
 
+// Milliseconds after the last change before a document is checked again
+const UPDATE_DELAY = 300;
+
 export function activate(context: vscode.ExtensionContext) {
     console.log('LLVM IR extension activated');
 
+    // Index the module-level symbols of every .ll file in the workspace
+    const workspaceIndex = new WorkspaceIndex();
+    context.subscriptions.push(workspaceIndex);
+    if (vscode.workspace.getConfiguration('llvm-ir').get<boolean>('workspaceIndex.enabled', true)) {
+        workspaceIndex.start();
+    }
+
     // Register the definition provider
     context.subscriptions.push(
         vscode.languages.registerDefinitionProvider(
             { language: LLVM_IR_LANGUAGE_ID },
-            new LLVMIRDefinitionProvider()
+            new LLVMIRDefinitionProvider(workspaceIndex)
+        )
+    );
+
+    // Register the definition provider for FileCheck variables in check lines
+    context.subscriptions.push(
+        vscode.languages.registerDefinitionProvider(
+            { language: LLVM_IR_LANGUAGE_ID },
+            new LLVMIRFileCheckDefinitionProvider()
         )
     );
 
@@ -22,7 +69,7 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.languages.registerReferenceProvider(
             { language: LLVM_IR_LANGUAGE_ID },
-            new LLVMIRReferenceProvider()
+            new LLVMIRReferenceProvider(workspaceIndex)
         )
     );
 
@@ -34,6 +81,23 @@ export function activate(context: vscode.ExtensionContext) {
         )
     );
 
+    // Register the document highlight provider
+    context.subscriptions.push(
+        vscode.languages.registerDocumentHighlightProvider(
+            { language: LLVM_IR_LANGUAGE_ID },
+            new LLVMIRDocumentHighlightProvider()
+        )
+    );
+
+    // Register the semantic tokens provider
+    context.subscriptions.push(
+        vscode.languages.registerDocumentSemanticTokensProvider(
+            { language: LLVM_IR_LANGUAGE_ID },
+            new LLVMIRSemanticTokensProvider(),
+            SEMANTIC_TOKENS_LEGEND
+        )
+    );
+
     // Register the hover provider
     context.subscriptions.push(
         vscode.languages.registerHoverProvider(
@@ -42,19 +106,322 @@ export function activate(context: vscode.ExtensionContext) {
         )
     );
 
-    // Clear cache when documents are changed or closed
+    // Register the rename provider
+    context.subscriptions.push(
+        vscode.languages.registerRenameProvider(
+            { language: LLVM_IR_LANGUAGE_ID },
+            new LLVMIRRenameProvider()
+        )
+    );
+
+    // Register the workspace symbol provider
+    context.subscriptions.push(
+        vscode.languages.registerWorkspaceSymbolProvider(
+            new LLVMIRWorkspaceSymbolProvider(workspaceIndex)
+        )
+    );
+
+    // Register the call hierarchy provider
+    context.subscriptions.push(
+        vscode.languages.registerCallHierarchyProvider(
+            { language: LLVM_IR_LANGUAGE_ID },
+            new LLVMIRCallHierarchyProvider(workspaceIndex)
+        )
+    );
+
+    // Register the inlay hints provider
+    const inlayHintsProvider = new LLVMIRInlayHintsProvider();
+    context.subscriptions.push(
+        inlayHintsProvider,
+        vscode.languages.registerInlayHintsProvider(
+            { language: LLVM_IR_LANGUAGE_ID },
+            inlayHintsProvider
+        )
+    );
+
+    // Register the completion provider
+    context.subscriptions.push(
+        vscode.languages.registerCompletionItemProvider(
+            { language: LLVM_IR_LANGUAGE_ID },
+            new LLVMIRCompletionProvider(),
+            '%', '@', '!'
+        )
+    );
+
+    // Register the signature help provider
+    context.subscriptions.push(
+        vscode.languages.registerSignatureHelpProvider(
+            { language: LLVM_IR_LANGUAGE_ID },
+            new LLVMIRSignatureHelpProvider(),
+            { triggerCharacters: ['('], retriggerCharacters: [','] }
+        )
+    );
+
+    // Register the folding range provider and the folding commands
+    context.subscriptions.push(
+        vscode.languages.registerFoldingRangeProvider(
+            { language: LLVM_IR_LANGUAGE_ID },
+            new LLVMIRFoldingRangeProvider()
+        ),
+        vscode.commands.registerTextEditorCommand('llvm-ir.foldDebugMetadata', (editor) => {
+            return foldDebugMetadata(editor);
+        }),
+        vscode.commands.registerTextEditorCommand('llvm-ir.foldOtherFunctions', (editor) => {
+            return foldOtherFunctions(editor);
+        })
+    );
+
+    // Register the formatter for whole documents and selections
+    const formattingProvider = new LLVMIRFormattingProvider();
+    context.subscriptions.push(
+        vscode.languages.registerDocumentFormattingEditProvider({ language: LLVM_IR_LANGUAGE_ID }, formattingProvider),
+        vscode.languages.registerDocumentRangeFormattingEditProvider({ language: LLVM_IR_LANGUAGE_ID }, formattingProvider)
+    );
+
+    // Register the renumbering commands
+    context.subscriptions.push(
+        vscode.commands.registerTextEditorCommand('llvm-ir.renumberValues', (editor, edit) => {
+            for (const textEdit of renumberValues(editor.document)) {
+                edit.replace(textEdit.range, textEdit.newText);
+            }
+        }),
+        vscode.commands.registerTextEditorCommand('llvm-ir.renumberMetadata', (editor, edit) => {
+            const config = vscode.workspace.getConfiguration('llvm-ir', editor.document.uri);
+            const removeUnused = config.get<boolean>('renumber.removeUnused', false);
+            for (const textEdit of renumberMetadata(editor.document, removeUnused)) {
+                edit.replace(textEdit.range, textEdit.newText);
+            }
+        })
+    );
+
+    // Register the metadata tree view, which follows the active editor
+    const metadataTreeProvider = new LLVMIRMetadataTreeProvider();
+    const metadataTreeView = vscode.window.createTreeView('llvm-ir.metadata', {
+        treeDataProvider: metadataTreeProvider,
+        showCollapseAll: true,
+    });
+    // A hidden view is brought up to date when it is shown
+    let metadataTreeStale = true;
+    const updateMetadataTree = (document: vscode.TextDocument | undefined) => {
+        metadataTreeStale = !metadataTreeView.visible;
+        if (!metadataTreeStale) {
+            metadataTreeProvider.setDocument(document);
+        }
+    };
+    updateMetadataTree(vscode.window.activeTextEditor?.document);
+    context.subscriptions.push(
+        metadataTreeProvider,
+        metadataTreeView,
+        vscode.window.onDidChangeActiveTextEditor((editor) => {
+            updateMetadataTree(editor?.document);
+        }),
+        metadataTreeView.onDidChangeVisibility((event) => {
+            if (event.visible && metadataTreeStale) {
+                updateMetadataTree(vscode.window.activeTextEditor?.document);
+            }
+        }),
+        vscode.commands.registerTextEditorCommand('llvm-ir.revealMetadata', (editor) => {
+            if (metadataTreeStale) {
+                metadataTreeProvider.setDocument(editor.document);
+                metadataTreeStale = false;
+            }
+            const symbol = getSymbolAtPosition(editor.document, editor.selection.active);
+            const node = symbol?.kind === SymbolKind.Metadata ? metadataTreeProvider.findRoot(symbol.name) : undefined;
+            if (!node) {
+                vscode.window.showInformationMessage('Place the cursor on a metadata reference such as !42.');
+                return;
+            }
+            metadataTreeView.reveal(node, { select: true, focus: true, expand: true });
+        })
+    );
+
+    // Register the pass dump view, which follows the active editor, and the snapshot diffs
+    const passDumpTreeProvider = new LLVMIRPassDumpTreeProvider();
+    passDumpTreeProvider.setDocument(vscode.window.activeTextEditor?.document);
+    context.subscriptions.push(
+        passDumpTreeProvider,
+        vscode.window.registerTreeDataProvider('llvm-ir.passDump', passDumpTreeProvider),
+        vscode.window.onDidChangeActiveTextEditor((editor) => {
+            passDumpTreeProvider.setDocument(editor?.document);
+        }),
+        vscode.workspace.registerTextDocumentContentProvider(PASS_DUMP_SCHEME, {
+            provideTextDocumentContent: providePassDumpContent,
+        }),
+        vscode.commands.registerCommand('llvm-ir.comparePassSnapshot', compareWithPreviousSnapshot)
+    );
+
+    // Register navigation from IR to the original source via !dbg locations
+    const sourceLineDecorator = new SourceLineDecorator();
+    sourceLineDecorator.setEnabled(
+        vscode.workspace.getConfiguration('llvm-ir').get<boolean>('sourceDecorations.enabled', false)
+    );
+    context.subscriptions.push(
+        sourceLineDecorator,
+        vscode.commands.registerCommand('llvm-ir.openSourceLocation', (location?: SourceLocation) => {
+            const editor = vscode.window.activeTextEditor;
+            if (!location && editor?.document.languageId === LLVM_IR_LANGUAGE_ID) {
+                location = findSourceLocation(editor.document, editor.selection.active);
+            }
+            if (!location) {
+                vscode.window.showInformationMessage('No !dbg source location on this line.');
+                return;
+            }
+            return openSourceLocation(location);
+        }),
+        vscode.languages.registerCodeLensProvider(
+            { language: LLVM_IR_LANGUAGE_ID },
+            new LLVMIRCodeLensProvider()
+        ),
+        vscode.window.onDidChangeVisibleTextEditors(() => sourceLineDecorator.update())
+    );
+
+    // Register the reverse navigation from a source line to its IR
+    context.subscriptions.push(
+        vscode.commands.registerTextEditorCommand('llvm-ir.showIrForLine', (editor) => {
+            return showIrForSourceLine(editor, context.workspaceState);
+        }),
+        vscode.commands.registerTextEditorCommand('llvm-ir.chooseIrFile', (editor) => {
+            return chooseIrFile(editor.document.uri, context.workspaceState);
+        })
+    );
+
+    // Register the control-flow graph commands
+    context.subscriptions.push(
+        vscode.commands.registerTextEditorCommand('llvm-ir.showCfg', async (editor) => {
+            const func = await pickFunction(editor);
+            if (func) {
+                CfgPanel.show(editor.document, func.name);
+            }
+        }),
+        vscode.commands.registerTextEditorCommand('llvm-ir.exportCfgDot', async (editor) => {
+            const func = await pickFunction(editor);
+            if (func) {
+                await exportCfgDot(editor.document, func);
+            }
+        })
+    );
+
+    // Register the command that runs a local opt and diffs its output
+    const optRunner = new OptRunner(context.workspaceState);
+    context.subscriptions.push(
+        optRunner,
+        vscode.commands.registerTextEditorCommand('llvm-ir.runOpt', (editor) => {
+            return optRunner.run(editor);
+        })
+    );
+
+    // Register the checks by llvm-as or the opt verifier, on save and on demand
+    const assemblyVerifier = new AssemblyVerifier();
+    context.subscriptions.push(
+        assemblyVerifier,
+        vscode.commands.registerTextEditorCommand('llvm-ir.verify', (editor) => {
+            return assemblyVerifier.verify(editor.document, true);
+        })
+    );
+
+    // Register the command and lenses that run a lit test and show its result
+    const litRunner = new LitRunner();
+    context.subscriptions.push(
+        litRunner,
+        vscode.commands.registerCommand('llvm-ir.runLitTest', async (uri?: vscode.Uri) => {
+            const document = uri
+                ? await vscode.workspace.openTextDocument(uri)
+                : vscode.window.activeTextEditor?.document;
+            if (document?.languageId !== LLVM_IR_LANGUAGE_ID) {
+                vscode.window.showInformationMessage('Open an LLVM IR test with RUN lines to run it with lit.');
+                return;
+            }
+            return litRunner.run(document);
+        }),
+        vscode.commands.registerCommand('llvm-ir.showLitOutput', () => litRunner.showOutput()),
+        vscode.languages.registerCodeLensProvider(
+            { language: LLVM_IR_LANGUAGE_ID },
+            new LLVMIRLitCodeLensProvider(litRunner)
+        )
+    );
+
+    // Create the diagnostics provider and check already open documents
+    const diagnosticsProvider = new LLVMIRDiagnosticsProvider();
+    context.subscriptions.push(diagnosticsProvider);
+    for (const document of vscode.workspace.textDocuments) {
+        if (document.languageId === LLVM_IR_LANGUAGE_ID) {
+            diagnosticsProvider.updateDiagnostics(document);
+        }
+    }
+
+    context.subscriptions.push(
+        vscode.workspace.onDidOpenTextDocument((document) => {
+            if (document.languageId === LLVM_IR_LANGUAGE_ID) {
+                diagnosticsProvider.updateDiagnostics(document);
+                workspaceIndex.updateDocument(document);
+                sourceLineDecorator.update();
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration('llvm-ir.diagnostics')) {
+                for (const document of vscode.workspace.textDocuments) {
+                    if (document.languageId === LLVM_IR_LANGUAGE_ID) {
+                        diagnosticsProvider.updateDiagnostics(document);
+                    }
+                }
+            }
+            if (event.affectsConfiguration('llvm-ir.sourceDecorations')) {
+                sourceLineDecorator.setEnabled(
+                    vscode.workspace.getConfiguration('llvm-ir').get<boolean>('sourceDecorations.enabled', false)
+                );
+            }
+            if (event.affectsConfiguration('llvm-ir.inlayHints')) {
+                inlayHintsProvider.refresh();
+            }
+            if (event.affectsConfiguration('llvm-ir.workspaceIndex')) {
+                if (vscode.workspace.getConfiguration('llvm-ir').get<boolean>('workspaceIndex.enabled', true)) {
+                    workspaceIndex.start();
+                } else {
+                    workspaceIndex.stop();
+                }
+            }
+        })
+    );
+
+    // Clear cache when documents are changed or closed. Reparsing and
+    // checking a large module takes a while, so that waits for a pause in typing.
+    const pendingUpdates = new Map<string, NodeJS.Timeout>();
     context.subscriptions.push(
+        { dispose: () => pendingUpdates.forEach(timer => clearTimeout(timer)) },
         vscode.workspace.onDidChangeTextDocument((event) => {
-            if (event.document.languageId === LLVM_IR_LANGUAGE_ID) {
-                clearCache(event.document.uri);
+            if (event.document.languageId !== LLVM_IR_LANGUAGE_ID) {
+                return;
             }
+            const document = event.document;
+            const key = document.uri.toString();
+            clearCache(document.uri);
+            clearTimeout(pendingUpdates.get(key));
+            pendingUpdates.set(key, setTimeout(() => {
+                pendingUpdates.delete(key);
+                diagnosticsProvider.updateDiagnostics(document);
+                workspaceIndex.updateDocument(document);
+                if (metadataTreeView.visible) {
+                    metadataTreeProvider.refresh(document);
+                } else {
+                    metadataTreeStale = true;
+                }
+                passDumpTreeProvider.refresh(document);
+            }, UPDATE_DELAY));
         })
     );
 
     context.subscriptions.push(
         vscode.workspace.onDidCloseTextDocument((document) => {
             if (document.languageId === LLVM_IR_LANGUAGE_ID) {
+                clearTimeout(pendingUpdates.get(document.uri.toString()));
+                pendingUpdates.delete(document.uri.toString());
                 clearCache(document.uri);
+                diagnosticsProvider.clearDiagnostics(document.uri);
+                workspaceIndex.closeDocument(document);
+                sourceLineDecorator.update();
             }
         })
     );
@@ -0,0 +1,319 @@
+import * as vscode from 'vscode';
+import { Comment, Token } from './lexer';
+import { IRType } from './types';
+
+/**
+ * A name as written in the source, e.g. '%x', '@main', '!0', '#1' or a label
+ */
+export interface IRIdentifier {
+    name: string;
+    range: vscode.Range;
+}
+
+/**
+ * Kinds of operand values
+ */
+export enum ValueKind {
+    Local,          // %x (including labels used as operands)
+    Global,         // @g
+    Constant,       // 42, 1.0, true, null, undef, poison, zeroinitializer, c"..."
+    ConstantExpr,   // getelementptr (...), bitcast (... to ...)
+    Aggregate,      // { ... }, [ ... ], < ... >
+    Metadata,       // metadata operands of calls and debug records
+    InlineAsm,      // asm sideeffect "...", "..."
+    BlockAddress,   // blockaddress(@f, %bb)
+}
+
+/**
+ * A value appearing as an operand
+ */
+export interface IRValue {
+    kind: ValueKind;
+    text: string;
+    range: vscode.Range;
+    // For local and global references
+    name?: string;
+    // For constant expressions, the opcode
+    opcode?: string;
+    // Nested operands of constant expressions, aggregates and blockaddress
+    operands?: IROperand[];
+    // Parsed metadata for metadata operands
+    metadata?: IRMetadataValue;
+}
+
+/**
+ * A (usually typed) operand, e.g. `i32 noundef %x`
+ */
+export interface IROperand {
+    type?: IRType;
+    value: IRValue;
+    attributes: string[];
+    range: vscode.Range;
+}
+
+/**
+ * A `!kind !node` metadata attachment
+ */
+export interface IRMetadataAttachment {
+    kind: string;
+    kindRange: vscode.Range;
+    value: IRMetadataValue;
+}
+
+/**
+ * An incoming [value, block] pair of a phi
+ */
+export interface IRPhiIncoming {
+    value: IRValue;
+    block: IRValue;
+}
+
+/**
+ * A `<ty> <val>, label %dest` entry of a switch
+ */
+export interface IRSwitchCase {
+    value: IROperand;
+    dest: IRValue;
+}
+
+/**
+ * Call-specific information for call, invoke and callbr
+ */
+export interface IRCallInfo {
+    callee: IRValue;
+    // The written result type, or the full function type for varargs calls
+    calleeType: IRType;
+    args: IROperand[];
+    callingConv?: string;
+    returnAttributes: string[];
+    functionAttributes: string[];
+}
+
+/**
+ * A single instruction inside a basic block
+ */
+export interface IRInstruction {
+    opcode: string;
+    result?: IRIdentifier;
+    // The implicit '%N' name of an unnamed instruction with a result
+    implicitName?: string;
+    // The primary written type: the operand type of binary ops and compares,
+    // the loaded/stored/allocated type, the source element type of a GEP,
+    // the return type of a call, the destination type of a cast
+    type?: IRType;
+    // All value operands in source order, including labels and call arguments
+    operands: IROperand[];
+    // Keyword flags such as nsw, inbounds, fast, volatile, tail
+    flags: string[];
+    // icmp/fcmp predicate, atomic orderings and similar single keywords
+    predicate?: string;
+    call?: IRCallInfo;
+    incoming?: IRPhiIncoming[];
+    cases?: IRSwitchCase[];
+    // Constant indices of extractvalue/insertvalue
+    indices?: number[];
+    attachments: IRMetadataAttachment[];
+    range: vscode.Range;
+    text: string;
+}
+
+/**
+ * A basic block. The entry block may have no written label.
+ */
+export interface IRBasicBlock {
+    // The label as written, or the implicit number for an unlabelled entry block
+    name: string;
+    label?: IRIdentifier;
+    instructions: IRInstruction[];
+    range: vscode.Range;
+}
+
+/**
+ * A function parameter
+ */
+export interface IRParameter {
+    type: IRType;
+    name?: IRIdentifier;
+    // The implicit '%N' name of an unnamed parameter
+    implicitName?: string;
+    attributes: string[];
+    range: vscode.Range;
+}
+
+/**
+ * A function definition or declaration
+ */
+export interface IRFunction {
+    name: string;
+    nameRange: vscode.Range;
+    isDeclaration: boolean;
+    // Keywords before the return type: linkage, visibility, calling convention, return attributes
+    keywords: string[];
+    returnType: IRType;
+    params: IRParameter[];
+    varArgs: boolean;
+    // Attributes and clauses after the parameter list, including '#N' group references
+    attributes: string[];
+    attachments: IRMetadataAttachment[];
+    // Values referenced from the header, e.g. personality or prefix data
+    headerOperands: IROperand[];
+    blocks: IRBasicBlock[];
+    // The header from 'define'/'declare' up to the body
+    headerRange: vscode.Range;
+    headerText: string;
+    range: vscode.Range;
+}
+
+/**
+ * A global variable, alias or ifunc
+ */
+export interface IRGlobal {
+    name: string;
+    nameRange: vscode.Range;
+    kind: 'variable' | 'alias' | 'ifunc';
+    isConstant: boolean;
+    keywords: string[];
+    valueType: IRType;
+    // Initializer of a variable, or the aliasee/resolver
+    initializer?: IROperand;
+    attributes: string[];
+    attachments: IRMetadataAttachment[];
+    range: vscode.Range;
+    text: string;
+}
+
+/**
+ * A named type definition: %T = type { ... }
+ */
+export interface IRTypeDefinition {
+    name: string;
+    nameRange: vscode.Range;
+    type: IRType;
+    range: vscode.Range;
+    text: string;
+}
+
+/**
+ * Kinds of metadata values
+ */
+export enum MetadataKind {
+    Reference,     // !0, !foo
+    String,        // !"text"
+    Tuple,         // !{...}
+    Specialized,   // !DILocation(...)
+    Value,         // a typed value such as i32 1 or ptr @g
+    Literal,       // null, 42, "text", DW_TAG_member, DIFlagA | DIFlagB
+}
+
+/**
+ * A `name: value` field of a specialized metadata node
+ */
+export interface IRMetadataField {
+    key: string;
+    keyRange: vscode.Range;
+    value: IRMetadataValue;
+}
+
+/**
+ * A metadata value or node
+ */
+export interface IRMetadataValue {
+    kind: MetadataKind;
+    text: string;
+    range: vscode.Range;
+    // For references
+    name?: string;
+    // For specialized nodes, e.g. 'DILocation'
+    nodeName?: string;
+    // Tuple elements and positional operands of specialized nodes
+    elements?: IRMetadataValue[];
+    fields?: IRMetadataField[];
+    distinct?: boolean;
+    // For typed values
+    operand?: IROperand;
+}
+
+/**
+ * A metadata definition: !0 = !{...} or !name = !{...}
+ */
+export interface IRMetadataDefinition {
+    name: string;
+    nameRange: vscode.Range;
+    // Named metadata such as !llvm.module.flags
+    isNamed: boolean;
+    node: IRMetadataValue;
+    range: vscode.Range;
+    text: string;
+}
+
+/**
+ * An attribute group: attributes #0 = { ... }
+ */
+export interface IRAttributeGroup {
+    name: string;
+    nameRange: vscode.Range;
+    attributes: string[];
+    range: vscode.Range;
+    text: string;
+}
+
+/**
+ * A comdat definition: $name = comdat any
+ */
+export interface IRComdat {
+    name: string;
+    nameRange: vscode.Range;
+    selectionKind: string;
+    range: vscode.Range;
+    text: string;
+}
+
+/**
+ * What a referenced identifier denotes
+ */
+export enum ReferenceRole {
+    Value,
+    Type,
+    Label,
+    Metadata,
+    AttributeGroup,
+    Comdat,
+}
+
+/**
+ * A use of an identifier, recorded while parsing
+ */
+export interface IRReference {
+    name: string;
+    role: ReferenceRole;
+    range: vscode.Range;
+    // The function whose locals/labels the name refers to
+    functionName?: string;
+}
+
+/**
+ * A recoverable syntax error
+ */
+export interface IRParseError {
+    message: string;
+    range: vscode.Range;
+}
+
+/**
+ * A whole parsed module
+ */
+export interface IRModule {
+    sourceFilename?: string;
+    targetTriple?: string;
+    dataLayout?: string;
+    types: IRTypeDefinition[];
+    globals: IRGlobal[];
+    functions: IRFunction[];
+    metadata: IRMetadataDefinition[];
+    attributeGroups: IRAttributeGroup[];
+    comdats: IRComdat[];
+    references: IRReference[];
+    errors: IRParseError[];
+    tokens: Token[];
+    comments: Comment[];
+}
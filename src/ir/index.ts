@@ -0,0 +1,8 @@
+export * from './lexer';
+export * from './types';
+export * from './ast';
+export * from './parser';
+export * from './keywords';
+export * from './intrinsics';
+export * from './langref';
+export * from './passDump';
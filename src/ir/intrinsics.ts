@@ -0,0 +1,368 @@
+/**
+ * Signatures of common LLVM intrinsics, for calls to intrinsics that the
+ * module has not declared yet.
+ *
+ * Overloaded types are written `$N` for the Nth type of the mangled name
+ * suffix (`llvm.memcpy.p0.p0.i64` has the suffix types ptr, ptr, i64) and
+ * `$N.elt` for the element type of a vector overload.
+ */
+interface IntrinsicEntry {
+    returns: string;
+    params: string[];
+    varArgs?: boolean;
+    description: string;
+}
+
+/**
+ * An intrinsic signature with the overloaded types of a particular name filled in
+ */
+export interface IntrinsicSignature {
+    name: string;
+    returnType: string;
+    params: string[];
+    varArgs: boolean;
+    description: string;
+}
+
+const unary = (description: string): IntrinsicEntry => ({ returns: '$0', params: ['$0 %x'], description });
+const binary = (description: string): IntrinsicEntry => ({ returns: '$0', params: ['$0 %a', '$0 %b'], description });
+const withOverflow = (description: string): IntrinsicEntry => ({
+    returns: '{ $0, i1 }',
+    params: ['$0 %a', '$0 %b'],
+    description,
+});
+const reduction = (description: string): IntrinsicEntry => ({ returns: '$0.elt', params: ['$0 %vec'], description });
+const orderedReduction = (description: string): IntrinsicEntry => ({
+    returns: '$0.elt',
+    params: ['$0.elt %start', '$0 %vec'],
+    description,
+});
+
+const INTRINSICS: Record<string, IntrinsicEntry> = {
+    // Memory
+    'llvm.memcpy': {
+        returns: 'void',
+        params: ['$0 %dest', '$1 %src', '$2 %len', 'i1 immarg %isvolatile'],
+        description: 'Copies a block of memory; the regions must not overlap.',
+    },
+    'llvm.memcpy.inline': {
+        returns: 'void',
+        params: ['$0 %dest', '$1 %src', '$2 immarg %len', 'i1 immarg %isvolatile'],
+        description: 'Copies a block of memory without ever calling an external function.',
+    },
+    'llvm.memmove': {
+        returns: 'void',
+        params: ['$0 %dest', '$1 %src', '$2 %len', 'i1 immarg %isvolatile'],
+        description: 'Copies a block of memory; the regions may overlap.',
+    },
+    'llvm.memset': {
+        returns: 'void',
+        params: ['$0 %dest', 'i8 %val', '$1 %len', 'i1 immarg %isvolatile'],
+        description: 'Fills a block of memory with a byte value.',
+    },
+    'llvm.lifetime.start': {
+        returns: 'void',
+        params: ['i64 immarg %size', '$0 %ptr'],
+        description: 'Marks the start of the lifetime of a stack object.',
+    },
+    'llvm.lifetime.end': {
+        returns: 'void',
+        params: ['i64 immarg %size', '$0 %ptr'],
+        description: 'Marks the end of the lifetime of a stack object.',
+    },
+    'llvm.stacksave': { returns: '$0', params: [], description: 'Saves the current state of the stack.' },
+    'llvm.stackrestore': {
+        returns: 'void',
+        params: ['$0 %ptr'],
+        description: 'Restores the stack to a state saved by llvm.stacksave.',
+    },
+    'llvm.prefetch': {
+        returns: 'void',
+        params: ['$0 %address', 'i32 immarg %rw', 'i32 immarg %locality', 'i32 immarg %cache_type'],
+        description: 'Hints that the memory at the address will be accessed soon.',
+    },
+    'llvm.objectsize': {
+        returns: '$0',
+        params: ['$1 %ptr', 'i1 immarg %min', 'i1 immarg %nullunknown', 'i1 immarg %dynamic'],
+        description: 'Returns the size of the object the pointer points into.',
+    },
+    'llvm.masked.load': {
+        returns: '$0',
+        params: ['$1 %ptr', 'i32 immarg %alignment', '<N x i1> %mask', '$0 %passthru'],
+        description: 'Loads the vector lanes selected by the mask.',
+    },
+    'llvm.masked.store': {
+        returns: 'void',
+        params: ['$0 %value', '$1 %ptr', 'i32 immarg %alignment', '<N x i1> %mask'],
+        description: 'Stores the vector lanes selected by the mask.',
+    },
+
+    // Variable arguments
+    'llvm.va_start': { returns: 'void', params: ['$0 %arglist'], description: 'Initializes a va_list.' },
+    'llvm.va_end': { returns: 'void', params: ['$0 %arglist'], description: 'Destroys a va_list.' },
+    'llvm.va_copy': {
+        returns: 'void',
+        params: ['$0 %destarglist', '$0 %srcarglist'],
+        description: 'Copies a va_list.',
+    },
+
+    // Integer arithmetic
+    'llvm.sadd.with.overflow': withOverflow('Signed addition with an overflow bit.'),
+    'llvm.uadd.with.overflow': withOverflow('Unsigned addition with an overflow bit.'),
+    'llvm.ssub.with.overflow': withOverflow('Signed subtraction with an overflow bit.'),
+    'llvm.usub.with.overflow': withOverflow('Unsigned subtraction with an overflow bit.'),
+    'llvm.smul.with.overflow': withOverflow('Signed multiplication with an overflow bit.'),
+    'llvm.umul.with.overflow': withOverflow('Unsigned multiplication with an overflow bit.'),
+    'llvm.sadd.sat': binary('Signed saturating addition.'),
+    'llvm.uadd.sat': binary('Unsigned saturating addition.'),
+    'llvm.ssub.sat': binary('Signed saturating subtraction.'),
+    'llvm.usub.sat': binary('Unsigned saturating subtraction.'),
+    'llvm.smax': binary('Signed maximum.'),
+    'llvm.smin': binary('Signed minimum.'),
+    'llvm.umax': binary('Unsigned maximum.'),
+    'llvm.umin': binary('Unsigned minimum.'),
+    'llvm.abs': {
+        returns: '$0',
+        params: ['$0 %x', 'i1 immarg %is_int_min_poison'],
+        description: 'Absolute value of an integer.',
+    },
+    'llvm.ctpop': unary('Counts the set bits.'),
+    'llvm.ctlz': {
+        returns: '$0',
+        params: ['$0 %x', 'i1 immarg %is_zero_poison'],
+        description: 'Counts the leading zero bits.',
+    },
+    'llvm.cttz': {
+        returns: '$0',
+        params: ['$0 %x', 'i1 immarg %is_zero_poison'],
+        description: 'Counts the trailing zero bits.',
+    },
+    'llvm.bswap': unary('Swaps the bytes of an integer.'),
+    'llvm.bitreverse': unary('Reverses the bits of an integer.'),
+    'llvm.fshl': {
+        returns: '$0',
+        params: ['$0 %a', '$0 %b', '$0 %c'],
+        description: 'Funnel shift left: the high half of (a:b) << (c % bitwidth).',
+    },
+    'llvm.fshr': {
+        returns: '$0',
+        params: ['$0 %a', '$0 %b', '$0 %c'],
+        description: 'Funnel shift right: the low half of (a:b) >> (c % bitwidth).',
+    },
+
+    // Floating point
+    'llvm.sqrt': unary('Square root.'),
+    'llvm.fabs': unary('Absolute value.'),
+    'llvm.floor': unary('Rounds down to an integral value.'),
+    'llvm.ceil': unary('Rounds up to an integral value.'),
+    'llvm.trunc': unary('Rounds towards zero to an integral value.'),
+    'llvm.round': unary('Rounds to the nearest integral value, halfway cases away from zero.'),
+    'llvm.roundeven': unary('Rounds to the nearest integral value, halfway cases to even.'),
+    'llvm.rint': unary('Rounds using the current rounding mode; may raise an inexact exception.'),
+    'llvm.nearbyint': unary('Rounds using the current rounding mode.'),
+    'llvm.exp': unary('Base-e exponential.'),
+    'llvm.exp2': unary('Base-2 exponential.'),
+    'llvm.log': unary('Natural logarithm.'),
+    'llvm.log2': unary('Base-2 logarithm.'),
+    'llvm.log10': unary('Base-10 logarithm.'),
+    'llvm.sin': unary('Sine.'),
+    'llvm.cos': unary('Cosine.'),
+    'llvm.pow': binary('Raises the first operand to the power of the second.'),
+    'llvm.powi': {
+        returns: '$0',
+        params: ['$0 %x', '$1 %power'],
+        description: 'Raises a value to an integer power.',
+    },
+    'llvm.copysign': binary('The magnitude of the first operand with the sign of the second.'),
+    'llvm.minnum': binary('IEEE-754 minNum: returns the other operand if one is NaN.'),
+    'llvm.maxnum': binary('IEEE-754 maxNum: returns the other operand if one is NaN.'),
+    'llvm.minimum': binary('IEEE-754 minimum: NaN if either operand is NaN.'),
+    'llvm.maximum': binary('IEEE-754 maximum: NaN if either operand is NaN.'),
+    'llvm.fma': {
+        returns: '$0',
+        params: ['$0 %a', '$0 %b', '$0 %c'],
+        description: 'Fused multiply-add: a * b + c with a single rounding.',
+    },
+    'llvm.fmuladd': {
+        returns: '$0',
+        params: ['$0 %a', '$0 %b', '$0 %c'],
+        description: 'a * b + c, fused if that is faster on the target.',
+    },
+    'llvm.is.fpclass': {
+        returns: 'i1',
+        params: ['$0 %x', 'i32 immarg %test'],
+        description: 'Tests whether a value belongs to the floating point classes in the mask.',
+    },
+
+    // Vector reductions
+    'llvm.vector.reduce.add': reduction('Integer addition of all elements.'),
+    'llvm.vector.reduce.mul': reduction('Integer multiplication of all elements.'),
+    'llvm.vector.reduce.and': reduction('Bitwise and of all elements.'),
+    'llvm.vector.reduce.or': reduction('Bitwise or of all elements.'),
+    'llvm.vector.reduce.xor': reduction('Bitwise xor of all elements.'),
+    'llvm.vector.reduce.smax': reduction('Signed maximum of all elements.'),
+    'llvm.vector.reduce.smin': reduction('Signed minimum of all elements.'),
+    'llvm.vector.reduce.umax': reduction('Unsigned maximum of all elements.'),
+    'llvm.vector.reduce.umin': reduction('Unsigned minimum of all elements.'),
+    'llvm.vector.reduce.fadd': orderedReduction('Floating point addition of all elements, starting from %start.'),
+    'llvm.vector.reduce.fmul': orderedReduction('Floating point multiplication of all elements, starting from %start.'),
+    'llvm.vector.reduce.fmax': reduction('Floating point maximum (maxnum) of all elements.'),
+    'llvm.vector.reduce.fmin': reduction('Floating point minimum (minnum) of all elements.'),
+
+    // Optimizer hints and debugging
+    'llvm.assume': { returns: 'void', params: ['i1 %cond'], description: 'Lets the optimizer assume the condition holds.' },
+    'llvm.expect': {
+        returns: '$0',
+        params: ['$0 %val', '$0 %expected_val'],
+        description: 'Returns %val and hints that it is usually equal to %expected_val.',
+    },
+    'llvm.is.constant': {
+        returns: 'i1',
+        params: ['$0 %x'],
+        description: 'True if the operand is known to be a constant at compile time.',
+    },
+    'llvm.trap': { returns: 'void', params: [], description: 'Aborts the program.' },
+    'llvm.debugtrap': { returns: 'void', params: [], description: 'Stops in the debugger.' },
+    'llvm.ubsantrap': {
+        returns: 'void',
+        params: ['i8 immarg %kind'],
+        description: 'Aborts the program because of an undefined behavior check.',
+    },
+    'llvm.dbg.declare': {
+        returns: 'void',
+        params: ['metadata %address', 'metadata %variable', 'metadata %expression'],
+        description: 'Describes the address of a source variable.',
+    },
+    'llvm.dbg.value': {
+        returns: 'void',
+        params: ['metadata %value', 'metadata %variable', 'metadata %expression'],
+        description: 'Describes the value of a source variable.',
+    },
+    'llvm.dbg.assign': {
+        returns: 'void',
+        params: [
+            'metadata %value', 'metadata %variable', 'metadata %expression',
+            'metadata %id', 'metadata %address', 'metadata %address_expression',
+        ],
+        description: 'Describes an assignment to a source variable.',
+    },
+    'llvm.donothing': { returns: 'void', params: [], description: 'Does nothing.' },
+    'llvm.experimental.guard': {
+        returns: 'void',
+        params: ['i1 %cond'],
+        varArgs: true,
+        description: 'Deoptimizes through the attached "deopt" operand bundle if the condition is false.',
+    },
+    'llvm.experimental.deoptimize': {
+        returns: '$0',
+        params: [],
+        varArgs: true,
+        description: 'Transfers control to the deoptimization continuation described by the "deopt" operand bundle.',
+    },
+    'llvm.experimental.widenable.condition': {
+        returns: 'i1',
+        params: [],
+        description: 'Returns true, but the optimizer may replace it with false to widen guards.',
+    },
+    'llvm.experimental.noalias.scope.decl': {
+        returns: 'void',
+        params: ['metadata %scope'],
+        description: 'Declares where a noalias scope starts, e.g. after inlining a function with noalias arguments.',
+    },
+    'llvm.experimental.constrained.fadd': {
+        returns: '$0',
+        params: ['$0 %a', '$0 %b', 'metadata %rounding', 'metadata %exception'],
+        description: 'Floating point addition that respects the dynamic rounding mode and exception behavior.',
+    },
+    'llvm.experimental.constrained.fsub': {
+        returns: '$0',
+        params: ['$0 %a', '$0 %b', 'metadata %rounding', 'metadata %exception'],
+        description: 'Floating point subtraction that respects the dynamic rounding mode and exception behavior.',
+    },
+    'llvm.experimental.constrained.fmul': {
+        returns: '$0',
+        params: ['$0 %a', '$0 %b', 'metadata %rounding', 'metadata %exception'],
+        description: 'Floating point multiplication that respects the dynamic rounding mode and exception behavior.',
+    },
+    'llvm.experimental.constrained.fdiv': {
+        returns: '$0',
+        params: ['$0 %a', '$0 %b', 'metadata %rounding', 'metadata %exception'],
+        description: 'Floating point division that respects the dynamic rounding mode and exception behavior.',
+    },
+    'llvm.experimental.stackmap': {
+        returns: 'void',
+        params: ['i64 %id', 'i32 %numShadowBytes'],
+        varArgs: true,
+        description: 'Records the location of live values at this point.',
+    },
+};
+
+/**
+ * Find the signature of an intrinsic by its (possibly mangled) name, with or without '@'
+ */
+export function lookupIntrinsic(name: string): IntrinsicSignature | undefined {
+    const bare = name.startsWith('@') ? name.substring(1) : name;
+    const parts = bare.split('.');
+
+    // The longest prefix in the table is the intrinsic, the rest is the overload suffix
+    for (let length = parts.length; length > 1; length--) {
+        const entry = INTRINSICS[parts.slice(0, length).join('.')];
+        if (!entry) {
+            continue;
+        }
+        const suffix = parts.slice(length);
+        const substitute = (text: string) => text.replace(/\$([0-9]+)(\.elt)?/g, (_match, index: string, elt?: string) => {
+            const type = suffix[parseInt(index, 10)];
+            const demangled = type !== undefined ? demangleType(type) : undefined;
+            if (!demangled) {
+                return `T${index}`;
+            }
+            return elt ? demangled.element : demangled.type;
+        });
+        return {
+            name: `@${bare}`,
+            returnType: substitute(entry.returns),
+            params: entry.params.map(substitute),
+            varArgs: entry.varArgs ?? false,
+            description: entry.description,
+        };
+    }
+    return undefined;
+}
+
+/**
+ * Turn a type from a mangled intrinsic name back into IR syntax, e.g. 'v4i32' into '<4 x i32>'
+ */
+function demangleType(mangled: string): { type: string; element: string } | undefined {
+    const vector = mangled.match(/^(nx)?v([0-9]+)(.+)$/);
+    if (vector) {
+        const element = demangleType(vector[3]);
+        if (!element) {
+            return undefined;
+        }
+        const scalable = vector[1] ? 'vscale x ' : '';
+        return { type: `<${scalable}${vector[2]} x ${element.type}>`, element: element.type };
+    }
+
+    const pointer = mangled.match(/^p([0-9]+)$/);
+    if (pointer) {
+        const type = pointer[1] === '0' ? 'ptr' : `ptr addrspace(${pointer[1]})`;
+        return { type, element: type };
+    }
+
+    if (/^i[0-9]+$/.test(mangled)) {
+        return { type: mangled, element: mangled };
+    }
+
+    const floatTypes: Record<string, string> = {
+        f16: 'half',
+        bf16: 'bfloat',
+        f32: 'float',
+        f64: 'double',
+        f80: 'x86_fp80',
+        f128: 'fp128',
+        ppcf128: 'ppc_fp128',
+    };
+    const type = floatTypes[mangled];
+    return type ? { type, element: type } : undefined;
+}
@@ -0,0 +1,103 @@
+/**
+ * Keyword tables for editor features that need to suggest or recognize IR syntax
+ */
+
+export const FIRST_CLASS_TYPES = [
+    'i1', 'i8', 'i16', 'i32', 'i64', 'i128',
+    'half', 'bfloat', 'float', 'double', 'fp128', 'x86_fp80', 'ppc_fp128',
+    'ptr', 'void', 'label', 'metadata', 'token',
+];
+
+export const LINKAGE_TYPES = [
+    'private', 'internal', 'available_externally', 'linkonce', 'weak', 'common',
+    'appending', 'extern_weak', 'linkonce_odr', 'weak_odr', 'external',
+];
+
+export const VISIBILITY_STYLES = ['default', 'hidden', 'protected'];
+
+export const DLL_STORAGE_CLASSES = ['dllimport', 'dllexport'];
+
+export const GLOBAL_KEYWORDS = [
+    'dso_local', 'dso_preemptable', 'unnamed_addr', 'local_unnamed_addr', 'thread_local',
+    'externally_initialized', 'global', 'constant', 'alias', 'ifunc',
+];
+
+export const TOP_LEVEL_KEYWORDS = [
+    'define', 'declare', 'attributes', 'source_filename', 'target datalayout', 'target triple',
+    'module asm',
+];
+
+// Flags that may follow each opcode
+export const OPCODE_FLAGS: Record<string, string[]> = {
+    add: ['nuw', 'nsw'],
+    sub: ['nuw', 'nsw'],
+    mul: ['nuw', 'nsw'],
+    shl: ['nuw', 'nsw'],
+    udiv: ['exact'],
+    sdiv: ['exact'],
+    lshr: ['exact'],
+    ashr: ['exact'],
+    or: ['disjoint'],
+    trunc: ['nuw', 'nsw'],
+    zext: ['nneg'],
+    uitofp: ['nneg'],
+    icmp: ['samesign'],
+    getelementptr: ['inbounds', 'nuw', 'nusw', 'inrange'],
+    load: ['volatile', 'atomic'],
+    store: ['volatile', 'atomic'],
+    alloca: ['inalloca'],
+    cmpxchg: ['weak', 'volatile'],
+    atomicrmw: ['volatile'],
+};
+
+// Opcodes whose floating point forms take fast-math flags
+export const FAST_MATH_OPCODES = ['fadd', 'fsub', 'fmul', 'fdiv', 'frem', 'fneg', 'fcmp', 'call', 'phi', 'select'];
+
+export const ICMP_PREDICATES = ['eq', 'ne', 'ugt', 'uge', 'ult', 'ule', 'sgt', 'sge', 'slt', 'sle'];
+
+export const FCMP_PREDICATES = [
+    'false', 'oeq', 'ogt', 'oge', 'olt', 'ole', 'one', 'ord',
+    'ueq', 'ugt', 'uge', 'ult', 'ule', 'une', 'uno', 'true',
+];
+
+export const ATOMICRMW_OPERATIONS = [
+    'xchg', 'add', 'sub', 'and', 'nand', 'or', 'xor', 'max', 'min', 'umax', 'umin',
+    'fadd', 'fsub', 'fmax', 'fmin', 'uinc_wrap', 'udec_wrap',
+];
+
+export const ATOMIC_ORDERINGS = ['unordered', 'monotonic', 'acquire', 'release', 'acq_rel', 'seq_cst'];
+
+// Prefixes of a call instruction
+export const CALL_MARKERS = ['tail', 'musttail', 'notail'];
+
+export const METADATA_KINDS = [
+    'dbg', 'tbaa', 'tbaa.struct', 'prof', 'fpmath', 'range', 'nonnull', 'noundef', 'align',
+    'invariant.load', 'invariant.group', 'alias.scope', 'noalias', 'nontemporal', 'unpredictable',
+    'dereferenceable', 'dereferenceable_or_null', 'make.implicit', 'llvm.loop', 'llvm.access.group',
+    'mem.parallel_loop_access', 'callees', 'irr_loop', 'annotation', 'heapallocsite',
+    'kcfi_type', 'pcsections', 'DIAssignID', 'mmra', 'noalias.addrspace', 'absolute_symbol',
+    'associated', 'type', 'section_prefix',
+];
+
+export const SPECIALIZED_METADATA_NODES = [
+    'DICompileUnit', 'DIFile', 'DISubprogram', 'DILocation', 'DILocalVariable', 'DIGlobalVariable',
+    'DIGlobalVariableExpression', 'DIExpression', 'DIBasicType', 'DIDerivedType', 'DICompositeType',
+    'DISubroutineType', 'DISubrange', 'DIEnumerator', 'DILexicalBlock', 'DILexicalBlockFile',
+    'DINamespace', 'DIModule', 'DITemplateTypeParameter', 'DITemplateValueParameter', 'DILabel',
+    'DIImportedEntity', 'DIMacro', 'DIMacroFile', 'DICommonBlock', 'DIStringType', 'DIArgList',
+    'DIAssignID', 'DIObjCProperty', 'DIGenericSubrange',
+];
+
+export const FUNCTION_ATTRIBUTES = [
+    'alwaysinline', 'builtin', 'cold', 'convergent', 'disable_sanitizer_instrumentation', 'hot',
+    'inlinehint', 'jumptable', 'minsize', 'mustprogress', 'naked', 'nobuiltin', 'nocallback',
+    'nocf_check', 'noduplicate', 'nofree', 'noimplicitfloat', 'noinline', 'nomerge', 'nonlazybind',
+    'noprofile', 'norecurse', 'noredzone', 'noreturn', 'nosync', 'nounwind', 'null_pointer_is_valid',
+    'optforfuzzing', 'optnone', 'optsize', 'presplitcoroutine', 'returns_twice', 'safestack',
+    'sanitize_address', 'sanitize_hwaddress', 'sanitize_memory', 'sanitize_memtag', 'sanitize_thread',
+    'shadowcallstack', 'speculatable', 'speculative_load_hardening', 'ssp', 'sspreq', 'sspstrong',
+    'strictfp', 'uwtable', 'willreturn', 'memory(none)', 'memory(read)', 'memory(write)',
+    'memory(argmem: readwrite)', 'allockind("alloc")', 'allocsize(0)', 'vscale_range(1,16)',
+    '"frame-pointer"="all"', '"no-trapping-math"="true"', '"stack-protector-buffer-size"="8"',
+    '"target-cpu"=""', '"target-features"=""', '"tune-cpu"=""',
+];
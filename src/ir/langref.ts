@@ -0,0 +1,512 @@
+/**
+ * Offline documentation for IR keywords, summarized from the LLVM Language Reference
+ */
+export interface LangRefEntry {
+    // What the word is, e.g. 'Instruction' or 'Linkage Type'
+    category: string;
+    syntax?: string;
+    summary: string;
+    // Operand and type requirements
+    constraints?: string;
+}
+
+type Table = Record<string, Omit<LangRefEntry, 'category'>>;
+
+const INSTRUCTIONS: Table = {
+    // Terminators
+    ret: {
+        syntax: 'ret <type> <value>\nret void',
+        summary: 'Returns control flow, and optionally a value, from a function to its caller.',
+        constraints: 'The value must have the return type of the function; `ret void` only in functions returning void.',
+    },
+    br: {
+        syntax: 'br i1 <cond>, label <iftrue>, label <iffalse>\nbr label <dest>',
+        summary: 'Transfers control to another basic block, conditionally or unconditionally.',
+        constraints: 'The condition must be `i1`. Branching on poison or undef is undefined behavior.',
+    },
+    switch: {
+        syntax: 'switch <intty> <value>, label <default> [ <intty> <val>, label <dest> ... ]',
+        summary: 'Transfers control to one of several blocks depending on an integer value, like a jump table.',
+        constraints: 'Case values must be distinct integer constants of the condition type.',
+    },
+    indirectbr: {
+        syntax: 'indirectbr ptr <address>, [ label <dest1>, label <dest2>, ... ]',
+        summary: 'Jumps to a block whose address was taken with `blockaddress`.',
+        constraints: 'The address must be one of the listed destinations of the same function.',
+    },
+    invoke: {
+        syntax: '<result> = invoke [cconv] [ret attrs] <ty> <fnptrval>(<args>) [fn attrs]\n      to label <normal> unwind label <exception>',
+        summary: 'Calls a function; continues at the normal label on return, or at the unwind label if the callee unwinds.',
+        constraints: 'The unwind destination must begin with a landing pad or another EH pad.',
+    },
+    callbr: {
+        syntax: '<result> = callbr <ty> <fnptrval>(<args>) to label <fallthrough> [label <indirect>, ...]',
+        summary: 'Calls inline assembly that may transfer control to one of several indirect destinations (asm goto).',
+    },
+    resume: {
+        syntax: 'resume <type> <value>',
+        summary: 'Resumes propagation of an in-flight exception caught by a landing pad.',
+        constraints: 'The value must have the same type as the landingpad result of the function.',
+    },
+    catchswitch: {
+        syntax: '<result> = catchswitch within <parent> [ label <handler>, ... ] unwind to caller\n<result> = catchswitch within <parent> [ label <handler>, ... ] unwind label <default>',
+        summary: 'Describes the set of catch handlers a funclet-based exception may be dispatched to.',
+    },
+    catchret: {
+        syntax: 'catchret from <token> to label <normal>',
+        summary: 'Ends a catch handler and transfers control to the normal destination.',
+    },
+    cleanupret: {
+        syntax: 'cleanupret from <value> unwind label <continue>\ncleanupret from <value> unwind to caller',
+        summary: 'Ends a cleanup funclet and continues unwinding.',
+    },
+    unreachable: {
+        syntax: 'unreachable',
+        summary: 'Tells the optimizer that this point is never reached; executing it is undefined behavior.',
+    },
+
+    // Unary and binary operations
+    fneg: {
+        syntax: '<result> = fneg [fast-math flags] <ty> <op1>',
+        summary: 'Returns the negation of a floating point value by flipping its sign bit.',
+        constraints: 'Floating point or vector of floating point.',
+    },
+    add: {
+        syntax: '<result> = add [nuw] [nsw] <ty> <op1>, <op2>',
+        summary: 'Integer addition, wrapping modulo 2^n.',
+        constraints: 'Both operands are integers or integer vectors of the same type. With nuw/nsw, unsigned/signed overflow gives poison.',
+    },
+    sub: {
+        syntax: '<result> = sub [nuw] [nsw] <ty> <op1>, <op2>',
+        summary: 'Integer subtraction, wrapping modulo 2^n.',
+        constraints: 'Both operands are integers or integer vectors of the same type. With nuw/nsw, unsigned/signed overflow gives poison.',
+    },
+    mul: {
+        syntax: '<result> = mul [nuw] [nsw] <ty> <op1>, <op2>',
+        summary: 'Integer multiplication; the low n bits of the product.',
+        constraints: 'Both operands are integers or integer vectors of the same type. With nuw/nsw, unsigned/signed overflow gives poison.',
+    },
+    udiv: {
+        syntax: '<result> = udiv [exact] <ty> <op1>, <op2>',
+        summary: 'Unsigned integer division.',
+        constraints: 'Division by zero is undefined behavior. With exact, a non-zero remainder gives poison.',
+    },
+    sdiv: {
+        syntax: '<result> = sdiv [exact] <ty> <op1>, <op2>',
+        summary: 'Signed integer division, rounding towards zero.',
+        constraints: 'Division by zero and INT_MIN / -1 are undefined behavior. With exact, a non-zero remainder gives poison.',
+    },
+    urem: {
+        syntax: '<result> = urem <ty> <op1>, <op2>',
+        summary: 'Unsigned integer remainder.',
+        constraints: 'Taking the remainder of a division by zero is undefined behavior.',
+    },
+    srem: {
+        syntax: '<result> = srem <ty> <op1>, <op2>',
+        summary: 'Signed integer remainder; the result has the sign of the dividend.',
+        constraints: 'Division by zero and INT_MIN % -1 are undefined behavior.',
+    },
+    shl: {
+        syntax: '<result> = shl [nuw] [nsw] <ty> <op1>, <op2>',
+        summary: 'Shifts left by the given number of bits.',
+        constraints: 'A shift amount greater than or equal to the bit width gives poison.',
+    },
+    lshr: {
+        syntax: '<result> = lshr [exact] <ty> <op1>, <op2>',
+        summary: 'Logical shift right, filling with zero bits.',
+        constraints: 'A shift amount greater than or equal to the bit width gives poison. With exact, shifting out non-zero bits gives poison.',
+    },
+    ashr: {
+        syntax: '<result> = ashr [exact] <ty> <op1>, <op2>',
+        summary: 'Arithmetic shift right, filling with copies of the sign bit.',
+        constraints: 'A shift amount greater than or equal to the bit width gives poison. With exact, shifting out non-zero bits gives poison.',
+    },
+    and: { syntax: '<result> = and <ty> <op1>, <op2>', summary: 'Bitwise and.', constraints: 'Integers or integer vectors of the same type.' },
+    or: {
+        syntax: '<result> = or [disjoint] <ty> <op1>, <op2>',
+        summary: 'Bitwise or.',
+        constraints: 'Integers or integer vectors of the same type. With disjoint, operands with a common set bit give poison.',
+    },
+    xor: { syntax: '<result> = xor <ty> <op1>, <op2>', summary: 'Bitwise exclusive or; `xor %x, -1` is bitwise not.', constraints: 'Integers or integer vectors of the same type.' },
+    fadd: { syntax: '<result> = fadd [fast-math flags] <ty> <op1>, <op2>', summary: 'Floating point addition.', constraints: 'Floating point or vector of floating point, both of the same type.' },
+    fsub: { syntax: '<result> = fsub [fast-math flags] <ty> <op1>, <op2>', summary: 'Floating point subtraction.', constraints: 'Floating point or vector of floating point, both of the same type.' },
+    fmul: { syntax: '<result> = fmul [fast-math flags] <ty> <op1>, <op2>', summary: 'Floating point multiplication.', constraints: 'Floating point or vector of floating point, both of the same type.' },
+    fdiv: { syntax: '<result> = fdiv [fast-math flags] <ty> <op1>, <op2>', summary: 'Floating point division.', constraints: 'Floating point or vector of floating point, both of the same type.' },
+    frem: { syntax: '<result> = frem [fast-math flags] <ty> <op1>, <op2>', summary: 'Floating point remainder, with the sign of the dividend (like C fmod).', constraints: 'Floating point or vector of floating point, both of the same type.' },
+
+    // Vector and aggregate operations
+    extractelement: {
+        syntax: '<result> = extractelement <n x <ty>> <val>, <ty2> <idx>',
+        summary: 'Extracts a scalar element from a vector at a dynamic index.',
+        constraints: 'An out-of-range index gives poison.',
+    },
+    insertelement: {
+        syntax: '<result> = insertelement <n x <ty>> <val>, <ty> <elt>, <ty2> <idx>',
+        summary: 'Returns a copy of a vector with one element replaced.',
+        constraints: 'The element must have the vector element type. An out-of-range index gives poison.',
+    },
+    shufflevector: {
+        syntax: '<result> = shufflevector <n x <ty>> <v1>, <n x <ty>> <v2>, <m x i32> <mask>',
+        summary: 'Builds a vector from elements of two input vectors, selected by a constant mask.',
+        constraints: 'Both inputs have the same type; the result has as many elements as the mask. A poison mask element gives a poison result element.',
+    },
+    extractvalue: {
+        syntax: '<result> = extractvalue <aggregate type> <val>, <idx>{, <idx>}*',
+        summary: 'Extracts a member from a struct or array value.',
+        constraints: 'Indices are constants and must be in range for the aggregate type.',
+    },
+    insertvalue: {
+        syntax: '<result> = insertvalue <aggregate type> <val>, <ty> <elt>, <idx>{, <idx>}*',
+        summary: 'Returns a copy of a struct or array value with one member replaced.',
+        constraints: 'Indices are constants; the element must have the type of the indexed member.',
+    },
+
+    // Memory
+    alloca: {
+        syntax: '<result> = alloca [inalloca] <type> [, <ty> <NumElements>] [, align <alignment>] [, addrspace(<num>)]',
+        summary: 'Allocates memory on the stack frame of the current function; it is freed when the function returns.',
+        constraints: 'The result is a pointer in the alloca address space of the data layout.',
+    },
+    load: {
+        syntax: '<result> = load [volatile] <ty>, ptr <pointer>[, align <alignment>]\n<result> = load atomic [volatile] <ty>, ptr <pointer> [syncscope("<target-scope>")] <ordering>, align <alignment>',
+        summary: 'Reads a value from memory.',
+        constraints: 'Atomic loads require an alignment and may not use release or acq_rel ordering.',
+    },
+    store: {
+        syntax: 'store [volatile] <ty> <value>, ptr <pointer>[, align <alignment>]\nstore atomic [volatile] <ty> <value>, ptr <pointer> [syncscope("<target-scope>")] <ordering>, align <alignment>',
+        summary: 'Writes a value to memory.',
+        constraints: 'Atomic stores require an alignment and may not use acquire or acq_rel ordering.',
+    },
+    fence: {
+        syntax: 'fence [syncscope("<target-scope>")] <ordering>',
+        summary: 'Introduces happens-before edges between operations.',
+        constraints: 'The ordering must be acquire, release, acq_rel or seq_cst.',
+    },
+    cmpxchg: {
+        syntax: 'cmpxchg [weak] [volatile] ptr <pointer>, <ty> <cmp>, <ty> <new> [syncscope("<target-scope>")] <success ordering> <failure ordering>[, align <alignment>]',
+        summary: 'Atomically compares the value in memory with `cmp` and, if equal, stores `new`. Returns `{ <ty>, i1 }`: the loaded value and whether the exchange happened.',
+        constraints: 'Orderings must be at least monotonic; the failure ordering may not be release or acq_rel. A weak cmpxchg may fail spuriously.',
+    },
+    atomicrmw: {
+        syntax: 'atomicrmw [volatile] <operation> ptr <pointer>, <ty> <value> [syncscope("<target-scope>")] <ordering>[, align <alignment>]',
+        summary: 'Atomically reads, modifies and writes memory, returning the original value.',
+        constraints: 'The ordering may not be unordered. Integer operations need an integer type, fadd/fsub/fmax/fmin a floating point type.',
+    },
+    getelementptr: {
+        syntax: '<result> = getelementptr [inbounds] [nusw] [nuw] <ty>, ptr <ptrval>{, <ty> <idx>}*',
+        summary: 'Computes the address of a subelement of an aggregate. It only does address arithmetic and never accesses memory.',
+        constraints: 'The first index steps over the source element type; struct indices must be i32 constants. With inbounds, leaving the allocated object gives poison.',
+    },
+
+    // Conversions
+    trunc: { syntax: '<result> = trunc [nuw] [nsw] <ty> <value> to <ty2>', summary: 'Truncates an integer to a narrower integer type.', constraints: 'The result type must be smaller than the source type.' },
+    zext: { syntax: '<result> = zext [nneg] <ty> <value> to <ty2>', summary: 'Zero-extends an integer to a wider integer type.', constraints: 'The result type must be larger than the source type. With nneg, a negative operand gives poison.' },
+    sext: { syntax: '<result> = sext <ty> <value> to <ty2>', summary: 'Sign-extends an integer to a wider integer type.', constraints: 'The result type must be larger than the source type.' },
+    fptrunc: { syntax: '<result> = fptrunc [fast-math flags] <ty> <value> to <ty2>', summary: 'Truncates a floating point value to a smaller floating point type.', constraints: 'The result type must be smaller than the source type.' },
+    fpext: { syntax: '<result> = fpext [fast-math flags] <ty> <value> to <ty2>', summary: 'Extends a floating point value to a larger floating point type.', constraints: 'The result type must be larger than the source type.' },
+    fptoui: { syntax: '<result> = fptoui <ty> <value> to <ty2>', summary: 'Converts a floating point value to an unsigned integer, rounding towards zero.', constraints: 'A value that does not fit gives poison.' },
+    fptosi: { syntax: '<result> = fptosi <ty> <value> to <ty2>', summary: 'Converts a floating point value to a signed integer, rounding towards zero.', constraints: 'A value that does not fit gives poison.' },
+    uitofp: { syntax: '<result> = uitofp [nneg] <ty> <value> to <ty2>', summary: 'Converts an unsigned integer to floating point.' },
+    sitofp: { syntax: '<result> = sitofp <ty> <value> to <ty2>', summary: 'Converts a signed integer to floating point.' },
+    ptrtoint: { syntax: '<result> = ptrtoint <ty> <value> to <ty2>', summary: 'Converts a pointer to an integer, truncating or zero-extending as needed.' },
+    ptrtoaddr: { syntax: '<result> = ptrtoaddr <ty> <value> to <ty2>', summary: 'Converts a pointer to the integer address it points to, without capturing its provenance.' },
+    inttoptr: { syntax: '<result> = inttoptr <ty> <value> to <ty2>', summary: 'Converts an integer to a pointer.' },
+    bitcast: {
+        syntax: '<result> = bitcast <ty> <value> to <ty2>',
+        summary: 'Reinterprets the bits of a value as another type of the same size.',
+        constraints: 'Both types must have the same bit width; pointers can only be cast to pointers of the same address space.',
+    },
+    addrspacecast: { syntax: '<result> = addrspacecast <pty> <ptrval> to <pty2>', summary: 'Converts a pointer to a pointer in another address space.' },
+
+    // Other operations
+    icmp: {
+        syntax: '<result> = icmp [samesign] <cond> <ty> <op1>, <op2>',
+        summary: 'Compares two integers, pointers or vectors of them, returning `i1` or a vector of `i1`.',
+        constraints: 'Conditions: eq, ne, ugt, uge, ult, ule, sgt, sge, slt, sle.',
+    },
+    fcmp: {
+        syntax: '<result> = fcmp [fast-math flags] <cond> <ty> <op1>, <op2>',
+        summary: 'Compares two floating point values, returning `i1` or a vector of `i1`.',
+        constraints: 'Ordered conditions (o*) are false if either operand is NaN, unordered ones (u*) are true.',
+    },
+    phi: {
+        syntax: '<result> = phi [fast-math flags] <ty> [ <val0>, <label0>], ...',
+        summary: 'Selects a value depending on the predecessor block control came from.',
+        constraints: 'Phis must be at the start of a block, with exactly one entry per predecessor.',
+    },
+    select: {
+        syntax: '<result> = select [fast-math flags] i1 <cond>, <ty> <val1>, <ty> <val2>',
+        summary: 'Chooses one of two values based on a condition, without branching.',
+        constraints: 'The condition is `i1` or a vector of `i1` with as many elements as the values.',
+    },
+    freeze: {
+        syntax: '<result> = freeze <ty> <val>',
+        summary: 'Stops propagation of undef and poison: returns the operand, or an arbitrary but fixed value if it is undef or poison.',
+    },
+    call: {
+        syntax: '<result> = [tail | musttail | notail] call [fast-math flags] [cconv] [ret attrs] [addrspace(<num>)]\n           <ty>|<fnty> <fnptrval>(<function args>) [fn attrs] [ operand bundles ]',
+        summary: 'Calls a function.',
+        constraints: 'Arguments must match the parameter types of the function type. musttail requires matching prototypes and a following ret.',
+    },
+    va_arg: {
+        syntax: '<resultval> = va_arg <va_list*> <arglist>, <argty>',
+        summary: 'Reads the next argument of the given type from a va_list.',
+    },
+    landingpad: {
+        syntax: '<resultval> = landingpad <resultty> [cleanup] <clause>+\n<clause> := catch <type> <value> | filter <array constant type> <array constant>',
+        summary: 'Receives the exception of an invoke that unwound here; its clauses say which exceptions are handled.',
+        constraints: 'Must be the first non-phi instruction of a block that is the unwind destination of an invoke.',
+    },
+    catchpad: {
+        syntax: '<resultval> = catchpad within <catchswitch> [<args>*]',
+        summary: 'Starts a catch handler of a funclet-based exception.',
+    },
+    cleanuppad: {
+        syntax: '<resultval> = cleanuppad within <parent> [<args>*]',
+        summary: 'Starts a cleanup funclet that runs while an exception unwinds.',
+    },
+};
+
+const LINKAGE_TYPES: Table = {
+    private: { summary: 'Only accessible within this module; the symbol is not in the object file symbol table.' },
+    internal: { summary: 'Only accessible within this module, like `static` in C; appears as a local symbol.' },
+    available_externally: { summary: 'A copy of a definition that exists elsewhere, kept only for inlining and optimization; never emitted.' },
+    linkonce: { summary: 'Merged with other definitions of the same name when linking; may be discarded if unused. May not be inlined, since another definition may be chosen.' },
+    weak: { summary: 'Like linkonce, but unreferenced definitions are not discarded. Used for weak symbols in C.' },
+    common: { summary: 'Like weak, for tentative definitions such as `int x;` at file scope in C.', constraints: 'Must have a zero initializer and may not be constant or in a section.' },
+    appending: { summary: 'Only for arrays; when linking, arrays of the same name are concatenated. Used for llvm.global_ctors and similar.' },
+    extern_weak: { summary: 'A weak reference: the symbol is null if it is not defined at link time.' },
+    linkonce_odr: { summary: 'Like linkonce, but all definitions are known to be equivalent (one definition rule), so they may be inlined. Used for inline functions and templates in C++.' },
+    weak_odr: { summary: 'Like weak, but all definitions are known to be equivalent (one definition rule).' },
+    external: { summary: 'Visible to other modules and participates in linking. The default for definitions.' },
+};
+
+const CALLING_CONVENTIONS: Table = {
+    ccc: { summary: 'The C calling convention; the default. Supports varargs and tolerates prototype mismatches.' },
+    fastcc: { summary: 'Makes calls as fast as possible, e.g. by passing values in registers. Supports tail call optimization.' },
+    coldcc: { summary: 'For rarely called functions: preserves as many registers as possible in the caller.' },
+    tailcc: { summary: 'Like fastcc, but guarantees tail call optimization for calls marked `tail`.' },
+    swiftcc: { summary: 'The calling convention of Swift, with special registers for swiftself and swifterror.' },
+    swifttailcc: { summary: 'Like swiftcc, with guaranteed tail calls for musttail calls.' },
+    ghccc: { summary: 'The Glasgow Haskell Compiler convention: passes everything in registers and has no callee-saved registers.' },
+    anyregcc: { summary: 'Lets code patching intrinsics such as stackmaps place arguments in any register.' },
+    preserve_mostcc: { summary: 'The callee preserves most general purpose registers; for cold calls on hot paths.' },
+    preserve_allcc: { summary: 'The callee preserves all general purpose and most floating point registers.' },
+    preserve_nonecc: { summary: 'The callee preserves no general purpose registers.' },
+    cxx_fast_tlscc: { summary: 'For C++ thread_local access functions: the callee preserves as many registers as possible.' },
+    cfguard_checkcc: { summary: 'For Windows Control Flow Guard check functions.' },
+    webkit_jscc: { summary: 'The WebKit JavaScript convention.' },
+    x86_stdcallcc: { summary: 'The 32-bit Windows stdcall convention: the callee pops the arguments.' },
+    x86_fastcallcc: { summary: 'The 32-bit Windows fastcall convention: the first arguments are passed in ECX and EDX.' },
+    x86_thiscallcc: { summary: 'The 32-bit Windows thiscall convention: `this` is passed in ECX.' },
+    x86_vectorcallcc: { summary: 'The Windows vectorcall convention: vector arguments are passed in registers.' },
+    x86_64_sysvcc: { summary: 'The System V AMD64 convention, used explicitly on Windows targets.' },
+    win64cc: { summary: 'The Windows x64 convention, used explicitly on non-Windows targets.' },
+    arm_aapcscc: { summary: 'The ARM AAPCS convention with soft-float argument passing.' },
+    arm_aapcs_vfpcc: { summary: 'The ARM AAPCS convention passing floating point arguments in VFP registers.' },
+    aarch64_vector_pcs: { summary: 'The AArch64 vector function convention, which preserves more SIMD registers.' },
+    aarch64_sve_vector_pcs: { summary: 'The AArch64 SVE vector function convention.' },
+    spir_func: { summary: 'A SPIR non-kernel function.' },
+    spir_kernel: { summary: 'A SPIR kernel entry point.' },
+    ptx_kernel: { summary: 'A PTX kernel entry point.' },
+    ptx_device: { summary: 'A PTX device function.' },
+    amdgpu_kernel: { summary: 'An AMDGPU compute kernel entry point.' },
+    amdgpu_gfx: { summary: 'An AMDGPU graphics function callable from shaders.' },
+    riscv_vector_cc: { summary: 'The RISC-V vector calling convention.' },
+};
+
+const PARAMETER_ATTRIBUTES: Table = {
+    zeroext: { summary: 'The value is zero-extended to the width the target ABI requires.' },
+    signext: { summary: 'The value is sign-extended to the width the target ABI requires.' },
+    noext: { summary: 'The value is neither zero- nor sign-extended by the caller or callee.' },
+    inreg: { summary: 'The value is passed in a register, in a target-specific way.' },
+    byval: { syntax: 'byval(<ty>)', summary: 'The pointer argument is a hidden copy made by the caller; the callee may modify it freely.' },
+    byref: { syntax: 'byref(<ty>)', summary: 'The pointer argument refers to a value passed by reference in the ABI; no copy is made.' },
+    preallocated: { syntax: 'preallocated(<ty>)', summary: 'The argument memory was allocated by llvm.call.preallocated.setup.' },
+    inalloca: { syntax: 'inalloca(<ty>)', summary: 'The argument is the address of memory allocated in the caller frame by an inalloca alloca (Windows x86 C++ ABI).' },
+    sret: { syntax: 'sret(<ty>)', summary: 'The pointer points to memory where the callee writes the returned structure.', constraints: 'Only on the first or second parameter; the function must return void.' },
+    elementtype: { syntax: 'elementtype(<ty>)', summary: 'The element type of a pointer argument, for intrinsics that need it.' },
+    align: { syntax: 'align <n>\nalign(<n>)', summary: 'The pointer is aligned to at least n bytes; otherwise the value is poison.' },
+    noalias: { summary: 'Memory accessed through this pointer is not accessed through any other pointer not derived from it while the function runs, like C `restrict`.' },
+    captures: { syntax: 'captures(none)\ncaptures(address, provenance)', summary: 'Which parts of the pointer the callee may capture, i.e. make available after the call returns.' },
+    nocapture: { summary: 'The callee does not make a copy of the pointer that outlives the call. Replaced by `captures(none)` in newer IR.' },
+    nofree: { summary: 'The callee does not free the pointed-to memory through this pointer.' },
+    nest: { summary: 'The pointer is a static chain for nested functions, passed in a special register.' },
+    returned: { summary: 'The function always returns this argument; helps optimizations such as tail calls.' },
+    nonnull: { summary: 'The pointer is not null; otherwise the value is poison.' },
+    dereferenceable: { syntax: 'dereferenceable(<n>)', summary: 'The pointer is dereferenceable for n bytes.' },
+    dereferenceable_or_null: { syntax: 'dereferenceable_or_null(<n>)', summary: 'The pointer is null or dereferenceable for n bytes.' },
+    swiftself: { summary: 'The Swift context argument, passed in a special register.' },
+    swiftasync: { summary: 'The Swift async context argument, passed in a special register.' },
+    swifterror: { summary: 'The Swift error argument, passed in a special register.' },
+    immarg: { summary: 'The argument must be a constant immediate; only used by intrinsics.' },
+    noundef: { summary: 'The value is neither undef nor poison; passing such a value is undefined behavior.' },
+    nofpclass: { syntax: 'nofpclass(<test mask>)', summary: 'The floating point value is not in the given classes, e.g. nan or inf; otherwise it is poison.' },
+    alignstack: { syntax: 'alignstack(<n>)', summary: 'The stack alignment the callee may assume for this parameter.' },
+    allocalign: { summary: 'The argument is the alignment of the memory returned by an allocation function.' },
+    allocptr: { summary: 'The pointer argument is the memory an allocation function frees or reallocates.' },
+    readnone: { summary: 'The callee does not access memory through this pointer.' },
+    readonly: { summary: 'The callee does not write through this pointer.' },
+    writeonly: { summary: 'The callee does not read through this pointer.' },
+    writable: { summary: 'The pointed-to memory may be written speculatively, as if it were dereferenceable and writable.' },
+    initializes: { syntax: 'initializes((<lo>, <hi>), ...)', summary: 'The callee writes the given byte ranges before reading them.' },
+    dead_on_unwind: { summary: 'The pointed-to memory is not read by the caller if the call unwinds.' },
+    dead_on_return: { summary: 'The pointed-to memory is dead after the call returns.' },
+    range: { syntax: 'range(<ty> <a>, <b>)', summary: 'The integer value is in the half-open range [a, b); otherwise it is poison.' },
+};
+
+const FUNCTION_ATTRIBUTES: Table = {
+    alwaysinline: { summary: 'Inline this function whenever possible, regardless of cost.' },
+    noinline: { summary: 'Never inline this function.' },
+    inlinehint: { summary: 'Inlining is desirable, e.g. because the source used the `inline` keyword.' },
+    builtin: { summary: 'On a call site: the callee is treated as a builtin even if it was declared nobuiltin.' },
+    nobuiltin: { summary: 'Calls are not treated as calls to the library function of the same name.' },
+    cold: { summary: 'The function is rarely called; calls are treated as unlikely paths.' },
+    hot: { summary: 'The function is a hot spot of the program.' },
+    convergent: { summary: 'Calls may not be made control dependent on additional values, e.g. GPU barriers.' },
+    minsize: { summary: 'Optimize for the smallest possible code size, even at a cost in performance.' },
+    optsize: { summary: 'Optimize for small code size.' },
+    optnone: { summary: 'Most optimizations skip this function.', constraints: 'Requires noinline.' },
+    mustprogress: { summary: 'The function returns, unwinds or interacts with the environment in an observable way eventually; infinite loops without side effects may be removed.' },
+    naked: { summary: 'No prologue or epilogue is emitted.' },
+    noreturn: { summary: 'The function never returns normally; returning is undefined behavior.' },
+    nounwind: { summary: 'The function never raises an exception.' },
+    norecurse: { summary: 'The function does not call itself, directly or indirectly.' },
+    nosync: { summary: 'The function does not communicate with other threads through memory or synchronization.' },
+    nofree: { summary: 'The function does not free memory.' },
+    willreturn: { summary: 'The function returns or unwinds; it does not loop forever or terminate the program.' },
+    nocallback: { summary: 'The function does not call back into functions of the current module.' },
+    speculatable: { summary: 'The function has no side effects or undefined behavior, so calls may be executed speculatively.' },
+    returns_twice: { summary: 'The function may return more than once, like setjmp.' },
+    uwtable: { syntax: 'uwtable\nuwtable(sync)\nuwtable(async)', summary: 'An unwind table entry must be emitted, even if the function does not throw.' },
+    memory: {
+        syntax: 'memory(<access>)\nmemory(<location>: <access>, ...)',
+        summary: 'Which memory the function may access: argmem, inaccessiblemem, errnomem or everything else, each with none, read, write or readwrite.',
+    },
+    allockind: { syntax: 'allockind("alloc,zeroed,...")', summary: 'The kind of allocation function: alloc, realloc, free, uninitialized, zeroed or aligned.' },
+    allocsize: { syntax: 'allocsize(<size>[, <count>])', summary: 'The function returns memory whose size is given by the argument(s) at these indices.' },
+    vscale_range: { syntax: 'vscale_range(<min>[, <max>])', summary: 'The range of vscale values the function may assume.' },
+    ssp: { summary: 'Emit a stack protector if the function has arrays or large stack objects.' },
+    sspstrong: { summary: 'Emit a stack protector if the function has arrays or takes the address of any stack object.' },
+    sspreq: { summary: 'Always emit a stack protector.' },
+    safestack: { summary: 'Use SafeStack to separate unsafe stack objects.' },
+    shadowcallstack: { summary: 'Keep return addresses on a separate shadow call stack.' },
+    sanitize_address: { summary: 'AddressSanitizer checks are enabled for this function.' },
+    sanitize_memory: { summary: 'MemorySanitizer checks are enabled for this function.' },
+    sanitize_thread: { summary: 'ThreadSanitizer checks are enabled for this function.' },
+    sanitize_hwaddress: { summary: 'HWAddressSanitizer checks are enabled for this function.' },
+    sanitize_memtag: { summary: 'Memory tagging checks are enabled for this function.' },
+    noimplicitfloat: { summary: 'No floating point or SIMD instructions may be introduced implicitly, e.g. for memcpy.' },
+    noredzone: { summary: 'The code generator may not use a red zone below the stack pointer.' },
+    nonlazybind: { summary: 'Calls to this function are resolved eagerly rather than through lazy binding.' },
+    nomerge: { summary: 'Calls may not be merged, so that each keeps its own debug location.' },
+    noduplicate: { summary: 'Calls may not be duplicated, e.g. by loop unrolling.' },
+    null_pointer_is_valid: { summary: 'Address zero is a valid address, so null is not assumed to be dereferenceable-free.' },
+    strictfp: { summary: 'The function may depend on the floating point environment; optimizations must preserve its semantics.' },
+    presplitcoroutine: { summary: 'The function is a coroutine that has not been split yet.' },
+    jumptable: { summary: 'References to the function go through a jump table.' },
+    disable_sanitizer_instrumentation: { summary: 'No sanitizer instrumentation is added to this function.' },
+    nocf_check: { summary: 'Control flow protection is not applied to this function.' },
+    optforfuzzing: { summary: 'Optimize for fuzzing.' },
+    speculative_load_hardening: { summary: 'Speculative load hardening is enabled for this function.' },
+    noprofile: { summary: 'No profiling instrumentation is added to this function.' },
+};
+
+const MEMORY_ORDERINGS: Table = {
+    unordered: { summary: 'The weakest atomic ordering: no tearing, but no synchronization. Used for Java-style memory.' },
+    monotonic: { summary: 'A total order of modifications per address, without synchronizing other memory. C++ memory_order_relaxed.' },
+    acquire: { summary: 'Later memory operations in this thread are not reordered before it; synchronizes with a release. C++ memory_order_acquire.' },
+    release: { summary: 'Earlier memory operations in this thread are not reordered after it; synchronizes with an acquire. C++ memory_order_release.' },
+    acq_rel: { summary: 'Both acquire and release. C++ memory_order_acq_rel.' },
+    seq_cst: { summary: 'acq_rel plus a single total order of all seq_cst operations. C++ memory_order_seq_cst.' },
+    syncscope: { syntax: 'syncscope("<target-scope>")', summary: 'Limits the threads the atomic operation synchronizes with, e.g. "singlethread" for signal handlers.' },
+};
+
+const KEYWORDS: Table = {
+    // Instruction flags
+    nuw: { summary: 'No unsigned wrap: unsigned overflow gives poison.' },
+    nsw: { summary: 'No signed wrap: signed overflow gives poison.' },
+    exact: { summary: 'The operation is known to have no remainder or shift out non-zero bits; otherwise the result is poison.' },
+    disjoint: { summary: 'The operands of `or` have no set bits in common, so it is equivalent to `add`; otherwise the result is poison.' },
+    nneg: { summary: 'The operand is not negative, so zext equals sext and uitofp equals sitofp; otherwise the result is poison.' },
+    samesign: { summary: 'The operands of `icmp` have the same sign, so signed and unsigned predicates agree; otherwise the result is poison.' },
+    inbounds: { summary: 'The address stays within the allocated object the base pointer is based on; otherwise the result is poison.' },
+    nusw: { summary: 'Offset computations of getelementptr do not wrap in the signed sense; otherwise the result is poison.' },
+    inrange: { syntax: 'inrange(<start>, <end>)', summary: 'Loads and stores through the result may only access the given offset range.' },
+    weak: { summary: 'On cmpxchg: the exchange may fail spuriously even if the values compare equal.' },
+    volatile: { summary: 'The memory access may not be removed, duplicated or reordered with other volatile accesses.' },
+    atomic: { summary: 'The load or store is atomic, with the given memory ordering.' },
+    tail: { summary: 'The callee does not access allocas of the caller, so the call may be a tail call.' },
+    musttail: { summary: 'The call must be emitted as a tail call.', constraints: 'Must be followed by a ret of the call result; caller and callee prototypes must match.' },
+    notail: { summary: 'The call must not be emitted as a tail call.' },
+
+    // Fast-math flags
+    fast: { summary: 'All fast-math flags: nnan, ninf, nsz, arcp, contract, afn and reassoc.' },
+    nnan: { summary: 'No NaNs: NaN operands or results give poison.' },
+    ninf: { summary: 'No infinities: infinite operands or results give poison.' },
+    nsz: { summary: 'No signed zeros: the sign of a zero may be ignored.' },
+    arcp: { summary: 'Allow reciprocal: x / y may be replaced by x * (1 / y).' },
+    contract: { summary: 'Allow contraction, e.g. fusing a multiply and an add into fma.' },
+    afn: { summary: 'Approximate functions: library calls such as sin and log may be approximated.' },
+    reassoc: { summary: 'Allow reassociation and other algebraically valid transforms that may change the result.' },
+
+    // Global properties
+    dso_local: { summary: 'The symbol resolves to a definition within the same linkage unit, so no GOT or PLT indirection is needed.' },
+    dso_preemptable: { summary: 'The symbol may be replaced by a definition from outside the linkage unit at runtime. The default.' },
+    unnamed_addr: { summary: 'The address of the global is not significant, only its content; identical constants may be merged.' },
+    local_unnamed_addr: { summary: 'The address is not significant within this module; it may still be observed from other modules.' },
+    thread_local: { syntax: 'thread_local\nthread_local(localdynamic | initialexec | localexec)', summary: 'Each thread has its own copy of the variable.' },
+    externally_initialized: { summary: 'The variable may be initialized outside this module, so its initializer may not be relied on.' },
+    global: { summary: 'Defines a global variable that may be modified.' },
+    constant: { summary: 'Defines a global variable that is never modified.' },
+    alias: { syntax: '@<Name> = [Linkage] [Visibility] alias <AliaseeTy>, ptr @<Aliasee>', summary: 'Defines a new name for an existing global or function.' },
+    ifunc: { syntax: '@<Name> = [Linkage] [Visibility] ifunc <IFuncTy>, ptr @<Resolver>', summary: 'A function whose address is chosen at load time by calling the resolver.' },
+    default: { summary: 'Default visibility: the symbol is visible to other modules and may be preempted.' },
+    hidden: { summary: 'Hidden visibility: the symbol is not exported from the shared object.' },
+    protected: { summary: 'Protected visibility: the symbol is exported but cannot be preempted.' },
+    dllimport: { summary: 'The symbol is imported from a DLL, through an import table pointer.' },
+    dllexport: { summary: 'The symbol is exported from the DLL.' },
+    section: { syntax: 'section "<name>"', summary: 'Places the global or function in the given object file section.' },
+    comdat: { syntax: 'comdat\ncomdat($<name>)', summary: 'Places the global in a COMDAT group, which the linker keeps or discards as a whole.' },
+    personality: { syntax: 'personality ptr <fn>', summary: 'The exception handling personality function of the function.' },
+
+    // Module level
+    define: { syntax: 'define [linkage] [visibility] [cconv] [ret attrs] <ResultType> @<FunctionName>(<args>) [fn attrs] { ... }', summary: 'Defines a function with a body.' },
+    declare: { syntax: 'declare [linkage] [visibility] [cconv] [ret attrs] <ResultType> @<FunctionName>(<args>) [fn attrs]', summary: 'Declares a function defined elsewhere.' },
+    attributes: { syntax: 'attributes #<n> = { <attributes> }', summary: 'Defines an attribute group that functions and calls refer to as #n.' },
+    source_filename: { syntax: 'source_filename = "<name>"', summary: 'The name of the source file the module was compiled from.' },
+    datalayout: { syntax: 'target datalayout = "<layout>"', summary: 'How data is laid out in memory: endianness, pointer sizes, alignments and address spaces.' },
+    triple: { syntax: 'target triple = "<arch>-<vendor>-<os>[-<env>]"', summary: 'The target the module is compiled for.' },
+    type: { syntax: '%<Name> = type { <types> }\n%<Name> = type opaque', summary: 'Defines a named structure type.' },
+
+    // Constants
+    undef: { summary: 'An unspecified value of the type; each use may observe a different value.' },
+    poison: { summary: 'A value that results from an erroneous operation. It propagates through most instructions, and using it in a branch condition or as a memory address is undefined behavior.' },
+    zeroinitializer: { summary: 'A zero value of any type, including aggregates.' },
+    null: { summary: 'The null pointer constant.' },
+    blockaddress: { syntax: 'blockaddress(@function, %block)', summary: 'The address of a basic block, for use with indirectbr.' },
+};
+
+const TABLES: [string, Table][] = [
+    ['Instruction', INSTRUCTIONS],
+    ['Linkage Type', LINKAGE_TYPES],
+    ['Calling Convention', CALLING_CONVENTIONS],
+    ['Parameter Attribute', PARAMETER_ATTRIBUTES],
+    ['Function Attribute', FUNCTION_ATTRIBUTES],
+    ['Memory Ordering', MEMORY_ORDERINGS],
+    ['Keyword', KEYWORDS],
+];
+
+/**
+ * Find the documentation of a keyword. A word can have several meanings,
+ * e.g. `weak` is a linkage type and a cmpxchg flag; all are returned.
+ */
+export function lookupLangRef(word: string): LangRefEntry[] {
+    const entries: LangRefEntry[] = [];
+    for (const [category, table] of TABLES) {
+        if (Object.prototype.hasOwnProperty.call(table, word)) {
+            entries.push({ category, ...table[word] });
+        }
+    }
+    return entries;
+}
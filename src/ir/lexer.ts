@@ -0,0 +1,268 @@
+import * as vscode from 'vscode';
+
+/**
+ * Kinds of tokens produced by the LLVM IR lexer
+ */
+export enum TokenKind {
+    LocalVar,     // %name, %"name", %0
+    GlobalVar,    // @name, @"name", @0
+    MetadataVar,  // !name, !0, !DILocation
+    AttrGroupId,  // #0
+    DebugRecord,  // #dbg_value
+    ComdatVar,    // $name, $"name"
+    LabelDef,     // name:, "name":, 0:
+    Word,         // keywords, types and opcodes
+    Integer,      // 42, -1
+    Float,        // 1.0, 1.0e+3, 0x3FF0000000000000
+    String,       // "text"
+    CString,      // c"text\00"
+    Punct,        // = , ( ) [ ] { } < > * | ! ...
+    Invalid,
+}
+
+/**
+ * A single token with its source location
+ */
+export interface Token {
+    kind: TokenKind;
+    text: string;
+    offset: number;
+    end: number;
+    range: vscode.Range;
+}
+
+/**
+ * A `;` comment, kept out of the token stream
+ */
+export interface Comment {
+    text: string;
+    offset: number;
+    range: vscode.Range;
+}
+
+/**
+ * Result of lexing a whole document
+ */
+export interface LexResult {
+    tokens: Token[];
+    comments: Comment[];
+}
+
+/**
+ * Where lexed text starts in its document, for text that is one part of a
+ * larger document such as a snapshot of a pass dump
+ */
+export interface SourceOrigin {
+    offset: number;
+    line: number;
+}
+
+const IDENT_START = /[-a-zA-Z$._]/;
+const IDENT_CHAR = /[-a-zA-Z$._0-9]/;
+const WORD_RE = /[-a-zA-Z$._0-9]+/y;
+const NUMBER_RE = /[-+]?[0-9]+(\.[0-9]*)?([eE][-+]?[0-9]+)?/y;
+const HEX_RE = /0x[KLMHR]?[0-9A-Fa-f]+/y;
+const PUNCT = '=,()[]{}<>*|:';
+
+/**
+ * Split LLVM IR source text into tokens. Comments are collected separately so
+ * that `{`, `%` and friends inside comments or string constants never confuse
+ * the parser.
+ */
+export function tokenize(text: string, origin: SourceOrigin = { offset: 0, line: 0 }): LexResult {
+    const tokens: Token[] = [];
+    const comments: Comment[] = [];
+    let pos = 0;
+    let line = origin.line;
+    let lineStart = 0;
+
+    const push = (kind: TokenKind, start: number, startLine: number, startChar: number) => {
+        tokens.push({
+            kind,
+            text: text.substring(start, pos),
+            offset: origin.offset + start,
+            end: origin.offset + pos,
+            range: new vscode.Range(startLine, startChar, line, pos - lineStart),
+        });
+    };
+
+    // Scan a "quoted" string starting at pos, keeping track of line breaks
+    const skipQuoted = () => {
+        pos++;
+        while (pos < text.length && text[pos] !== '"') {
+            if (text[pos] === '\n') {
+                line++;
+                lineStart = pos + 1;
+            }
+            pos++;
+        }
+        if (pos < text.length) {
+            pos++;
+        }
+    };
+
+    // Scan an identifier body after a sigil: name, "quoted name" or number
+    const skipIdentifier = (): boolean => {
+        if (text[pos] === '"') {
+            skipQuoted();
+            return true;
+        }
+        if (pos < text.length && (IDENT_START.test(text[pos]) || /[0-9]/.test(text[pos]))) {
+            while (pos < text.length && (IDENT_CHAR.test(text[pos]) || text[pos] === '\\')) {
+                pos++;
+            }
+            return true;
+        }
+        return false;
+    };
+
+    while (pos < text.length) {
+        const ch = text[pos];
+
+        if (ch === '\n') {
+            pos++;
+            line++;
+            lineStart = pos;
+            continue;
+        }
+        if (ch === ' ' || ch === '\t' || ch === '\r') {
+            pos++;
+            continue;
+        }
+
+        const start = pos;
+        const startLine = line;
+        const startChar = pos - lineStart;
+
+        if (ch === ';') {
+            while (pos < text.length && text[pos] !== '\n') {
+                pos++;
+            }
+            let end = pos;
+            if (text[end - 1] === '\r') {
+                end--;
+            }
+            comments.push({
+                text: text.substring(start, end),
+                offset: origin.offset + start,
+                range: new vscode.Range(line, startChar, line, end - lineStart),
+            });
+            continue;
+        }
+
+        if (ch === '%' || ch === '@' || ch === '$') {
+            pos++;
+            if (!skipIdentifier()) {
+                push(TokenKind.Invalid, start, startLine, startChar);
+                continue;
+            }
+            const kind = ch === '%' ? TokenKind.LocalVar
+                : ch === '@' ? TokenKind.GlobalVar
+                : TokenKind.ComdatVar;
+            push(kind, start, startLine, startChar);
+            continue;
+        }
+
+        if (ch === '!') {
+            pos++;
+            if (pos < text.length && (IDENT_CHAR.test(text[pos]) || text[pos] === '\\')) {
+                while (pos < text.length && (IDENT_CHAR.test(text[pos]) || text[pos] === '\\')) {
+                    pos++;
+                }
+                push(TokenKind.MetadataVar, start, startLine, startChar);
+            } else {
+                push(TokenKind.Punct, start, startLine, startChar);
+            }
+            continue;
+        }
+
+        if (ch === '#') {
+            pos++;
+            if (/[0-9]/.test(text[pos] ?? '')) {
+                while (pos < text.length && /[0-9]/.test(text[pos])) {
+                    pos++;
+                }
+                push(TokenKind.AttrGroupId, start, startLine, startChar);
+            } else if (/[a-zA-Z_]/.test(text[pos] ?? '')) {
+                while (pos < text.length && /[a-zA-Z_0-9]/.test(text[pos])) {
+                    pos++;
+                }
+                push(TokenKind.DebugRecord, start, startLine, startChar);
+            } else {
+                push(TokenKind.Invalid, start, startLine, startChar);
+            }
+            continue;
+        }
+
+        if (ch === '"') {
+            skipQuoted();
+            if (text[pos] === ':') {
+                pos++;
+                push(TokenKind.LabelDef, start, startLine, startChar);
+            } else {
+                push(TokenKind.String, start, startLine, startChar);
+            }
+            continue;
+        }
+
+        if (ch === 'c' && text[pos + 1] === '"') {
+            pos++;
+            skipQuoted();
+            push(TokenKind.CString, start, startLine, startChar);
+            continue;
+        }
+
+        if (/[0-9]/.test(ch) || ((ch === '-' || ch === '+') && /[0-9]/.test(text[pos + 1] ?? ''))) {
+            HEX_RE.lastIndex = pos;
+            const hex = HEX_RE.exec(text);
+            if (hex) {
+                pos += hex[0].length;
+                push(TokenKind.Float, start, startLine, startChar);
+                continue;
+            }
+            NUMBER_RE.lastIndex = pos;
+            const num = NUMBER_RE.exec(text)!;
+            pos += num[0].length;
+            if (IDENT_CHAR.test(text[pos] ?? '') && !num[1] && !num[2]) {
+                // Something like `0abc:` - treat as a word so labels still lex
+                WORD_RE.lastIndex = start;
+                const word = WORD_RE.exec(text);
+                pos = word ? start + word[0].length : pos;
+            }
+            if (text[pos] === ':' && /^[-a-zA-Z$._0-9]+$/.test(text.substring(start, pos))) {
+                pos++;
+                push(TokenKind.LabelDef, start, startLine, startChar);
+            } else {
+                push(num[1] || num[2] ? TokenKind.Float : TokenKind.Integer, start, startLine, startChar);
+            }
+            continue;
+        }
+
+        if (IDENT_START.test(ch)) {
+            WORD_RE.lastIndex = pos;
+            pos += WORD_RE.exec(text)![0].length;
+            const word = text.substring(start, pos);
+            if (word === '...') {
+                push(TokenKind.Punct, start, startLine, startChar);
+            } else if (text[pos] === ':') {
+                pos++;
+                push(TokenKind.LabelDef, start, startLine, startChar);
+            } else {
+                push(TokenKind.Word, start, startLine, startChar);
+            }
+            continue;
+        }
+
+        pos++;
+        push(PUNCT.includes(ch) ? TokenKind.Punct : TokenKind.Invalid, start, startLine, startChar);
+    }
+
+    return { tokens, comments };
+}
+
+/**
+ * Strip the trailing colon from a label definition token
+ */
+export function labelName(token: Token): string {
+    return token.text.endsWith(':') ? token.text.substring(0, token.text.length - 1) : token.text;
+}
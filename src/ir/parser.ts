@@ -0,0 +1,1673 @@
+import * as vscode from 'vscode';
+import { tokenize, labelName, SourceOrigin, Token, TokenKind } from './lexer';
+import { ATOMIC_ORDERINGS } from './keywords';
+import {
+    IRType,
+    TypeKind,
+    FLOAT_TYPE_NAMES,
+    LABEL_TYPE,
+    METADATA_TYPE,
+    PTR_TYPE,
+    VOID_TYPE,
+    intType,
+} from './types';
+import {
+    IRAttributeGroup,
+    IRBasicBlock,
+    IRCallInfo,
+    IRComdat,
+    IRFunction,
+    IRGlobal,
+    IRIdentifier,
+    IRInstruction,
+    IRMetadataAttachment,
+    IRMetadataDefinition,
+    IRMetadataField,
+    IRMetadataValue,
+    IRModule,
+    IROperand,
+    IRParameter,
+    IRTypeDefinition,
+    IRValue,
+    MetadataKind,
+    ReferenceRole,
+    ValueKind,
+} from './ast';
+
+export const BINARY_OPCODES = [
+    'add', 'sub', 'mul', 'udiv', 'sdiv', 'urem', 'srem',
+    'shl', 'lshr', 'ashr', 'and', 'or', 'xor',
+    'fadd', 'fsub', 'fmul', 'fdiv', 'frem',
+];
+
+export const CAST_OPCODES = [
+    'trunc', 'zext', 'sext', 'fptrunc', 'fpext', 'fptoui', 'fptosi', 'uitofp', 'sitofp',
+    'ptrtoint', 'ptrtoaddr', 'inttoptr', 'bitcast', 'addrspacecast',
+];
+
+export const TERMINATOR_OPCODES = [
+    'ret', 'br', 'switch', 'indirectbr', 'invoke', 'callbr', 'resume',
+    'catchswitch', 'catchret', 'cleanupret', 'unreachable',
+];
+
+export const INSTRUCTION_OPCODES = [
+    ...TERMINATOR_OPCODES,
+    'fneg', ...BINARY_OPCODES,
+    'extractelement', 'insertelement', 'shufflevector', 'extractvalue', 'insertvalue',
+    'alloca', 'load', 'store', 'fence', 'cmpxchg', 'atomicrmw', 'getelementptr',
+    ...CAST_OPCODES,
+    'icmp', 'fcmp', 'phi', 'select', 'freeze', 'call', 'va_arg',
+    'landingpad', 'catchpad', 'cleanuppad',
+];
+
+export const FAST_MATH_FLAGS = ['fast', 'nnan', 'ninf', 'nsz', 'arcp', 'contract', 'afn', 'reassoc'];
+
+const CONSTANT_WORDS = ['true', 'false', 'null', 'undef', 'poison', 'zeroinitializer', 'none'];
+
+const SIMPLE_TYPE_WORDS = ['void', 'ptr', 'label', 'metadata', 'token', 'x86_amx', 'x86_mmx', 'opaque', 'target'];
+
+// Attributes whose parenthesized argument is a type, e.g. byval(%struct.T)
+const TYPE_ATTRIBUTES = ['byval', 'byref', 'sret', 'inalloca', 'preallocated', 'elementtype'];
+
+const CALLING_CONVENTION = /^(cc|ccc|fastcc|coldcc|tailcc|swiftcc|swifttailcc|ghccc|anyregcc|webkit_jscc|cfguard_checkcc|intel_ocl_bicc|preserve_\w+|cxx_fast_tlscc|x86_\w+|arm_\w+|aarch64_\w+|msp430_\w+|avr_\w+|ptx_\w+|spir_\w+|amdgpu_\w+|amdgpu_gfx|riscv_\w+|m68k_\w+|win64cc|hhvmcc|hhvm_ccc)$/;
+
+const TOP_LEVEL_WORDS = ['define', 'declare', 'attributes', 'source_filename', 'target', 'module', 'uselistorder', 'uselistorder_bb'];
+
+/**
+ * Error thrown while parsing a single entity; the parser records it and resynchronizes
+ */
+class ParseError extends Error {
+    constructor(message: string, public readonly range: vscode.Range) {
+        super(message);
+    }
+}
+
+/**
+ * Recursive-descent parser over the token stream produced by the lexer
+ */
+class Parser {
+    private readonly tokens: Token[];
+    private readonly module: IRModule;
+    private pos = 0;
+    private functionName: string | undefined;
+
+    constructor(private readonly text: string, private readonly origin: SourceOrigin) {
+        const { tokens, comments } = tokenize(text, origin);
+        this.tokens = tokens;
+        this.module = {
+            types: [],
+            globals: [],
+            functions: [],
+            metadata: [],
+            attributeGroups: [],
+            comdats: [],
+            references: [],
+            errors: [],
+            tokens,
+            comments,
+        };
+    }
+
+    parse(): IRModule {
+        while (!this.atEnd()) {
+            const start = this.pos;
+            try {
+                this.parseTopLevelEntity();
+            } catch (e) {
+                if (!(e instanceof ParseError)) {
+                    throw e;
+                }
+                this.module.errors.push({ message: e.message, range: e.range });
+                this.functionName = undefined;
+                this.skipToTopLevelEntity(start);
+            }
+        }
+        return this.module;
+    }
+
+    // ---- Token helpers ----
+
+    private atEnd(): boolean {
+        return this.pos >= this.tokens.length;
+    }
+
+    private peek(offset = 0): Token | undefined {
+        return this.tokens[this.pos + offset];
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.pos];
+        if (!token) {
+            throw this.error('unexpected end of file');
+        }
+        this.pos++;
+        return token;
+    }
+
+    private isPunct(text: string, offset = 0): boolean {
+        const token = this.peek(offset);
+        return token !== undefined && token.kind === TokenKind.Punct && token.text === text;
+    }
+
+    private isWord(text?: string, offset = 0): boolean {
+        const token = this.peek(offset);
+        return token !== undefined && token.kind === TokenKind.Word && (text === undefined || token.text === text);
+    }
+
+    private isKind(kind: TokenKind, offset = 0): boolean {
+        return this.peek(offset)?.kind === kind;
+    }
+
+    private eatPunct(text: string): boolean {
+        if (this.isPunct(text)) {
+            this.pos++;
+            return true;
+        }
+        return false;
+    }
+
+    private eatWord(text: string): boolean {
+        if (this.isWord(text)) {
+            this.pos++;
+            return true;
+        }
+        return false;
+    }
+
+    private expectPunct(text: string): Token {
+        if (!this.isPunct(text)) {
+            throw this.error(`expected '${text}'`);
+        }
+        return this.next();
+    }
+
+    private expectWord(text: string): Token {
+        if (!this.isWord(text)) {
+            throw this.error(`expected '${text}'`);
+        }
+        return this.next();
+    }
+
+    private expectKind(kind: TokenKind, what: string): Token {
+        if (!this.isKind(kind)) {
+            throw this.error(`expected ${what}`);
+        }
+        return this.next();
+    }
+
+    private error(message: string): ParseError {
+        const token = this.peek() ?? this.tokens[this.tokens.length - 1];
+        const range = token ? token.range : new vscode.Range(this.origin.line, 0, this.origin.line, 0);
+        const found = this.peek() ? `, found '${this.peek()!.text}'` : '';
+        return new ParseError(message + found, range);
+    }
+
+    // True if the token at the offset is the first token on its line
+    private startsLine(offset = 0): boolean {
+        const index = this.pos + offset;
+        const token = this.tokens[index];
+        if (!token) {
+            return true;
+        }
+        return index === 0 || this.tokens[index - 1].range.end.line < token.range.start.line;
+    }
+
+    private rangeFrom(start: Token): vscode.Range {
+        const last = this.tokens[this.pos - 1] ?? start;
+        return new vscode.Range(start.range.start, last.range.end);
+    }
+
+    private textFrom(start: Token): string {
+        const last = this.tokens[this.pos - 1] ?? start;
+        return this.text.substring(start.offset - this.origin.offset, last.end - this.origin.offset);
+    }
+
+    private identifier(token: Token): IRIdentifier {
+        return { name: token.text, range: token.range };
+    }
+
+    private addReference(token: Token, role: ReferenceRole, functionName?: string): void {
+        this.module.references.push({
+            name: token.text,
+            role,
+            range: token.range,
+            functionName,
+        });
+    }
+
+    // Skip a balanced (...) group starting at the current '(' token
+    private skipParenGroup(): void {
+        let depth = 0;
+        do {
+            const token = this.next();
+            if (token.kind === TokenKind.Punct && token.text === '(') {
+                depth++;
+            } else if (token.kind === TokenKind.Punct && token.text === ')') {
+                depth--;
+            }
+        } while (depth > 0);
+    }
+
+    private isTopLevelStart(offset = 0): boolean {
+        const token = this.peek(offset);
+        if (!token) {
+            return false;
+        }
+        switch (token.kind) {
+            case TokenKind.Word:
+                return TOP_LEVEL_WORDS.includes(token.text);
+            case TokenKind.LocalVar:
+                return this.isPunct('=', offset + 1) && this.isWord('type', offset + 2);
+            case TokenKind.GlobalVar:
+            case TokenKind.ComdatVar:
+            case TokenKind.MetadataVar:
+                return this.isPunct('=', offset + 1);
+            default:
+                return false;
+        }
+    }
+
+    private skipToTopLevelEntity(start: number): void {
+        if (this.pos <= start) {
+            this.pos = start + 1;
+        }
+        while (!this.atEnd() && !(this.startsLine() && this.isTopLevelStart())) {
+            this.pos++;
+        }
+    }
+
+    // ---- Top-level entities ----
+
+    private parseTopLevelEntity(): void {
+        const token = this.peek()!;
+        switch (token.kind) {
+            case TokenKind.Word:
+                switch (token.text) {
+                    case 'define':
+                    case 'declare':
+                        this.parseFunction();
+                        return;
+                    case 'attributes':
+                        this.parseAttributeGroup();
+                        return;
+                    case 'source_filename':
+                        this.next();
+                        this.expectPunct('=');
+                        this.module.sourceFilename = unquote(this.expectKind(TokenKind.String, 'string').text);
+                        return;
+                    case 'target': {
+                        this.next();
+                        const what = this.next();
+                        this.expectPunct('=');
+                        const value = unquote(this.expectKind(TokenKind.String, 'string').text);
+                        if (what.text === 'triple') {
+                            this.module.targetTriple = value;
+                        } else if (what.text === 'datalayout') {
+                            this.module.dataLayout = value;
+                        }
+                        return;
+                    }
+                    case 'module':
+                        this.next();
+                        this.expectWord('asm');
+                        this.expectKind(TokenKind.String, 'string');
+                        return;
+                    case 'uselistorder':
+                    case 'uselistorder_bb':
+                        this.next();
+                        while (!this.atEnd() && !this.startsLine()) {
+                            this.next();
+                        }
+                        return;
+                }
+                break;
+            case TokenKind.LocalVar:
+                this.parseTypeDefinition();
+                return;
+            case TokenKind.GlobalVar:
+                this.parseGlobal();
+                return;
+            case TokenKind.ComdatVar:
+                this.parseComdat();
+                return;
+            case TokenKind.MetadataVar:
+                this.parseMetadataDefinition();
+                return;
+        }
+        throw this.error('expected top-level entity');
+    }
+
+    private parseTypeDefinition(): void {
+        const start = this.next();
+        this.expectPunct('=');
+        this.expectWord('type');
+        const type = this.parseType();
+        const definition: IRTypeDefinition = {
+            name: start.text,
+            nameRange: start.range,
+            type,
+            range: this.rangeFrom(start),
+            text: this.textFrom(start),
+        };
+        this.module.types.push(definition);
+    }
+
+    private parseComdat(): void {
+        const start = this.next();
+        this.expectPunct('=');
+        this.expectWord('comdat');
+        const selectionKind = this.next().text;
+        const comdat: IRComdat = {
+            name: start.text,
+            nameRange: start.range,
+            selectionKind,
+            range: this.rangeFrom(start),
+            text: this.textFrom(start),
+        };
+        this.module.comdats.push(comdat);
+    }
+
+    private parseAttributeGroup(): void {
+        const start = this.next();
+        const id = this.expectKind(TokenKind.AttrGroupId, 'attribute group id');
+        this.expectPunct('=');
+        this.expectPunct('{');
+        const attributes: string[] = [];
+        while (!this.isPunct('}')) {
+            attributes.push(this.parseAttribute());
+        }
+        this.next();
+        const group: IRAttributeGroup = {
+            name: id.text,
+            nameRange: id.range,
+            attributes,
+            range: this.rangeFrom(start),
+            text: this.textFrom(start),
+        };
+        this.module.attributeGroups.push(group);
+    }
+
+    private parseMetadataDefinition(): void {
+        const start = this.next();
+        this.expectPunct('=');
+        const node = this.parseMetadata();
+        const definition: IRMetadataDefinition = {
+            name: start.text,
+            nameRange: start.range,
+            isNamed: !/^![0-9]+$/.test(start.text),
+            node,
+            range: this.rangeFrom(start),
+            text: this.textFrom(start),
+        };
+        this.module.metadata.push(definition);
+    }
+
+    private parseGlobal(): void {
+        const start = this.next();
+        this.expectPunct('=');
+
+        const keywords: string[] = [];
+        while (!this.isWord('global') && !this.isWord('constant') && !this.isWord('alias') && !this.isWord('ifunc')) {
+            if (this.atEnd() || this.startsLine()) {
+                throw this.error("expected 'global', 'constant', 'alias' or 'ifunc'");
+            }
+            keywords.push(this.parseAttribute());
+        }
+
+        const kindWord = this.next().text;
+        const kind = kindWord === 'alias' || kindWord === 'ifunc' ? kindWord : 'variable';
+        const valueType = this.parseType();
+        let initializer: IROperand | undefined;
+        if (kind !== 'variable') {
+            this.expectPunct(',');
+            initializer = this.parseTypedValue();
+        } else if (!this.atEnd() && !this.startsLine() && !this.isPunct(',')) {
+            const first = this.peek()!;
+            const value = this.parseValue(valueType);
+            initializer = { type: valueType, value, attributes: [], range: this.rangeFrom(first) };
+        }
+
+        const attributes: string[] = [];
+        const attachments: IRMetadataAttachment[] = [];
+        while (this.isPunct(',') || (this.isKind(TokenKind.AttrGroupId) && !this.startsLine())) {
+            if (this.isKind(TokenKind.AttrGroupId)) {
+                attributes.push(this.parseAttribute());
+                continue;
+            }
+            this.next();
+            if (this.isKind(TokenKind.MetadataVar)) {
+                attachments.push(this.parseAttachment());
+            } else {
+                attributes.push(this.parseAttribute());
+            }
+        }
+
+        const global: IRGlobal = {
+            name: start.text,
+            nameRange: start.range,
+            kind,
+            isConstant: kindWord === 'constant',
+            keywords,
+            valueType,
+            initializer,
+            attributes,
+            attachments,
+            range: this.rangeFrom(start),
+            text: this.textFrom(start),
+        };
+        this.module.globals.push(global);
+    }
+
+    /**
+     * Parse one attribute or keyword: `nounwind`, `align 4`, `byval(%T)`,
+     * `"key"="value"`, `#0`, `comdat($c)`, `section "x"` and the like
+     */
+    private parseAttribute(): string {
+        const start = this.next();
+        switch (start.kind) {
+            case TokenKind.AttrGroupId:
+                this.addReference(start, ReferenceRole.AttributeGroup);
+                return start.text;
+            case TokenKind.String:
+                if (this.eatPunct('=')) {
+                    this.expectKind(TokenKind.String, 'string');
+                }
+                return this.textFrom(start);
+            case TokenKind.Word:
+                break;
+            default:
+                throw new ParseError(`unexpected '${start.text}'`, start.range);
+        }
+
+        const word = start.text;
+        if (this.isPunct('(')) {
+            if (TYPE_ATTRIBUTES.includes(word)) {
+                this.next();
+                this.parseType();
+                this.expectPunct(')');
+            } else if (word === 'comdat') {
+                this.next();
+                const comdat = this.expectKind(TokenKind.ComdatVar, 'comdat name');
+                this.addReference(comdat, ReferenceRole.Comdat);
+                this.expectPunct(')');
+            } else {
+                this.skipParenGroup();
+            }
+        } else if ((word === 'align' || word === 'cc' || word === 'alignstack') && this.isKind(TokenKind.Integer)) {
+            this.next();
+        } else if ((word === 'section' || word === 'partition' || word === 'gc' || word === 'code_model')
+            && this.isKind(TokenKind.String)) {
+            this.next();
+        }
+        return this.textFrom(start);
+    }
+
+    private parseAttachment(): IRMetadataAttachment {
+        const kind = this.expectKind(TokenKind.MetadataVar, 'metadata kind');
+        const value = this.parseMetadata();
+        return { kind: kind.text, kindRange: kind.range, value };
+    }
+
+    // ---- Functions ----
+
+    private parseFunction(): void {
+        const start = this.next();
+        const isDeclaration = start.text === 'declare';
+
+        const keywords: string[] = [];
+        while (!this.isTypeStart()) {
+            if (this.atEnd() || this.isKind(TokenKind.GlobalVar)) {
+                throw this.error('expected return type');
+            }
+            keywords.push(this.parseAttribute());
+        }
+        const returnType = this.parseType();
+        const nameToken = this.expectKind(TokenKind.GlobalVar, 'function name');
+
+        const params: IRParameter[] = [];
+        let varArgs = false;
+        this.expectPunct('(');
+        while (!this.isPunct(')')) {
+            if (this.eatPunct('...')) {
+                varArgs = true;
+                continue;
+            }
+            const paramStart = this.peek()!;
+            const type = this.parseType();
+            const attributes: string[] = [];
+            while (!this.isPunct(',') && !this.isPunct(')') && !this.isKind(TokenKind.LocalVar)) {
+                attributes.push(this.parseAttribute());
+            }
+            const name = this.isKind(TokenKind.LocalVar) ? this.identifier(this.next()) : undefined;
+            // Numbered and unnamed parameters share one sequence
+            const implicitName = name
+                ? undefined
+                : `%${params.filter(p => p.implicitName || /^%[0-9]+$/.test(p.name!.name)).length}`;
+            params.push({ type, name, implicitName, attributes, range: this.rangeFrom(paramStart) });
+            if (!this.isPunct(')')) {
+                this.expectPunct(',');
+            }
+        }
+        this.next();
+
+        const attributes: string[] = [];
+        const attachments: IRMetadataAttachment[] = [];
+        const headerOperands: IROperand[] = [];
+        while (isDeclaration ? !this.atEnd() && !this.startsLine() : !this.isPunct('{')) {
+            if (this.atEnd()) {
+                throw this.error("expected '{'");
+            }
+            if (this.isKind(TokenKind.MetadataVar)) {
+                attachments.push(this.parseAttachment());
+            } else if (this.isWord('personality') || this.isWord('prefix') || this.isWord('prologue')) {
+                const keyword = this.next();
+                headerOperands.push(this.parseTypedValue());
+                attributes.push(this.textFrom(keyword));
+            } else {
+                attributes.push(this.parseAttribute());
+            }
+        }
+
+        const headerRange = this.rangeFrom(start);
+        const headerText = this.textFrom(start);
+        const func: IRFunction = {
+            name: nameToken.text,
+            nameRange: nameToken.range,
+            isDeclaration,
+            keywords,
+            returnType,
+            params,
+            varArgs,
+            attributes,
+            attachments,
+            headerOperands,
+            blocks: [],
+            headerRange,
+            headerText,
+            range: headerRange,
+        };
+
+        if (!isDeclaration) {
+            this.functionName = nameToken.text;
+            this.expectPunct('{');
+            this.parseFunctionBody(func);
+            this.functionName = undefined;
+            func.range = this.rangeFrom(start);
+        }
+        this.module.functions.push(func);
+    }
+
+    private parseFunctionBody(func: IRFunction): void {
+        // Unnamed parameters and an unlabelled entry block share one numbering sequence
+        const entryNumber = func.params.filter(p => p.implicitName || /^%[0-9]+$/.test(p.name!.name)).length;
+        // The next number, which an unnamed block or instruction with a result takes
+        let nextNumber = entryNumber;
+        let block: IRBasicBlock | undefined;
+        // After a terminator an instruction without a label starts an unlabelled
+        // block, as in older llvm-dis output that writes `; <label>:5` as a comment
+        let terminated = false;
+
+        while (!this.eatPunct('}')) {
+            if (this.atEnd() || (this.startsLine() && this.isTopLevelStart())) {
+                this.module.errors.push({ message: "expected '}' at end of function", range: func.nameRange });
+                return;
+            }
+            const token = this.peek()!;
+            if (token.kind === TokenKind.LabelDef) {
+                this.next();
+                const name = labelName(token);
+                block = {
+                    name,
+                    label: { name, range: new vscode.Range(token.range.start, token.range.end.translate(0, -1)) },
+                    instructions: [],
+                    range: token.range,
+                };
+                func.blocks.push(block);
+                terminated = false;
+                if (/^[0-9]+$/.test(name)) {
+                    nextNumber = parseInt(name, 10) + 1;
+                }
+                continue;
+            }
+            if (token.kind === TokenKind.Word && token.text === 'uselistorder') {
+                while (!this.atEnd() && (this.peek() === token || !this.startsLine())) {
+                    this.next();
+                }
+                continue;
+            }
+            if (!block || terminated) {
+                block = { name: String(nextNumber++), instructions: [], range: token.range };
+                func.blocks.push(block);
+                terminated = false;
+            }
+
+            const start = this.pos;
+            try {
+                const instruction = this.parseInstruction();
+                if (instruction.result && /^%[0-9]+$/.test(instruction.result.name)) {
+                    nextNumber = parseInt(instruction.result.name.substring(1), 10) + 1;
+                } else if (!instruction.result && producesImplicitValue(instruction)) {
+                    instruction.implicitName = `%${nextNumber++}`;
+                }
+                block.instructions.push(instruction);
+                block.range = new vscode.Range(block.range.start, instruction.range.end);
+                terminated = TERMINATOR_OPCODES.includes(instruction.opcode);
+            } catch (e) {
+                if (!(e instanceof ParseError)) {
+                    throw e;
+                }
+                this.module.errors.push({ message: e.message, range: e.range });
+                if (!this.skipToInstruction(start)) {
+                    this.module.errors.push({ message: "expected '}' at end of function", range: func.nameRange });
+                    return;
+                }
+            }
+        }
+    }
+
+    private isInstructionStart(): boolean {
+        const token = this.peek();
+        if (!token) {
+            return false;
+        }
+        switch (token.kind) {
+            case TokenKind.LabelDef:
+            case TokenKind.DebugRecord:
+                return true;
+            case TokenKind.LocalVar:
+                return this.isPunct('=', 1);
+            case TokenKind.Word:
+                return INSTRUCTION_OPCODES.includes(token.text)
+                    || token.text === 'tail' || token.text === 'musttail' || token.text === 'notail';
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Skip past a broken instruction. Returns false if the function body ends
+     * without a closing brace, i.e. the next top-level entity was reached.
+     */
+    private skipToInstruction(start: number): boolean {
+        if (this.pos <= start) {
+            this.pos = start + 1;
+        }
+        while (!this.atEnd() && !this.isPunct('}') && !(this.startsLine() && this.isInstructionStart())) {
+            if (this.startsLine() && this.isTopLevelStart()) {
+                return false;
+            }
+            this.pos++;
+        }
+        return true;
+    }
+
+    // ---- Instructions ----
+
+    private parseInstruction(): IRInstruction {
+        const start = this.peek()!;
+        let result: IRIdentifier | undefined;
+        if (start.kind === TokenKind.LocalVar && this.isPunct('=', 1)) {
+            result = this.identifier(this.next());
+            this.next();
+        }
+
+        const instruction: IRInstruction = {
+            opcode: '',
+            result,
+            operands: [],
+            flags: [],
+            attachments: [],
+            range: start.range,
+            text: '',
+        };
+
+        if (this.isKind(TokenKind.DebugRecord)) {
+            this.parseDebugRecord(instruction);
+        } else {
+            const opcodeToken = this.expectKind(TokenKind.Word, 'instruction opcode');
+            let opcode = opcodeToken.text;
+            if (opcode === 'tail' || opcode === 'musttail' || opcode === 'notail') {
+                instruction.flags.push(opcode);
+                opcode = this.expectWord('call').text;
+            }
+            instruction.opcode = opcode;
+            this.parseInstructionBody(instruction, opcodeToken);
+            this.parseInstructionTrailer(instruction);
+        }
+
+        instruction.range = this.rangeFrom(start);
+        instruction.text = this.textFrom(start);
+        return instruction;
+    }
+
+    private parseInstructionBody(inst: IRInstruction, opcodeToken: Token): void {
+        const op = inst.opcode;
+
+        if (BINARY_OPCODES.includes(op) || op === 'icmp' || op === 'fcmp') {
+            this.parseFlags(inst);
+            if (op === 'icmp' || op === 'fcmp') {
+                inst.predicate = this.expectKind(TokenKind.Word, 'comparison predicate').text;
+            }
+            inst.type = this.parseType();
+            inst.operands.push(this.parseOperandOfType(inst.type));
+            this.expectPunct(',');
+            inst.operands.push(this.parseOperandOfType(inst.type));
+            return;
+        }
+
+        if (CAST_OPCODES.includes(op)) {
+            this.parseFlags(inst);
+            inst.operands.push(this.parseTypedValue());
+            this.expectWord('to');
+            inst.type = this.parseType();
+            return;
+        }
+
+        switch (op) {
+            case 'fneg':
+            case 'freeze':
+                this.parseFlags(inst);
+                inst.operands.push(this.parseTypedValue());
+                inst.type = inst.operands[0].type;
+                return;
+
+            case 'select':
+                this.parseFlags(inst);
+                this.parseTypedValueList(inst, 3);
+                inst.type = inst.operands[1].type;
+                return;
+
+            case 'extractelement':
+                this.parseTypedValueList(inst, 2);
+                return;
+
+            case 'insertelement':
+            case 'shufflevector':
+                this.parseTypedValueList(inst, 3);
+                return;
+
+            case 'extractvalue':
+            case 'insertvalue':
+                this.parseTypedValueList(inst, op === 'extractvalue' ? 1 : 2);
+                inst.type = inst.operands[0].type;
+                inst.indices = [];
+                while (this.isPunct(',') && this.isKind(TokenKind.Integer, 1)) {
+                    this.next();
+                    inst.indices.push(parseInt(this.next().text, 10));
+                }
+                return;
+
+            case 'phi':
+                this.parseFlags(inst);
+                inst.type = this.parseType();
+                inst.incoming = [];
+                for (;;) {
+                    this.expectPunct('[');
+                    const valueStart = this.peek()!;
+                    const value = this.parseValue(inst.type);
+                    inst.operands.push({ type: inst.type, value, attributes: [], range: this.rangeFrom(valueStart) });
+                    this.expectPunct(',');
+                    const blockStart = this.peek()!;
+                    const block = this.parseValue(LABEL_TYPE);
+                    inst.operands.push({ type: LABEL_TYPE, value: block, attributes: [], range: this.rangeFrom(blockStart) });
+                    this.expectPunct(']');
+                    inst.incoming.push({ value, block });
+                    if (!this.isPunct(',') || !this.isPunct('[', 1)) {
+                        return;
+                    }
+                    this.next();
+                }
+
+            case 'alloca':
+                this.parseFlags(inst);
+                inst.type = this.parseType();
+                if (this.isPunct(',') && this.isTypeStart(1)) {
+                    this.next();
+                    inst.operands.push(this.parseTypedValue());
+                }
+                return;
+
+            case 'load':
+                this.parseFlags(inst);
+                inst.type = this.parseType();
+                this.expectPunct(',');
+                inst.operands.push(this.parseTypedValue());
+                this.parseAtomicOrdering(inst);
+                return;
+
+            case 'store':
+                this.parseFlags(inst);
+                this.parseTypedValueList(inst, 2);
+                inst.type = inst.operands[0].type;
+                this.parseAtomicOrdering(inst);
+                return;
+
+            case 'getelementptr':
+                this.parseFlags(inst);
+                inst.type = this.parseType();
+                this.expectPunct(',');
+                inst.operands.push(this.parseTypedValue());
+                while (this.isPunct(',') && (this.isTypeStart(1) || this.isWord('inrange', 1))) {
+                    this.next();
+                    if (this.eatWord('inrange')) {
+                        inst.flags.push('inrange');
+                    }
+                    inst.operands.push(this.parseTypedValue());
+                }
+                return;
+
+            case 'fence':
+                this.parseAtomicOrdering(inst);
+                return;
+
+            case 'atomicrmw':
+                this.parseFlags(inst);
+                inst.predicate = this.expectKind(TokenKind.Word, 'atomic operation').text;
+                this.parseTypedValueList(inst, 2);
+                inst.type = inst.operands[1].type;
+                this.parseAtomicOrdering(inst);
+                return;
+
+            case 'cmpxchg':
+                this.parseFlags(inst);
+                this.parseTypedValueList(inst, 3);
+                inst.type = inst.operands[1].type;
+                this.parseAtomicOrdering(inst);
+                return;
+
+            case 'va_arg':
+                inst.operands.push(this.parseTypedValue());
+                this.expectPunct(',');
+                inst.type = this.parseType();
+                return;
+
+            case 'ret':
+                if (this.eatWord('void')) {
+                    inst.type = VOID_TYPE;
+                    return;
+                }
+                inst.operands.push(this.parseTypedValue());
+                inst.type = inst.operands[0].type;
+                return;
+
+            case 'br':
+                inst.operands.push(this.parseTypedValue());
+                if (this.isPunct(',') && this.isWord('label', 1)) {
+                    this.next();
+                    inst.operands.push(this.parseTypedValue());
+                    this.expectPunct(',');
+                    inst.operands.push(this.parseTypedValue());
+                }
+                return;
+
+            case 'switch': {
+                inst.operands.push(this.parseTypedValue());
+                inst.type = inst.operands[0].type;
+                this.expectPunct(',');
+                inst.operands.push(this.parseTypedValue());
+                this.expectPunct('[');
+                inst.cases = [];
+                while (!this.eatPunct(']')) {
+                    const value = this.parseTypedValue();
+                    this.expectPunct(',');
+                    const dest = this.parseTypedValue();
+                    inst.operands.push(value, dest);
+                    inst.cases.push({ value, dest: dest.value });
+                }
+                return;
+            }
+
+            case 'indirectbr':
+                inst.operands.push(this.parseTypedValue());
+                this.expectPunct(',');
+                this.expectPunct('[');
+                while (!this.eatPunct(']')) {
+                    inst.operands.push(this.parseTypedValue());
+                    this.eatPunct(',');
+                }
+                return;
+
+            case 'unreachable':
+                return;
+
+            case 'resume':
+                inst.operands.push(this.parseTypedValue());
+                return;
+
+            case 'call':
+            case 'invoke':
+            case 'callbr':
+                this.parseCall(inst);
+                return;
+
+            case 'landingpad':
+                inst.type = this.parseType();
+                while (this.isWord('cleanup') || this.isWord('catch') || this.isWord('filter')) {
+                    const clause = this.next().text;
+                    if (clause !== 'cleanup') {
+                        inst.operands.push(this.parseTypedValue());
+                    }
+                    inst.flags.push(clause);
+                }
+                return;
+
+            case 'catchpad':
+            case 'cleanuppad':
+                this.expectWord('within');
+                this.parseWithinToken(inst);
+                this.expectPunct('[');
+                while (!this.eatPunct(']')) {
+                    inst.operands.push(this.parseTypedValue());
+                    this.eatPunct(',');
+                }
+                return;
+
+            case 'catchswitch':
+                this.expectWord('within');
+                this.parseWithinToken(inst);
+                this.expectPunct('[');
+                while (!this.eatPunct(']')) {
+                    inst.operands.push(this.parseTypedValue());
+                    this.eatPunct(',');
+                }
+                this.expectWord('unwind');
+                this.parseUnwindDest(inst);
+                return;
+
+            case 'catchret':
+                this.expectWord('from');
+                this.parseWithinToken(inst);
+                this.expectWord('to');
+                inst.operands.push(this.parseTypedValue());
+                return;
+
+            case 'cleanupret':
+                this.expectWord('from');
+                this.parseWithinToken(inst);
+                this.expectWord('unwind');
+                this.parseUnwindDest(inst);
+                return;
+        }
+
+        throw new ParseError(`unknown instruction '${op}'`, opcodeToken.range);
+    }
+
+    private parseCall(inst: IRInstruction): void {
+        const returnAttributes: string[] = [];
+        let callingConv: string | undefined;
+        while (!this.isTypeStart()) {
+            if (this.isWord() && FAST_MATH_FLAGS.includes(this.peek()!.text)) {
+                inst.flags.push(this.next().text);
+            } else if (this.isWord() && CALLING_CONVENTION.test(this.peek()!.text)) {
+                callingConv = this.parseAttribute();
+            } else {
+                returnAttributes.push(this.parseAttribute());
+            }
+        }
+
+        const calleeType = this.parseType();
+        inst.type = calleeType.kind === TypeKind.Function ? calleeType.returnType : calleeType;
+        const calleeStart = this.peek()!;
+        const callee = this.parseValue(PTR_TYPE);
+        inst.operands.push({ type: PTR_TYPE, value: callee, attributes: [], range: this.rangeFrom(calleeStart) });
+
+        const args: IROperand[] = [];
+        this.expectPunct('(');
+        while (!this.isPunct(')')) {
+            const arg = this.parseTypedValue(true);
+            args.push(arg);
+            inst.operands.push(arg);
+            if (!this.isPunct(')')) {
+                this.expectPunct(',');
+            }
+        }
+        this.next();
+
+        const functionAttributes: string[] = [];
+        while (!this.atEnd() && !this.startsLine() && !this.isPunct(',') && !this.isPunct('[')
+            && !this.isWord('to') && !this.isPunct('}')) {
+            functionAttributes.push(this.parseAttribute());
+        }
+
+        // Operand bundles: [ "deopt"(i32 1), "funclet"(token %pad) ]
+        if (this.isPunct('[') && !this.startsLine()) {
+            this.next();
+            while (!this.eatPunct(']')) {
+                this.expectKind(TokenKind.String, 'operand bundle tag');
+                this.expectPunct('(');
+                while (!this.eatPunct(')')) {
+                    inst.operands.push(this.parseTypedValue());
+                    this.eatPunct(',');
+                }
+                this.eatPunct(',');
+            }
+        }
+
+        if (inst.opcode === 'invoke') {
+            this.expectWord('to');
+            inst.operands.push(this.parseTypedValue());
+            this.expectWord('unwind');
+            inst.operands.push(this.parseTypedValue());
+        } else if (inst.opcode === 'callbr') {
+            this.expectWord('to');
+            inst.operands.push(this.parseTypedValue());
+            this.expectPunct('[');
+            while (!this.eatPunct(']')) {
+                inst.operands.push(this.parseTypedValue());
+                this.eatPunct(',');
+            }
+        }
+
+        const call: IRCallInfo = {
+            callee,
+            calleeType,
+            args,
+            callingConv,
+            returnAttributes,
+            functionAttributes,
+        };
+        inst.call = call;
+    }
+
+    // The token operand of catchpad/cleanuppad/catchswitch/catchret/cleanupret, or 'none'
+    private parseWithinToken(inst: IRInstruction): void {
+        const start = this.peek()!;
+        if (this.eatWord('none')) {
+            return;
+        }
+        const value = this.parseValue({ kind: TypeKind.Token });
+        inst.operands.push({ type: { kind: TypeKind.Token }, value, attributes: [], range: this.rangeFrom(start) });
+    }
+
+    private parseUnwindDest(inst: IRInstruction): void {
+        if (this.eatWord('to')) {
+            this.expectWord('caller');
+            return;
+        }
+        inst.operands.push(this.parseTypedValue());
+    }
+
+    // Collect leading keyword flags such as nsw, inbounds, volatile or fast-math flags
+    private parseFlags(inst: IRInstruction): void {
+        while (this.isWord() && !this.isTypeStart() && FLAG_WORDS.has(this.peek()!.text)) {
+            inst.flags.push(this.next().text);
+        }
+        if (this.isWord('inrange') && this.isPunct('(', 1)) {
+            const start = this.next();
+            this.skipParenGroup();
+            inst.flags.push(this.textFrom(start));
+        }
+    }
+
+    // [syncscope("...")] <ordering> [<failure ordering>]
+    private parseAtomicOrdering(inst: IRInstruction): void {
+        if (this.isWord('syncscope')) {
+            const start = this.next();
+            this.skipParenGroup();
+            inst.flags.push(this.textFrom(start));
+        }
+        while (this.isWord() && ATOMIC_ORDERINGS.includes(this.peek()!.text)) {
+            inst.flags.push(this.next().text);
+        }
+    }
+
+    private parseTypedValueList(inst: IRInstruction, count: number): void {
+        for (let i = 0; i < count; i++) {
+            if (i > 0) {
+                this.expectPunct(',');
+            }
+            inst.operands.push(this.parseTypedValue());
+        }
+    }
+
+    // Trailing `, align N`, `, !dbg !0` and similar clauses
+    private parseInstructionTrailer(inst: IRInstruction): void {
+        while (this.isPunct(',')) {
+            const next = this.peek(1);
+            if (next?.kind === TokenKind.MetadataVar) {
+                this.next();
+                inst.attachments.push(this.parseAttachment());
+            } else if (next?.kind === TokenKind.Word && (next.text === 'align' || next.text === 'addrspace')) {
+                this.next();
+                inst.flags.push(this.parseAttribute());
+            } else {
+                break;
+            }
+        }
+    }
+
+    private parseDebugRecord(inst: IRInstruction): void {
+        inst.opcode = this.next().text;
+        this.expectPunct('(');
+        while (!this.isPunct(')')) {
+            const start = this.peek()!;
+            if (this.isTypeStart()) {
+                inst.operands.push(this.parseTypedValue());
+            } else {
+                const metadata = this.parseMetadata();
+                inst.operands.push({
+                    type: METADATA_TYPE,
+                    value: { kind: ValueKind.Metadata, text: metadata.text, range: metadata.range, metadata },
+                    attributes: [],
+                    range: this.rangeFrom(start),
+                });
+            }
+            if (!this.isPunct(')')) {
+                this.expectPunct(',');
+            }
+        }
+        this.next();
+    }
+
+    // ---- Types ----
+
+    private isTypeStart(offset = 0): boolean {
+        const token = this.peek(offset);
+        if (!token) {
+            return false;
+        }
+        switch (token.kind) {
+            case TokenKind.LocalVar:
+                return true;
+            case TokenKind.Punct:
+                return token.text === '<' || token.text === '[' || token.text === '{';
+            case TokenKind.Word:
+                return /^i[0-9]+$/.test(token.text)
+                    || FLOAT_TYPE_NAMES.includes(token.text)
+                    || SIMPLE_TYPE_WORDS.includes(token.text);
+            default:
+                return false;
+        }
+    }
+
+    private parseType(): IRType {
+        let type = this.parseBaseType();
+
+        for (;;) {
+            if (this.isPunct('*')) {
+                this.next();
+                type = { kind: TypeKind.Pointer, addrSpace: 0, pointee: type };
+            } else if (this.isWord('addrspace') && this.isPunct('(', 1) && this.isPunct('*', 4)) {
+                this.next();
+                this.next();
+                const space = parseInt(this.expectKind(TokenKind.Integer, 'address space').text, 10);
+                this.expectPunct(')');
+                this.expectPunct('*');
+                type = { kind: TypeKind.Pointer, addrSpace: space, pointee: type };
+            } else if (this.isPunct('(') && type.kind !== TypeKind.Label && type.kind !== TypeKind.Metadata) {
+                this.next();
+                const params: IRType[] = [];
+                let varArgs = false;
+                while (!this.isPunct(')')) {
+                    if (this.eatPunct('...')) {
+                        varArgs = true;
+                    } else {
+                        params.push(this.parseType());
+                        // Parameter attributes may appear in legacy function types
+                        while (!this.isPunct(',') && !this.isPunct(')')) {
+                            this.parseAttribute();
+                        }
+                    }
+                    if (!this.isPunct(')')) {
+                        this.expectPunct(',');
+                    }
+                }
+                this.next();
+                type = { kind: TypeKind.Function, returnType: type, params, varArgs };
+            } else {
+                return type;
+            }
+        }
+    }
+
+    private parseBaseType(): IRType {
+        const token = this.next();
+        switch (token.kind) {
+            case TokenKind.LocalVar:
+                this.addReference(token, ReferenceRole.Type);
+                return { kind: TypeKind.Named, name: token.text };
+
+            case TokenKind.Punct:
+                if (token.text === '[') {
+                    const count = parseInt(this.expectKind(TokenKind.Integer, 'array size').text, 10);
+                    this.expectWord('x');
+                    const element = this.parseType();
+                    this.expectPunct(']');
+                    return { kind: TypeKind.Array, count, element };
+                }
+                if (token.text === '{') {
+                    return { kind: TypeKind.Struct, elements: this.parseStructBody(), packed: false };
+                }
+                if (token.text === '<') {
+                    if (this.eatPunct('{')) {
+                        const elements = this.parseStructBody();
+                        this.expectPunct('>');
+                        return { kind: TypeKind.Struct, elements, packed: true };
+                    }
+                    const scalable = this.eatWord('vscale');
+                    if (scalable) {
+                        this.expectWord('x');
+                    }
+                    const count = parseInt(this.expectKind(TokenKind.Integer, 'vector size').text, 10);
+                    this.expectWord('x');
+                    const element = this.parseType();
+                    this.expectPunct('>');
+                    return { kind: TypeKind.Vector, count, element, scalable };
+                }
+                break;
+
+            case TokenKind.Word: {
+                const word = token.text;
+                if (/^i[0-9]+$/.test(word)) {
+                    return intType(parseInt(word.substring(1), 10));
+                }
+                if (FLOAT_TYPE_NAMES.includes(word)) {
+                    return { kind: TypeKind.Float, name: word };
+                }
+                switch (word) {
+                    case 'void':
+                        return VOID_TYPE;
+                    case 'label':
+                        return LABEL_TYPE;
+                    case 'metadata':
+                        return METADATA_TYPE;
+                    case 'token':
+                        return { kind: TypeKind.Token };
+                    case 'x86_amx':
+                        return { kind: TypeKind.X86Amx };
+                    case 'x86_mmx':
+                        return { kind: TypeKind.X86Mmx };
+                    case 'opaque':
+                        return { kind: TypeKind.Opaque };
+                    case 'ptr': {
+                        let addrSpace = 0;
+                        if (this.isWord('addrspace') && this.isPunct('(', 1)) {
+                            this.next();
+                            this.next();
+                            addrSpace = parseInt(this.expectKind(TokenKind.Integer, 'address space').text, 10);
+                            this.expectPunct(')');
+                        }
+                        return { kind: TypeKind.Pointer, addrSpace };
+                    }
+                    case 'target': {
+                        this.expectPunct('(');
+                        const name = unquote(this.expectKind(TokenKind.String, 'target type name').text);
+                        const params: IRType[] = [];
+                        while (this.eatPunct(',')) {
+                            if (this.isKind(TokenKind.Integer)) {
+                                this.next();
+                            } else {
+                                params.push(this.parseType());
+                            }
+                        }
+                        this.expectPunct(')');
+                        return { kind: TypeKind.TargetExt, name, params };
+                    }
+                }
+                break;
+            }
+        }
+        throw new ParseError(`expected type, found '${token.text}'`, token.range);
+    }
+
+    private parseStructBody(): IRType[] {
+        const elements: IRType[] = [];
+        while (!this.eatPunct('}')) {
+            elements.push(this.parseType());
+            if (!this.isPunct('}')) {
+                this.expectPunct(',');
+            }
+        }
+        return elements;
+    }
+
+    // ---- Values ----
+
+    /**
+     * Parse `<type> [attributes] <value>`. Attributes are only allowed for call arguments.
+     */
+    private parseTypedValue(allowAttributes = false): IROperand {
+        const start = this.peek();
+        if (!start) {
+            throw this.error('expected typed value');
+        }
+        const type = this.parseType();
+        const attributes: string[] = [];
+        if (allowAttributes && type.kind !== TypeKind.Metadata) {
+            while ((this.isWord() && !this.isValueWord() && !this.isTypeStart())
+                || (this.isKind(TokenKind.String) && this.isPunct('=', 1))) {
+                attributes.push(this.parseAttribute());
+            }
+        }
+        const value = this.parseValue(type);
+        return { type, value, attributes, range: this.rangeFrom(start) };
+    }
+
+    private parseOperandOfType(type: IRType): IROperand {
+        const start = this.peek();
+        if (!start) {
+            throw this.error('expected value');
+        }
+        const value = this.parseValue(type);
+        return { type, value, attributes: [], range: this.rangeFrom(start) };
+    }
+
+    // Words that begin a value rather than a parameter attribute
+    private isValueWord(): boolean {
+        const word = this.peek()!.text;
+        return CONSTANT_WORDS.includes(word)
+            || CONSTANT_EXPR_WORDS.has(word)
+            || word === 'asm' || word === 'blockaddress' || word === 'dso_local_equivalent'
+            || word === 'no_cfi' || word === 'splat';
+    }
+
+    private parseValue(type: IRType): IRValue {
+        const token = this.peek();
+        if (!token) {
+            throw this.error('expected value');
+        }
+
+        if (type.kind === TypeKind.Metadata) {
+            const metadata = this.parseMetadataOperand();
+            return { kind: ValueKind.Metadata, text: metadata.text, range: metadata.range, metadata };
+        }
+
+        switch (token.kind) {
+            case TokenKind.LocalVar:
+                this.next();
+                this.addReference(
+                    token,
+                    type.kind === TypeKind.Label ? ReferenceRole.Label : ReferenceRole.Value,
+                    this.functionName
+                );
+                return { kind: ValueKind.Local, text: token.text, range: token.range, name: token.text };
+
+            case TokenKind.GlobalVar:
+                this.next();
+                this.addReference(token, ReferenceRole.Value);
+                return { kind: ValueKind.Global, text: token.text, range: token.range, name: token.text };
+
+            case TokenKind.Integer:
+            case TokenKind.Float:
+            case TokenKind.CString:
+                this.next();
+                return { kind: ValueKind.Constant, text: token.text, range: token.range };
+
+            case TokenKind.Punct:
+                if (token.text === '{' || token.text === '[' || token.text === '<') {
+                    return this.parseAggregate();
+                }
+                break;
+
+            case TokenKind.Word:
+                return this.parseWordValue();
+        }
+        throw this.error('expected value');
+    }
+
+    private parseWordValue(): IRValue {
+        const start = this.next();
+        const word = start.text;
+
+        if (CONSTANT_WORDS.includes(word)) {
+            return { kind: ValueKind.Constant, text: word, range: start.range };
+        }
+
+        if (word === 'asm') {
+            while (this.isWord()) {
+                this.next();
+            }
+            this.expectKind(TokenKind.String, 'inline asm string');
+            this.expectPunct(',');
+            this.expectKind(TokenKind.String, 'inline asm constraints');
+            return { kind: ValueKind.InlineAsm, text: this.textFrom(start), range: this.rangeFrom(start) };
+        }
+
+        if (word === 'blockaddress') {
+            this.expectPunct('(');
+            const func = this.expectKind(TokenKind.GlobalVar, 'function name');
+            this.addReference(func, ReferenceRole.Value);
+            this.expectPunct(',');
+            const block = this.expectKind(TokenKind.LocalVar, 'block label');
+            this.addReference(block, ReferenceRole.Label, func.text);
+            this.expectPunct(')');
+            const operands: IROperand[] = [
+                { type: PTR_TYPE, value: { kind: ValueKind.Global, text: func.text, range: func.range, name: func.text }, attributes: [], range: func.range },
+                { type: LABEL_TYPE, value: { kind: ValueKind.Local, text: block.text, range: block.range, name: block.text }, attributes: [], range: block.range },
+            ];
+            return { kind: ValueKind.BlockAddress, text: this.textFrom(start), range: this.rangeFrom(start), operands };
+        }
+
+        if (word === 'dso_local_equivalent' || word === 'no_cfi') {
+            const operand = this.parseOperandOfType(PTR_TYPE);
+            return {
+                kind: ValueKind.ConstantExpr,
+                opcode: word,
+                text: this.textFrom(start),
+                range: this.rangeFrom(start),
+                operands: [operand],
+            };
+        }
+
+        if (word === 'splat') {
+            this.expectPunct('(');
+            const operand = this.parseTypedValue();
+            this.expectPunct(')');
+            return {
+                kind: ValueKind.ConstantExpr,
+                opcode: word,
+                text: this.textFrom(start),
+                range: this.rangeFrom(start),
+                operands: [operand],
+            };
+        }
+
+        if (CONSTANT_EXPR_WORDS.has(word)) {
+            const operands: IROperand[] = [];
+            while (this.isWord() && !this.isPunct('(')) {
+                // Flags and icmp/fcmp predicates
+                this.next();
+            }
+            if (this.isWord('inrange')) {
+                this.next();
+                this.skipParenGroup();
+            }
+            this.expectPunct('(');
+            if (word === 'getelementptr') {
+                this.parseType();
+                this.expectPunct(',');
+            }
+            while (!this.isPunct(')')) {
+                this.eatWord('inrange');
+                operands.push(this.parseTypedValue());
+                if (this.eatWord('to')) {
+                    this.parseType();
+                } else if (!this.isPunct(')')) {
+                    this.expectPunct(',');
+                }
+            }
+            this.next();
+            return {
+                kind: ValueKind.ConstantExpr,
+                opcode: word,
+                text: this.textFrom(start),
+                range: this.rangeFrom(start),
+                operands,
+            };
+        }
+
+        throw new ParseError(`expected value, found '${word}'`, start.range);
+    }
+
+    private parseAggregate(): IRValue {
+        const start = this.next();
+        let close = start.text === '{' ? '}' : start.text === '[' ? ']' : '>';
+        if (start.text === '<' && this.eatPunct('{')) {
+            close = '}';
+        }
+        const operands: IROperand[] = [];
+        while (!this.eatPunct(close)) {
+            operands.push(this.parseTypedValue());
+            if (!this.isPunct(close)) {
+                this.expectPunct(',');
+            }
+        }
+        if (start.text === '<' && close === '}') {
+            this.expectPunct('>');
+        }
+        return { kind: ValueKind.Aggregate, text: this.textFrom(start), range: this.rangeFrom(start), operands };
+    }
+
+    // ---- Metadata ----
+
+    /**
+     * Parse a metadata node or reference: !0, !"str", !{...}, distinct !DI...(...)
+     */
+    private parseMetadata(): IRMetadataValue {
+        const start = this.peek();
+        if (!start) {
+            throw this.error('expected metadata');
+        }
+        const distinct = this.eatWord('distinct');
+        const token = this.next();
+
+        if (token.kind === TokenKind.MetadataVar) {
+            if (this.isPunct('(')) {
+                return this.parseSpecializedNode(start, token, distinct);
+            }
+            this.addReference(token, ReferenceRole.Metadata);
+            return { kind: MetadataKind.Reference, text: token.text, range: token.range, name: token.text };
+        }
+
+        if (token.kind === TokenKind.Punct && token.text === '!') {
+            if (this.isKind(TokenKind.String)) {
+                this.next();
+                return { kind: MetadataKind.String, text: this.textFrom(token), range: this.rangeFrom(token) };
+            }
+            this.expectPunct('{');
+            const elements: IRMetadataValue[] = [];
+            while (!this.eatPunct('}')) {
+                elements.push(this.parseMetadataOperand());
+                if (!this.isPunct('}')) {
+                    this.expectPunct(',');
+                }
+            }
+            return {
+                kind: MetadataKind.Tuple,
+                text: this.textFrom(start),
+                range: this.rangeFrom(start),
+                elements,
+                distinct,
+            };
+        }
+
+        throw new ParseError(`expected metadata, found '${token.text}'`, token.range);
+    }
+
+    // An element of a tuple or a metadata call argument: metadata, a typed value or null
+    private parseMetadataOperand(): IRMetadataValue {
+        const start = this.peek();
+        if (!start) {
+            throw this.error('expected metadata');
+        }
+        if (this.isTypeStart()) {
+            const operand = this.parseTypedValue();
+            return { kind: MetadataKind.Value, text: this.textFrom(start), range: this.rangeFrom(start), operand };
+        }
+        if (this.isPunct('!') || this.isKind(TokenKind.MetadataVar) || this.isWord('distinct')) {
+            return this.parseMetadata();
+        }
+        return this.parseMetadataLiteral();
+    }
+
+    private parseSpecializedNode(start: Token, name: Token, distinct: boolean): IRMetadataValue {
+        this.expectPunct('(');
+        const elements: IRMetadataValue[] = [];
+        const fields: IRMetadataField[] = [];
+        while (!this.isPunct(')')) {
+            if (this.isKind(TokenKind.LabelDef)) {
+                const key = this.next();
+                const value = this.parseMetadataOperand();
+                fields.push({
+                    key: labelName(key),
+                    keyRange: new vscode.Range(key.range.start, key.range.end.translate(0, -1)),
+                    value,
+                });
+            } else {
+                elements.push(this.parseMetadataOperand());
+            }
+            if (!this.isPunct(')')) {
+                this.expectPunct(',');
+            }
+        }
+        this.next();
+        return {
+            kind: MetadataKind.Specialized,
+            text: this.textFrom(start),
+            range: this.rangeFrom(start),
+            nodeName: name.text.substring(1),
+            elements,
+            fields,
+            distinct,
+        };
+    }
+
+    // null, 42, -1, "str", true, DW_TAG_member, DIFlagPublic | DIFlagPrototyped
+    private parseMetadataLiteral(): IRMetadataValue {
+        const start = this.next();
+        if (start.kind !== TokenKind.Word && start.kind !== TokenKind.Integer
+            && start.kind !== TokenKind.Float && start.kind !== TokenKind.String) {
+            throw new ParseError(`unexpected '${start.text}' in metadata`, start.range);
+        }
+        while (this.isPunct('|')) {
+            this.next();
+            this.next();
+        }
+        return { kind: MetadataKind.Literal, text: this.textFrom(start), range: this.rangeFrom(start) };
+    }
+}
+
+const FLAG_WORDS = new Set([
+    ...FAST_MATH_FLAGS,
+    'nuw', 'nsw', 'exact', 'disjoint', 'nneg', 'samesign', 'inbounds', 'nusw',
+    'volatile', 'atomic', 'weak', 'inalloca',
+]);
+
+const CONSTANT_EXPR_WORDS = new Set([
+    ...CAST_OPCODES, ...BINARY_OPCODES,
+    'getelementptr', 'extractelement', 'insertelement', 'shufflevector', 'icmp', 'fcmp', 'select',
+]);
+
+// Instructions that never produce a value
+const VOID_OPCODES = new Set([
+    'store', 'fence', 'br', 'switch', 'indirectbr', 'resume', 'unreachable', 'catchret', 'cleanupret', 'ret',
+]);
+
+/**
+ * Instructions with a non-void result and no written name still consume a
+ * number. Calls are void when their return type is; debug records such as
+ * `#dbg_value` are not instructions and are never numbered.
+ */
+export function producesImplicitValue(inst: IRInstruction): boolean {
+    if (VOID_OPCODES.has(inst.opcode) || inst.opcode.startsWith('#')) {
+        return false;
+    }
+    if (inst.opcode === 'call' || inst.opcode === 'invoke' || inst.opcode === 'callbr') {
+        return inst.type !== undefined && inst.type.kind !== TypeKind.Void;
+    }
+    return true;
+}
+
+function unquote(text: string): string {
+    return text.startsWith('"') && text.endsWith('"') ? text.substring(1, text.length - 1) : text;
+}
+
+/**
+ * Parse LLVM IR source text into a module. Syntax errors do not abort parsing;
+ * they are collected in `errors` and the parser resynchronizes at the next
+ * instruction or top-level entity. Positions are relative to `origin` when
+ * the text is taken from a larger document.
+ */
+export function parseModule(text: string, origin: SourceOrigin = { offset: 0, line: 0 }): IRModule {
+    return new Parser(text, origin).parse();
+}
@@ -0,0 +1,269 @@
+/**
+ * What the IR of a pass dump snapshot covers
+ */
+export type PassDumpScope = 'module' | 'function' | 'cgscc' | 'loop' | 'unknown';
+
+/**
+ * One `*** IR Dump After X on f ***` section of the output of
+ * -print-after-all, -print-before-all or -print-changed
+ */
+export interface PassDumpSnapshot {
+    // 'start' is the `IR Dump At Start` of -print-changed
+    when: 'before' | 'after' | 'start';
+    pass: string;
+    // `f`, `[module]`, `(f, g)` for a call graph SCC or `Loop at depth 1 containing: ...`
+    target: string;
+    scope: PassDumpScope;
+    headerLine: number;
+    // The IR below the header: lines startLine up to but excluding endLine
+    startLine: number;
+    endLine: number;
+    startOffset: number;
+    endOffset: number;
+    // Nothing was printed: -print-changed omitted it or filtered it out
+    omitted: boolean;
+    // The pass deleted the function
+    deleted: boolean;
+    // Whether the IR differs from the last dump of the same functions or
+    // module; undefined when there is nothing earlier to compare with
+    changed?: boolean;
+    // The index of that earlier snapshot
+    previous?: number;
+    // The functions defined in the IR
+    functions: string[];
+}
+
+// `; ` precedes the header since LLVM 17 so that dumps stay parseable IR
+const HEADER_RE = /^(?:; )?\*\*\* IR (Dump|Deleted|Pass) (.*?) \*\*\*\s*$/;
+const OMITTED_RE = / (omitted because no change|filtered out)$/;
+
+/**
+ * True if the text starts like a pass dump
+ */
+export function isPassDump(text: string): boolean {
+    const firstLine = text.substring(0, 4096).split('\n').find(line => line.trim()) ?? '';
+    return HEADER_RE.test(firstLine);
+}
+
+/**
+ * Split a pass dump into its snapshots and work out which of them changed
+ * the IR. Headers of passes that print nothing, such as
+ * `*** IR Pass PassManager<...> on f ignored ***`, end the previous
+ * snapshot without starting one.
+ */
+export function parsePassDump(text: string): PassDumpSnapshot[] {
+    const snapshots: PassDumpSnapshot[] = [];
+    let current: PassDumpSnapshot | undefined;
+    let line = 0;
+    let offset = 0;
+
+    const finish = (endLine: number, endOffset: number) => {
+        if (current) {
+            current.endLine = endLine;
+            current.endOffset = endOffset;
+            snapshots.push(current);
+            current = undefined;
+        }
+    };
+
+    while (offset <= text.length) {
+        const newline = text.indexOf('\n', offset);
+        const lineEnd = newline < 0 ? text.length : newline;
+        const match = text.substring(offset, lineEnd).match(HEADER_RE);
+        const next = newline < 0 ? text.length + 1 : newline + 1;
+        if (match) {
+            finish(line, offset);
+            current = parseHeader(match[1], match[2], line, Math.min(next, text.length));
+        }
+        line++;
+        offset = next;
+    }
+    finish(line, text.length);
+
+    for (const snapshot of snapshots) {
+        const body = text.substring(snapshot.startOffset, snapshot.endOffset);
+        snapshot.functions = [...splitFunctions(body).keys()];
+        if (snapshot.scope === 'unknown' && !snapshot.omitted) {
+            // The legacy pass manager does not say what it printed
+            snapshot.scope = /^; ModuleID/m.test(body) ? 'module' : snapshot.functions.length > 0 ? 'function' : 'unknown';
+        }
+    }
+    compareSnapshots(text, snapshots);
+    return snapshots;
+}
+
+/**
+ * The function definitions in a piece of IR by name, each from `define` up
+ * to its closing brace
+ */
+export function splitFunctions(text: string): Map<string, string> {
+    const functions = new Map<string, string>();
+    const defineRe = /^define\b[^\n]*?(@(?:"[^"]*"|[-\w.$]+))\(/gm;
+    let match;
+    while ((match = defineRe.exec(text))) {
+        const close = text.indexOf('\n}', match.index);
+        const end = close < 0 ? text.length : close + 2;
+        functions.set(match[1], text.substring(match.index, end));
+        defineRe.lastIndex = end;
+    }
+    return functions;
+}
+
+function parseHeader(kind: string, description: string, line: number, startOffset: number): PassDumpSnapshot | undefined {
+    if (kind === 'Pass') {
+        return undefined;
+    }
+
+    let when: PassDumpSnapshot['when'] = 'after';
+    let rest = description;
+    if (kind === 'Dump' && description === 'At Start') {
+        when = 'start';
+        rest = '';
+    } else if (description.startsWith('Before ')) {
+        when = 'before';
+        rest = description.substring('Before '.length);
+    } else if (description.startsWith('After ')) {
+        rest = description.substring('After '.length);
+    }
+
+    const omitted = OMITTED_RE.test(rest);
+    rest = rest.replace(OMITTED_RE, '');
+    const on = rest.indexOf(' on ');
+    const pass = on < 0 ? rest : rest.substring(0, on);
+    const target = when === 'start' ? '[module]' : on < 0 ? '' : rest.substring(on + ' on '.length);
+
+    return {
+        when,
+        pass,
+        target,
+        scope: scopeOf(target),
+        headerLine: line,
+        startLine: line + 1,
+        endLine: line + 1,
+        startOffset,
+        endOffset: startOffset,
+        omitted,
+        deleted: kind === 'Deleted',
+        functions: [],
+    };
+}
+
+function scopeOf(target: string): PassDumpScope {
+    if (target === '[module]') {
+        return 'module';
+    }
+    if (target.startsWith('(')) {
+        return 'cgscc';
+    }
+    if (target.startsWith('Loop ')) {
+        return 'loop';
+    }
+    return target ? 'function' : 'unknown';
+}
+
+/**
+ * Compare each snapshot with the latest earlier text of the same functions,
+ * and for whole modules also of everything outside functions. Module dumps
+ * are compared function by function so that changes made by function passes
+ * in between are not attributed to the module pass.
+ */
+function compareSnapshots(text: string, snapshots: PassDumpSnapshot[]): void {
+    const latest = new Map<string, { text: string; snapshot: number }>();
+    let moduleRest: { text: string; snapshot: number } | undefined;
+    // Functions that loop passes may have changed since their latest text
+    const stale = new Set<string>();
+    let lastFunction: string | undefined;
+
+    snapshots.forEach((snapshot, index) => {
+        if (snapshot.omitted) {
+            snapshot.changed = false;
+            return;
+        }
+        if (snapshot.deleted) {
+            snapshot.changed = true;
+            return;
+        }
+        // Loop dumps show some of the blocks of the function being optimized only
+        if (snapshot.scope === 'loop') {
+            if (lastFunction) {
+                stale.add(lastFunction);
+            }
+            return;
+        }
+        if (snapshot.scope === 'unknown') {
+            return;
+        }
+
+        const body = text.substring(snapshot.startOffset, snapshot.endOffset);
+        const functions = splitFunctions(body);
+        const results: boolean[] = [];
+        let previous: number | undefined;
+        for (const [name, functionText] of functions) {
+            const earlier = latest.get(name);
+            if (earlier) {
+                if (!stale.delete(name)) {
+                    results.push(earlier.text !== functionText);
+                }
+                previous = Math.max(previous ?? -1, earlier.snapshot);
+            }
+            latest.set(name, { text: functionText, snapshot: index });
+            lastFunction = name;
+        }
+
+        if (snapshot.scope === 'module') {
+            let rest = body;
+            for (const functionText of functions.values()) {
+                rest = rest.replace(functionText, '');
+            }
+            if (moduleRest) {
+                results.push(moduleRest.text !== rest);
+                previous = moduleRest.snapshot;
+            }
+            moduleRest = { text: rest, snapshot: index };
+        }
+
+        snapshot.changed = results.length > 0 ? results.some(result => result) : undefined;
+        snapshot.previous = previous;
+    });
+}
+
+/**
+ * The IR a snapshot is compared with: the earlier module dump for a module,
+ * otherwise the latest earlier text of each of its functions
+ */
+export function previousSnapshotText(text: string, snapshots: PassDumpSnapshot[], index: number): string | undefined {
+    const snapshot = snapshots[index];
+    if (snapshot.previous === undefined) {
+        return undefined;
+    }
+    const previous = snapshots[snapshot.previous];
+    if (snapshot.scope === 'module' && previous.scope === 'module') {
+        return text.substring(previous.startOffset, previous.endOffset);
+    }
+
+    const parts: string[] = [];
+    for (const name of snapshot.functions) {
+        for (let i = index - 1; i >= 0; i--) {
+            const earlier = snapshots[i];
+            if (!earlier.omitted && earlier.scope !== 'loop' && earlier.functions.includes(name)) {
+                parts.push(splitFunctions(text.substring(earlier.startOffset, earlier.endOffset)).get(name)!);
+                break;
+            }
+        }
+    }
+    return parts.join('\n\n') + '\n';
+}
+
+/**
+ * `After InstCombinePass`, `Before SROAPass` or `At Start`
+ */
+export function snapshotTitle(snapshot: PassDumpSnapshot): string {
+    switch (snapshot.when) {
+        case 'start':
+            return 'At Start';
+        case 'before':
+            return `Before ${snapshot.pass}`;
+        default:
+            return `After ${snapshot.pass}`;
+    }
+}
@@ -0,0 +1,156 @@
+/**
+ * Kinds of first-class and aggregate types in LLVM IR
+ */
+export enum TypeKind {
+    Void,
+    Integer,     // i1, i32, i128
+    Float,       // half, bfloat, float, double, fp128, x86_fp80, ppc_fp128
+    Pointer,     // ptr, ptr addrspace(N), legacy i8*
+    Label,
+    Metadata,
+    Token,
+    Vector,      // <4 x float>, <vscale x 2 x i64>
+    Array,       // [4 x i8]
+    Struct,      // { i32, ptr }, <{ i8, i32 }>
+    Named,       // %struct.Point
+    Function,    // i32 (ptr, ...)
+    Opaque,      // %T = type opaque
+    TargetExt,   // target("spirv.Image", ...)
+    X86Amx,
+    X86Mmx,
+}
+
+/**
+ * A parsed LLVM IR type. Only the fields relevant to the kind are set.
+ */
+export interface IRType {
+    kind: TypeKind;
+    // Integer bit width
+    bits?: number;
+    // Float type name, named type name ('%T') or target extension type name
+    name?: string;
+    // Pointer address space
+    addrSpace?: number;
+    // Pointee of a legacy typed pointer such as i8*
+    pointee?: IRType;
+    // Vector and array element type and count
+    element?: IRType;
+    count?: number;
+    scalable?: boolean;
+    // Struct element types
+    elements?: IRType[];
+    packed?: boolean;
+    // Function return and parameter types (parameters also hold target type params)
+    returnType?: IRType;
+    params?: IRType[];
+    varArgs?: boolean;
+}
+
+export const FLOAT_TYPE_NAMES = ['half', 'bfloat', 'float', 'double', 'fp128', 'x86_fp80', 'ppc_fp128'];
+
+export const VOID_TYPE: IRType = { kind: TypeKind.Void };
+export const LABEL_TYPE: IRType = { kind: TypeKind.Label };
+export const METADATA_TYPE: IRType = { kind: TypeKind.Metadata };
+export const TOKEN_TYPE: IRType = { kind: TypeKind.Token };
+export const PTR_TYPE: IRType = { kind: TypeKind.Pointer, addrSpace: 0 };
+
+/**
+ * Create an integer type of the given width
+ */
+export function intType(bits: number): IRType {
+    return { kind: TypeKind.Integer, bits };
+}
+
+/**
+ * Render a type the way LLVM prints it
+ */
+export function typeToString(type: IRType): string {
+    switch (type.kind) {
+        case TypeKind.Void:
+            return 'void';
+        case TypeKind.Integer:
+            return `i${type.bits}`;
+        case TypeKind.Float:
+            return type.name ?? 'float';
+        case TypeKind.Pointer:
+            if (type.pointee) {
+                const space = type.addrSpace ? ` addrspace(${type.addrSpace})` : '';
+                return `${typeToString(type.pointee)}${space}*`;
+            }
+            return type.addrSpace ? `ptr addrspace(${type.addrSpace})` : 'ptr';
+        case TypeKind.Label:
+            return 'label';
+        case TypeKind.Metadata:
+            return 'metadata';
+        case TypeKind.Token:
+            return 'token';
+        case TypeKind.Vector: {
+            const scale = type.scalable ? 'vscale x ' : '';
+            return `<${scale}${type.count} x ${typeToString(type.element!)}>`;
+        }
+        case TypeKind.Array:
+            return `[${type.count} x ${typeToString(type.element!)}]`;
+        case TypeKind.Struct: {
+            const body = type.elements!.length === 0
+                ? '{}'
+                : `{ ${type.elements!.map(typeToString).join(', ')} }`;
+            return type.packed ? `<${body}>` : body;
+        }
+        case TypeKind.Named:
+            return type.name!;
+        case TypeKind.Function: {
+            const params = type.params!.map(typeToString);
+            if (type.varArgs) {
+                params.push('...');
+            }
+            return `${typeToString(type.returnType!)} (${params.join(', ')})`;
+        }
+        case TypeKind.Opaque:
+            return 'opaque';
+        case TypeKind.TargetExt: {
+            const params = [`"${type.name}"`, ...(type.params ?? []).map(typeToString)];
+            return `target(${params.join(', ')})`;
+        }
+        case TypeKind.X86Amx:
+            return 'x86_amx';
+        case TypeKind.X86Mmx:
+            return 'x86_mmx';
+    }
+}
+
+/**
+ * Structural type equality. Named types compare by name and typed pointers
+ * compare equal to opaque pointers in the same address space.
+ */
+export function typesEqual(a: IRType, b: IRType): boolean {
+    if (a.kind !== b.kind) {
+        return false;
+    }
+    switch (a.kind) {
+        case TypeKind.Integer:
+            return a.bits === b.bits;
+        case TypeKind.Float:
+        case TypeKind.Named:
+            return a.name === b.name;
+        case TypeKind.Pointer:
+            return (a.addrSpace ?? 0) === (b.addrSpace ?? 0);
+        case TypeKind.Vector:
+            return a.count === b.count && !!a.scalable === !!b.scalable && typesEqual(a.element!, b.element!);
+        case TypeKind.Array:
+            return a.count === b.count && typesEqual(a.element!, b.element!);
+        case TypeKind.Struct:
+            return !!a.packed === !!b.packed && typeListsEqual(a.elements!, b.elements!);
+        case TypeKind.Function:
+            return !!a.varArgs === !!b.varArgs
+                && typesEqual(a.returnType!, b.returnType!)
+                && typeListsEqual(a.params!, b.params!);
+        case TypeKind.TargetExt:
+            return a.name === b.name && typeListsEqual(a.params ?? [], b.params ?? []);
+        default:
+            return true;
+    }
+}
+
+function typeListsEqual(a: IRType[], b: IRType[]): boolean {
+    return a.length === b.length && a.every((type, i) => typesEqual(type, b[i]));
+}
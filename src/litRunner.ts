@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { parseToolMessages, resolveTool, runTool, ToolNotFoundError } from './llvmTools';
+
+// The result line lit prints for each test, e.g. `PASS: LLVM :: Transforms/foo.ll (1 of 1)`
+const RESULT_LINE = /^(PASS|FAIL|XFAIL|XPASS|UNSUPPORTED|UNRESOLVED|TIMEOUT|SKIPPED|EXCLUDED): /m;
+
+// Result codes that do not count as a failure of the test
+const PASSING_CODES = new Set(['PASS', 'XFAIL', 'UNSUPPORTED', 'SKIPPED', 'EXCLUDED']);
+
+/**
+ * The state of the last run of a test
+ */
+export type LitTestState =
+    | { status: 'running' }
+    | { status: 'finished'; code: string; passed: boolean; duration: number };
+
+/**
+ * Runs single tests with a local llvm-lit, remembers their results for the
+ * code lenses and reports the FileCheck errors as diagnostics on the test.
+ */
+export class LitRunner implements vscode.Disposable {
+    private readonly diagnostics = vscode.languages.createDiagnosticCollection('lit');
+    private readonly output = vscode.window.createOutputChannel('LLVM IR: lit');
+    private readonly states = new Map<string, LitTestState>();
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private readonly disposables: vscode.Disposable[] = [];
+    readonly onDidChangeState = this.changeEmitter.event;
+
+    constructor() {
+        this.disposables.push(
+            // Reported positions are only valid for the text that was run
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.contentChanges.length > 0) {
+                    this.diagnostics.delete(event.document.uri);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                this.diagnostics.delete(document.uri);
+                if (this.states.get(document.uri.toString())?.status === 'finished') {
+                    this.states.delete(document.uri.toString());
+                }
+            })
+        );
+    }
+
+    getState(uri: vscode.Uri): LitTestState | undefined {
+        return this.states.get(uri.toString());
+    }
+
+    showOutput(): void {
+        this.output.show(true);
+    }
+
+    /**
+     * Save the test and run it with llvm-lit
+     */
+    async run(document: vscode.TextDocument): Promise<void> {
+        const key = document.uri.toString();
+        if (this.states.get(key)?.status === 'running') {
+            return;
+        }
+        if (document.uri.scheme !== 'file' || (document.isDirty && !await document.save())) {
+            vscode.window.showInformationMessage('Save the test to a file before running it with lit.');
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('llvm-ir', document.uri);
+        const executable = resolveTool('llvm-lit');
+        const args = [...config.get<string[]>('lit.arguments', ['-v']), document.uri.fsPath];
+        this.output.appendLine(`$ ${executable} ${args.join(' ')}`);
+        this.setState(key, { status: 'running' });
+
+        const start = Date.now();
+        let result;
+        try {
+            result = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Running ${path.basename(document.uri.fsPath)} with lit`,
+                cancellable: true,
+            }, (_progress, token) => runTool(executable, args, '', token));
+        } catch (error) {
+            this.setState(key, undefined);
+            if (error instanceof vscode.CancellationError) {
+                return;
+            }
+            if (error instanceof ToolNotFoundError) {
+                const choice = await vscode.window.showErrorMessage(error.message, 'Open Settings');
+                if (choice) {
+                    vscode.commands.executeCommand('workbench.action.openSettings', 'llvm-ir.llvmBinDirectory');
+                }
+                return;
+            }
+            vscode.window.showErrorMessage(`lit failed: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+
+        const text = result.stdout + result.stderr;
+        this.output.append(text);
+        const code = text.match(RESULT_LINE)?.[1] ?? (result.exitCode === 0 ? 'PASS' : 'UNRESOLVED');
+        this.setState(key, {
+            status: 'finished',
+            code,
+            passed: result.exitCode === 0 && PASSING_CODES.has(code),
+            duration: Date.now() - start,
+        });
+        if (!document.isClosed) {
+            this.reportMessages(document, text);
+        }
+    }
+
+    private setState(key: string, state: LitTestState | undefined): void {
+        if (state) {
+            this.states.set(key, state);
+        } else {
+            this.states.delete(key);
+        }
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Turn the FileCheck messages about the check file, which is the test
+     * itself for `FileCheck %s`, into diagnostics
+     */
+    private reportMessages(document: vscode.TextDocument, text: string): void {
+        const diagnostics: vscode.Diagnostic[] = [];
+        for (const message of parseToolMessages(text)) {
+            if (path.resolve(message.file) !== path.resolve(document.uri.fsPath) || message.line >= document.lineCount) {
+                continue;
+            }
+            const lineText = document.lineAt(message.line).text;
+            const position = new vscode.Position(message.line, Math.min(message.column, lineText.length));
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(position, new vscode.Position(message.line, lineText.length)),
+                message.message,
+                message.severity
+            );
+            diagnostic.source = 'FileCheck';
+            diagnostics.push(diagnostic);
+        }
+        this.diagnostics.set(document.uri, diagnostics);
+    }
+
+    dispose(): void {
+        this.diagnostics.dispose();
+        this.output.dispose();
+        this.changeEmitter.dispose();
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+    }
+}
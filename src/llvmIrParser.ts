@@ -1,4 +1,15 @@
 import * as vscode from 'vscode';
+import {
+    IRModule,
+    PassDumpSnapshot,
+    ReferenceRole,
+    Token,
+    TokenKind,
+    isPassDump,
+    labelName,
+    parseModule,
+    parsePassDump,
+} from './ir';
 
 /**
  * Types of symbols in LLVM IR
@@ -56,6 +67,8 @@ export interface ParsedDocument {
     definitions: Map<string, SymbolDefinition>;
     references: SymbolReference[];
     functionScopes: FunctionScope[];
+    // The structured module the symbol maps are derived from
+    module: IRModule;
 }
 
 /**
@@ -63,6 +76,17 @@ export interface ParsedDocument {
  */
 const documentCache = new Map<string, { version: number; parsed: ParsedDocument }>();
 
+/**
+ * Cache for the snapshots of pass dumps, each parsed when first needed
+ */
+interface PassDumpCacheEntry {
+    version: number;
+    snapshots: PassDumpSnapshot[] | undefined;
+    parsed: Map<number, ParsedDocument>;
+}
+
+const passDumpCache = new Map<string, PassDumpCacheEntry>();
+
 /**
  * Get the symbol key for lookups (combines kind, name, and optionally function scope)
  */
@@ -74,391 +98,260 @@ export function getSymbolKey(kind: SymbolKind, name: string, functionName?: stri
 }
 
 /**
- * Parse a document and extract all definitions and references
+ * Parse a document and extract all definitions and references. In a pass
+ * dump, where the same functions are printed over and over, a `position`
+ * limits the result to the snapshot it is in.
  */
-export function parseDocument(document: vscode.TextDocument): ParsedDocument {
+export function parseDocument(document: vscode.TextDocument, position?: vscode.Position): ParsedDocument {
+    if (position) {
+        const snapshots = getPassDumpSnapshots(document);
+        const index = snapshots?.findIndex(snapshot => position.line >= snapshot.headerLine && position.line < snapshot.endLine);
+        if (index !== undefined && index >= 0) {
+            return parseSnapshot(document, snapshots![index], index);
+        }
+    }
+
     const cached = documentCache.get(document.uri.toString());
     if (cached && cached.version === document.version) {
         return cached.parsed;
     }
 
-    const definitions = new Map<string, SymbolDefinition>();
-    const references: SymbolReference[] = [];
-    const functionScopes: FunctionScope[] = [];
-    const text = document.getText();
-    const lines = text.split('\n');
-
-    // First pass: find all function boundaries
-    let currentFunction: string | null = null;
-    let functionStartLine = -1;
-    let braceDepth = 0;
-
-    for (let lineNum = 0; lineNum < lines.length; lineNum++) {
-        const line = lines[lineNum];
-        const trimmedLine = line.trim();
-
-        // Skip empty lines and comments for function detection
-        if (trimmedLine === '' || trimmedLine.startsWith(';')) {
-            continue;
-        }
-
-        // Function definition start: define ... @name(...) ... {
-        const funcMatch = line.match(/^\s*define\s+.*?@([-a-zA-Z$._][-a-zA-Z$._0-9]*|"[^"]+"|[0-9]+)\s*\(/);
-        if (funcMatch && currentFunction === null) {
-            currentFunction = '@' + funcMatch[1];
-            functionStartLine = lineNum;
-            braceDepth = 0; // Will be counted below
-        }
-
-        // Track braces for function body
-        if (currentFunction !== null) {
-            // Count braces (simple approach, doesn't handle braces in strings/comments perfectly)
-            for (const char of line) {
-                if (char === '{') braceDepth++;
-                else if (char === '}') braceDepth--;
-            }
+    const parsed = toParsedDocument(parseModule(document.getText()));
+    documentCache.set(document.uri.toString(), { version: document.version, parsed });
+    return parsed;
+}
 
-            if (braceDepth === 0 && functionStartLine >= 0) {
-                functionScopes.push({
-                    name: currentFunction,
-                    startLine: functionStartLine,
-                    endLine: lineNum,
-                });
-                currentFunction = null;
-                functionStartLine = -1;
-            }
-        }
+/**
+ * The modules of a document, for features that cover all of it: in a pass
+ * dump each snapshot parsed on its own, limited to those `range` overlaps,
+ * and otherwise the document as a whole
+ */
+export function parseModules(
+    document: vscode.TextDocument,
+    range?: vscode.Range
+): { parsed: ParsedDocument; snapshot?: PassDumpSnapshot }[] {
+    const snapshots = getPassDumpSnapshots(document);
+    if (!snapshots) {
+        return [{ parsed: parseDocument(document) }];
     }
-
-    // Second pass: parse definitions and references with function scope awareness
-    currentFunction = null;
-
-    for (let lineNum = 0; lineNum < lines.length; lineNum++) {
-        const line = lines[lineNum];
-        const trimmedLine = line.trim();
-
-        // Determine current function scope
-        currentFunction = null;
-        for (const scope of functionScopes) {
-            if (lineNum >= scope.startLine && lineNum <= scope.endLine) {
-                currentFunction = scope.name;
-                break;
-            }
-        }
-
-        // Skip empty lines and comments
-        if (trimmedLine === '' || trimmedLine.startsWith(';')) {
-            continue;
+    const modules: { parsed: ParsedDocument; snapshot: PassDumpSnapshot }[] = [];
+    snapshots.forEach((snapshot, index) => {
+        if (!range || (range.start.line < snapshot.endLine && range.end.line >= snapshot.headerLine)) {
+            modules.push({ parsed: parseSnapshot(document, snapshot, index), snapshot });
         }
+    });
+    return modules;
+}
 
-        // Parse definitions
-        parseDefinitions(line, lineNum, definitions, currentFunction, functionScopes);
+/**
+ * The snapshots of a document holding -print-after-all, -print-before-all
+ * or -print-changed output, or undefined for ordinary IR
+ */
+export function getPassDumpSnapshots(document: vscode.TextDocument): PassDumpSnapshot[] | undefined {
+    return passDumpEntry(document).snapshots;
+}
 
-        // Parse references
-        parseReferences(line, lineNum, references, currentFunction);
+function passDumpEntry(document: vscode.TextDocument): PassDumpCacheEntry {
+    const key = document.uri.toString();
+    let entry = passDumpCache.get(key);
+    if (!entry || entry.version !== document.version) {
+        const text = document.getText();
+        entry = { version: document.version, snapshots: isPassDump(text) ? parsePassDump(text) : undefined, parsed: new Map() };
+        passDumpCache.set(key, entry);
     }
+    return entry;
+}
 
-    const parsed = { definitions, references, functionScopes };
-    documentCache.set(document.uri.toString(), { version: document.version, parsed });
+function parseSnapshot(document: vscode.TextDocument, snapshot: PassDumpSnapshot, index: number): ParsedDocument {
+    const entry = passDumpEntry(document);
+    let parsed = entry.parsed.get(index);
+    if (!parsed) {
+        const text = document.getText().substring(snapshot.startOffset, snapshot.endOffset);
+        parsed = toParsedDocument(parseModule(text, { offset: snapshot.startOffset, line: snapshot.startLine }));
+        entry.parsed.set(index, parsed);
+    }
     return parsed;
 }
 
+function toParsedDocument(module: IRModule): ParsedDocument {
+    return {
+        definitions: collectDefinitions(module),
+        references: collectReferences(module),
+        functionScopes: module.functions
+            .filter(func => !func.isDeclaration)
+            .map(func => ({ name: func.name, startLine: func.range.start.line, endLine: func.range.end.line })),
+        module,
+    };
+}
+
 /**
- * Parse definitions from a line
+ * Build the definition map from the parsed module
  */
-function parseDefinitions(
-    line: string,
-    lineNum: number,
-    definitions: Map<string, SymbolDefinition>,
-    currentFunction: string | null,
-    functionScopes: FunctionScope[]
-): void {
-    // Named type definition: %typename = type ...
-    const typeMatch = line.match(/^\s*(%[-a-zA-Z$._][-a-zA-Z$._0-9]*|%"[^"]+")\s*=\s*type\b/);
-    if (typeMatch) {
-        const name = typeMatch[1];
-        const startCol = line.indexOf(name);
-        const def: SymbolDefinition = {
-            name,
-            kind: SymbolKind.NamedType,
-            range: new vscode.Range(lineNum, 0, lineNum, line.length),
-            selectionRange: new vscode.Range(lineNum, startCol, lineNum, startCol + name.length),
-            detail: line.trim(),
-        };
-        definitions.set(getSymbolKey(SymbolKind.NamedType, name), def);
-        return; // Type definitions are not inside functions
-    }
+function collectDefinitions(module: IRModule): Map<string, SymbolDefinition> {
+    const definitions = new Map<string, SymbolDefinition>();
 
-    // Global variable definition: @name = ...
-    const globalVarMatch = line.match(/^\s*(@[-a-zA-Z$._][-a-zA-Z$._0-9]*|@"[^"]+"|@[0-9]+)\s*=/);
-    if (globalVarMatch && !line.includes(' alias ') && !line.includes(' ifunc ') && !line.match(/^\s*define\b/)) {
-        const name = globalVarMatch[1];
-        const startCol = line.indexOf(name);
-        const def: SymbolDefinition = {
-            name,
-            kind: SymbolKind.GlobalValue,
-            range: new vscode.Range(lineNum, 0, lineNum, line.length),
-            selectionRange: new vscode.Range(lineNum, startCol, lineNum, startCol + name.length),
-            detail: line.trim(),
-        };
-        definitions.set(getSymbolKey(SymbolKind.GlobalValue, name), def);
+    for (const type of module.types) {
+        definitions.set(getSymbolKey(SymbolKind.NamedType, type.name), {
+            name: type.name,
+            kind: SymbolKind.NamedType,
+            range: type.range,
+            selectionRange: type.nameRange,
+            detail: type.text,
+        });
     }
 
-    // Alias definition: @name = ... alias ...
-    const aliasMatch = line.match(/^\s*(@[-a-zA-Z$._][-a-zA-Z$._0-9]*|@"[^"]+"|@[0-9]+)\s*=.*\balias\b/);
-    if (aliasMatch) {
-        const name = aliasMatch[1];
-        const startCol = line.indexOf(name);
-        const def: SymbolDefinition = {
-            name,
+    for (const global of module.globals) {
+        definitions.set(getSymbolKey(SymbolKind.GlobalValue, global.name), {
+            name: global.name,
             kind: SymbolKind.GlobalValue,
-            range: new vscode.Range(lineNum, 0, lineNum, line.length),
-            selectionRange: new vscode.Range(lineNum, startCol, lineNum, startCol + name.length),
-            detail: 'alias: ' + line.trim(),
-        };
-        definitions.set(getSymbolKey(SymbolKind.GlobalValue, name), def);
+            range: global.range,
+            selectionRange: global.nameRange,
+            detail: global.kind === 'variable' ? global.text : `${global.kind}: ${global.text}`,
+        });
     }
 
-    // Function definition: define ... @name(...)
-    const funcDefMatch = line.match(/^\s*define\s+.*?(@[-a-zA-Z$._][-a-zA-Z$._0-9]*|@"[^"]+"|@[0-9]+)\s*\(/);
-    if (funcDefMatch) {
-        const name = funcDefMatch[1];
-        const startCol = line.indexOf(name);
-
-        // Find the function's end line
-        const funcScope = functionScopes.find(s => s.name === name);
-        const funcEndLine = funcScope ? funcScope.endLine : lineNum;
+    for (const func of module.functions) {
+        const existing = definitions.get(getSymbolKey(SymbolKind.Function, func.name));
+        // A definition wins over a declaration of the same function
+        if (existing?.functionRange && func.isDeclaration) {
+            continue;
+        }
 
         const def: SymbolDefinition = {
-            name,
+            name: func.name,
             kind: SymbolKind.Function,
-            range: new vscode.Range(lineNum, 0, funcEndLine, 0),
-            selectionRange: new vscode.Range(lineNum, startCol, lineNum, startCol + name.length),
-            detail: line.trim(),
-            functionRange: new vscode.Range(lineNum, 0, funcEndLine, 0),
+            range: func.range,
+            selectionRange: func.nameRange,
+            detail: func.headerText,
+            functionRange: func.isDeclaration ? undefined : func.range,
         };
-        definitions.set(getSymbolKey(SymbolKind.Function, name), def);
+        definitions.set(getSymbolKey(SymbolKind.Function, func.name), def);
         // Also add as GlobalValue for references
-        definitions.set(getSymbolKey(SymbolKind.GlobalValue, name), def);
+        definitions.set(getSymbolKey(SymbolKind.GlobalValue, func.name), def);
 
-        // Parse function parameters - they belong to this function's scope
-        const paramsMatch = line.match(/\(([^)]*)\)/);
-        if (paramsMatch) {
-            parseParameters(paramsMatch[1], lineNum, line, definitions, name);
+        if (func.isDeclaration) {
+            continue;
         }
-    }
 
-    // Function declaration: declare ... @name(...)
-    const funcDeclMatch = line.match(/^\s*declare\s+.*?(@[-a-zA-Z$._][-a-zA-Z$._0-9]*|@"[^"]+"|@[0-9]+)\s*\(/);
-    if (funcDeclMatch) {
-        const name = funcDeclMatch[1];
-        const startCol = line.indexOf(name);
-        const def: SymbolDefinition = {
-            name,
-            kind: SymbolKind.Function,
-            range: new vscode.Range(lineNum, 0, lineNum, line.length),
-            selectionRange: new vscode.Range(lineNum, startCol, lineNum, startCol + name.length),
-            detail: line.trim(),
-        };
-        definitions.set(getSymbolKey(SymbolKind.Function, name), def);
-        definitions.set(getSymbolKey(SymbolKind.GlobalValue, name), def);
-    }
-
-    // Local value definition: %name = ... (must be inside a function)
-    if (currentFunction) {
-        const localMatch = line.match(/^\s*(%[-a-zA-Z$._][-a-zA-Z$._0-9]*|%"[^"]+"|%[0-9]+)\s*=/);
-        if (localMatch && !typeMatch) {  // Exclude type definitions
-            const name = localMatch[1];
-            const startCol = line.indexOf(name);
-            const def: SymbolDefinition = {
+        // Parameters belong to this function's scope
+        for (const param of func.params) {
+            const name = param.name?.name ?? param.implicitName!;
+            definitions.set(getSymbolKey(SymbolKind.LocalValue, name, func.name), {
                 name,
                 kind: SymbolKind.LocalValue,
-                range: new vscode.Range(lineNum, 0, lineNum, line.length),
-                selectionRange: new vscode.Range(lineNum, startCol, lineNum, startCol + name.length),
-                detail: line.trim(),
-                functionName: currentFunction,
-            };
-            definitions.set(getSymbolKey(SymbolKind.LocalValue, name, currentFunction), def);
+                range: param.range,
+                selectionRange: param.name?.range ?? param.range,
+                detail: `parameter ${name}`,
+                functionName: func.name,
+            });
         }
 
-        // Label definition: labelname: (must be inside a function)
-        const labelMatch = line.match(/^([-a-zA-Z$._][-a-zA-Z$._0-9]*|[0-9]+|"[^"]+"):\s*(;.*)?$/);
-        if (labelMatch) {
-            const name = labelMatch[1];
-            const def: SymbolDefinition = {
-                name,
-                kind: SymbolKind.Label,
-                range: new vscode.Range(lineNum, 0, lineNum, line.length),
-                selectionRange: new vscode.Range(lineNum, 0, lineNum, name.length),
-                detail: `label ${name}`,
-                functionName: currentFunction,
-            };
-            definitions.set(getSymbolKey(SymbolKind.Label, name, currentFunction), def);
+        for (const block of func.blocks) {
+            if (block.label) {
+                definitions.set(getSymbolKey(SymbolKind.Label, block.name, func.name), {
+                    name: block.name,
+                    kind: SymbolKind.Label,
+                    range: block.range,
+                    selectionRange: block.label.range,
+                    detail: `label ${block.name}`,
+                    functionName: func.name,
+                });
+            }
+
+            for (const inst of block.instructions) {
+                const name = inst.result?.name ?? inst.implicitName;
+                if (!name) {
+                    continue;
+                }
+                definitions.set(getSymbolKey(SymbolKind.LocalValue, name, func.name), {
+                    name,
+                    kind: SymbolKind.LocalValue,
+                    range: inst.range,
+                    // Nothing is written for an implicit name: an empty range at the instruction
+                    selectionRange: inst.result?.range ?? new vscode.Range(inst.range.start, inst.range.start),
+                    detail: inst.text,
+                    functionName: func.name,
+                });
+            }
         }
     }
 
-    // Metadata definition: !name = ... or !0 = ...
-    const metadataMatch = line.match(/^\s*(![a-zA-Z_][a-zA-Z0-9_]*|![0-9]+)\s*=/);
-    if (metadataMatch) {
-        const name = metadataMatch[1];
-        const startCol = line.indexOf(name);
-        const def: SymbolDefinition = {
-            name,
+    for (const md of module.metadata) {
+        definitions.set(getSymbolKey(SymbolKind.Metadata, md.name), {
+            name: md.name,
             kind: SymbolKind.Metadata,
-            range: new vscode.Range(lineNum, 0, lineNum, line.length),
-            selectionRange: new vscode.Range(lineNum, startCol, lineNum, startCol + name.length),
-            detail: line.trim(),
-        };
-        definitions.set(getSymbolKey(SymbolKind.Metadata, name), def);
+            range: md.range,
+            selectionRange: md.nameRange,
+            detail: md.text,
+        });
     }
 
-    // Attribute group definition: attributes #0 = { ... }
-    const attrMatch = line.match(/^\s*attributes\s+(#[0-9]+)\s*=/);
-    if (attrMatch) {
-        const name = attrMatch[1];
-        const startCol = line.indexOf(name);
-        const def: SymbolDefinition = {
-            name,
+    for (const group of module.attributeGroups) {
+        definitions.set(getSymbolKey(SymbolKind.AttributeGroup, group.name), {
+            name: group.name,
             kind: SymbolKind.AttributeGroup,
-            range: new vscode.Range(lineNum, 0, lineNum, line.length),
-            selectionRange: new vscode.Range(lineNum, startCol, lineNum, startCol + name.length),
-            detail: line.trim(),
-        };
-        definitions.set(getSymbolKey(SymbolKind.AttributeGroup, name), def);
+            range: group.range,
+            selectionRange: group.nameRange,
+            detail: group.text,
+        });
     }
 
-    // Comdat definition: $name = comdat ...
-    const comdatMatch = line.match(/^\s*(\$[-a-zA-Z$._][-a-zA-Z$._0-9]*|\$"[^"]+")\s*=\s*comdat\b/);
-    if (comdatMatch) {
-        const name = comdatMatch[1];
-        const startCol = line.indexOf(name);
-        const def: SymbolDefinition = {
-            name,
+    for (const comdat of module.comdats) {
+        definitions.set(getSymbolKey(SymbolKind.Comdat, comdat.name), {
+            name: comdat.name,
             kind: SymbolKind.Comdat,
-            range: new vscode.Range(lineNum, 0, lineNum, line.length),
-            selectionRange: new vscode.Range(lineNum, startCol, lineNum, startCol + name.length),
-            detail: line.trim(),
-        };
-        definitions.set(getSymbolKey(SymbolKind.Comdat, name), def);
+            range: comdat.range,
+            selectionRange: comdat.nameRange,
+            detail: comdat.text,
+        });
     }
-}
 
-/**
- * Parse function parameters as local definitions
- */
-function parseParameters(
-    paramsStr: string,
-    lineNum: number,
-    fullLine: string,
-    definitions: Map<string, SymbolDefinition>,
-    functionName: string
-): void {
-    // Match parameters like: i32 %argc, ptr %argv
-    const paramRegex = /(%[-a-zA-Z$._][-a-zA-Z$._0-9]*|%"[^"]+"|%[0-9]+)/g;
-    let match;
-    while ((match = paramRegex.exec(paramsStr)) !== null) {
-        const name = match[1];
-        const paramStart = fullLine.indexOf(paramsStr) + match.index;
-        const def: SymbolDefinition = {
-            name,
-            kind: SymbolKind.LocalValue,
-            range: new vscode.Range(lineNum, 0, lineNum, fullLine.length),
-            selectionRange: new vscode.Range(lineNum, paramStart, lineNum, paramStart + name.length),
-            detail: `parameter ${name}`,
-            functionName: functionName,
-        };
-        definitions.set(getSymbolKey(SymbolKind.LocalValue, name, functionName), def);
-    }
+    return definitions;
 }
 
 /**
- * Parse references from a line
+ * Convert the identifier uses recorded by the parser into symbol references
  */
-function parseReferences(
-    line: string,
-    lineNum: number,
-    references: SymbolReference[],
-    currentFunction: string | null
-): void {
-    // Skip comment-only lines
-    const commentStart = line.indexOf(';');
-    const codePart = commentStart >= 0 ? line.substring(0, commentStart) : line;
-
-    // Global references: @name, @"name", @0
-    const globalRegex = /@([-a-zA-Z$._][-a-zA-Z$._0-9]*|"[^"]+"|[0-9]+)/g;
-    let match;
-    while ((match = globalRegex.exec(codePart)) !== null) {
-        const fullName = '@' + match[1];
-        references.push({
-            name: fullName,
-            kind: SymbolKind.GlobalValue,
-            range: new vscode.Range(lineNum, match.index, lineNum, match.index + fullName.length),
-        });
-    }
-
-    // Local references: %name, %"name", %0
-    const localRegex = /%([-a-zA-Z$._][-a-zA-Z$._0-9]*|"[^"]+"|[0-9]+)/g;
-    while ((match = localRegex.exec(codePart)) !== null) {
-        const fullName = '%' + match[1];
-        references.push({
-            name: fullName,
-            kind: SymbolKind.LocalValue,
-            range: new vscode.Range(lineNum, match.index, lineNum, match.index + fullName.length),
-            functionName: currentFunction || undefined,
-        });
-    }
-
-    // Label references in branch instructions: label %labelname or br ... label %name
-    const labelRefRegex = /\blabel\s+%([-a-zA-Z$._][-a-zA-Z$._0-9]*|"[^"]+"|[0-9]+)/g;
-    while ((match = labelRefRegex.exec(codePart)) !== null) {
-        const labelName = match[1];
-        const fullMatch = match[0];
-        const nameStart = match.index + fullMatch.lastIndexOf('%') + 1;
-        references.push({
-            name: labelName,
-            kind: SymbolKind.Label,
-            range: new vscode.Range(lineNum, nameStart, lineNum, nameStart + labelName.length),
-            functionName: currentFunction || undefined,
-        });
-    }
-
-    // Metadata references: !name, !0
-    const metadataRegex = /(!(?:[a-zA-Z_][a-zA-Z0-9_]*|[0-9]+))(?![a-zA-Z0-9_])/g;
-    while ((match = metadataRegex.exec(codePart)) !== null) {
-        // Skip if it's a definition (has = after it)
-        const afterMatch = codePart.substring(match.index + match[1].length).trim();
-        if (afterMatch.startsWith('=')) {
-            continue;
+function collectReferences(module: IRModule): SymbolReference[] {
+    const references: SymbolReference[] = [];
+    for (const ref of module.references) {
+        switch (ref.role) {
+            case ReferenceRole.Value:
+                if (ref.name.startsWith('@')) {
+                    references.push({ name: ref.name, kind: SymbolKind.GlobalValue, range: ref.range });
+                } else {
+                    references.push({
+                        name: ref.name,
+                        kind: SymbolKind.LocalValue,
+                        range: ref.range,
+                        functionName: ref.functionName,
+                    });
+                }
+                break;
+            case ReferenceRole.Type:
+                references.push({ name: ref.name, kind: SymbolKind.NamedType, range: ref.range });
+                break;
+            case ReferenceRole.Label:
+                // Labels are defined without the % prefix
+                references.push({
+                    name: ref.name.substring(1),
+                    kind: SymbolKind.Label,
+                    range: new vscode.Range(ref.range.start.translate(0, 1), ref.range.end),
+                    functionName: ref.functionName,
+                });
+                break;
+            case ReferenceRole.Metadata:
+                references.push({ name: ref.name, kind: SymbolKind.Metadata, range: ref.range });
+                break;
+            case ReferenceRole.AttributeGroup:
+                references.push({ name: ref.name, kind: SymbolKind.AttributeGroup, range: ref.range });
+                break;
+            case ReferenceRole.Comdat:
+                references.push({ name: ref.name, kind: SymbolKind.Comdat, range: ref.range });
+                break;
         }
-        references.push({
-            name: match[1],
-            kind: SymbolKind.Metadata,
-            range: new vscode.Range(lineNum, match.index, lineNum, match.index + match[1].length),
-        });
-    }
-
-    // Attribute group references: #0
-    const attrRegex = /#([0-9]+)/g;
-    while ((match = attrRegex.exec(codePart)) !== null) {
-        const fullName = '#' + match[1];
-        references.push({
-            name: fullName,
-            kind: SymbolKind.AttributeGroup,
-            range: new vscode.Range(lineNum, match.index, lineNum, match.index + fullName.length),
-        });
-    }
-
-    // Comdat references: comdat($name)
-    const comdatRefRegex = /comdat\s*\((\$[-a-zA-Z$._][-a-zA-Z$._0-9]*|\$"[^"]+")\)/g;
-    while ((match = comdatRefRegex.exec(codePart)) !== null) {
-        const name = match[1];
-        const nameStart = match.index + match[0].indexOf(name);
-        references.push({
-            name,
-            kind: SymbolKind.Comdat,
-            range: new vscode.Range(lineNum, nameStart, lineNum, nameStart + name.length),
-        });
     }
+    return references;
 }
 
 /**
@@ -483,94 +376,71 @@ export function getSymbolAtPosition(
     document: vscode.TextDocument,
     position: vscode.Position
 ): { name: string; kind: SymbolKind; range: vscode.Range; functionName?: string } | null {
-    const parsed = parseDocument(document);
+    const parsed = parseDocument(document, position);
     const currentFunction = getFunctionAtPosition(parsed, position);
-    const line = document.lineAt(position.line).text;
-    const col = position.character;
-
-    // Check for global identifier
-    const globalMatch = matchAtPosition(line, col, /@([-a-zA-Z$._][-a-zA-Z$._0-9]*|"[^"]+"|[0-9]+)/g);
-    if (globalMatch) {
-        return {
-            name: '@' + globalMatch.match[1],
-            kind: SymbolKind.GlobalValue,
-            range: new vscode.Range(position.line, globalMatch.start, position.line, globalMatch.end),
-        };
-    }
-
-    // Check for local identifier or type
-    const localMatch = matchAtPosition(line, col, /%([-a-zA-Z$._][-a-zA-Z$._0-9]*|"[^"]+"|[0-9]+)/g);
-    if (localMatch) {
-        const name = '%' + localMatch.match[1];
-        return {
-            name,
-            kind: SymbolKind.LocalValue,
-            range: new vscode.Range(position.line, localMatch.start, position.line, localMatch.end),
-            functionName: currentFunction,
-        };
-    }
-
-    // Check for label (without prefix, at start of line)
-    const labelDefMatch = line.match(/^([-a-zA-Z$._][-a-zA-Z$._0-9]*|[0-9]+|"[^"]+"):/);
-    if (labelDefMatch && col <= labelDefMatch[1].length) {
-        return {
-            name: labelDefMatch[1],
-            kind: SymbolKind.Label,
-            range: new vscode.Range(position.line, 0, position.line, labelDefMatch[1].length),
-            functionName: currentFunction,
-        };
-    }
-
-    // Check for metadata
-    const metadataMatch = matchAtPosition(line, col, /!([a-zA-Z_][a-zA-Z0-9_]*|[0-9]+)/g);
-    if (metadataMatch) {
-        return {
-            name: '!' + metadataMatch.match[1],
-            kind: SymbolKind.Metadata,
-            range: new vscode.Range(position.line, metadataMatch.start, position.line, metadataMatch.end),
-        };
-    }
-
-    // Check for attribute group
-    const attrMatch = matchAtPosition(line, col, /#([0-9]+)/g);
-    if (attrMatch) {
-        return {
-            name: '#' + attrMatch.match[1],
-            kind: SymbolKind.AttributeGroup,
-            range: new vscode.Range(position.line, attrMatch.start, position.line, attrMatch.end),
-        };
+    const token = findTokenAt(parsed.module.tokens, document.offsetAt(position));
+    if (!token) {
+        return null;
     }
 
-    // Check for comdat
-    const comdatMatch = matchAtPosition(line, col, /\$[-a-zA-Z$._][-a-zA-Z$._0-9]*|\$"[^"]+"/g);
-    if (comdatMatch) {
-        return {
-            name: comdatMatch.match[0],
-            kind: SymbolKind.Comdat,
-            range: new vscode.Range(position.line, comdatMatch.start, position.line, comdatMatch.end),
-        };
+    switch (token.kind) {
+        case TokenKind.GlobalVar:
+            return { name: token.text, kind: SymbolKind.GlobalValue, range: token.range };
+        case TokenKind.LocalVar:
+            return { name: token.text, kind: SymbolKind.LocalValue, range: token.range, functionName: currentFunction };
+        case TokenKind.LabelDef:
+            return {
+                name: labelName(token),
+                kind: SymbolKind.Label,
+                range: new vscode.Range(token.range.start, token.range.end.translate(0, -1)),
+                functionName: currentFunction,
+            };
+        case TokenKind.MetadataVar:
+            return { name: token.text, kind: SymbolKind.Metadata, range: token.range };
+        case TokenKind.AttrGroupId:
+            return { name: token.text, kind: SymbolKind.AttributeGroup, range: token.range };
+        case TokenKind.ComdatVar:
+            return { name: token.text, kind: SymbolKind.Comdat, range: token.range };
+        default:
+            return null;
     }
+}
 
-    return null;
+/**
+ * Get the keyword at a specific position, e.g. an opcode, attribute or linkage type
+ */
+export function getKeywordAtPosition(
+    document: vscode.TextDocument,
+    position: vscode.Position
+): { text: string; range: vscode.Range } | null {
+    const parsed = parseDocument(document, position);
+    const token = findTokenAt(parsed.module.tokens, document.offsetAt(position));
+    return token && token.kind === TokenKind.Word ? { text: token.text, range: token.range } : null;
 }
 
 /**
- * Helper to find a regex match at a specific column position
+ * Find the identifier-like token touching an offset. A cursor right after a
+ * symbol (e.g. `%x|,`) still counts as being on it.
  */
-function matchAtPosition(
-    line: string,
-    col: number,
-    regex: RegExp
-): { match: RegExpExecArray; start: number; end: number } | null {
-    let match;
-    while ((match = regex.exec(line)) !== null) {
-        const start = match.index;
-        const end = match.index + match[0].length;
-        if (col >= start && col <= end) {
-            return { match, start, end };
+function findTokenAt(tokens: Token[], offset: number): Token | undefined {
+    let low = 0;
+    let high = tokens.length - 1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (tokens[mid].end < offset) {
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+    let fallback: Token | undefined;
+    for (let i = low; i < tokens.length && tokens[i].offset <= offset; i++) {
+        if (tokens[i].kind !== TokenKind.Punct) {
+            return tokens[i];
         }
+        fallback = fallback ?? tokens[i];
     }
-    return null;
+    return fallback;
 }
 
 /**
@@ -604,6 +474,7 @@ export function toVSCodeSymbolKind(kind: SymbolKind): vscode.SymbolKind {
  */
 export function clearCache(uri: vscode.Uri): void {
     documentCache.delete(uri.toString());
+    passDumpCache.delete(uri.toString());
 }
 
 /**
@@ -611,4 +482,5 @@ export function clearCache(uri: vscode.Uri): void {
  */
 export function clearAllCache(): void {
     documentCache.clear();
+    passDumpCache.clear();
 }
@@ -0,0 +1,165 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+
+// Optimized output of a large module easily exceeds Node's default of 1 MB
+const MAX_OUTPUT_SIZE = 512 * 1024 * 1024;
+
+const POSITIONED_MESSAGE = /^(.*?):(\d+):(\d+): (error|warning|note): (.*)$/;
+
+/**
+ * Output of a finished tool run
+ */
+export interface ToolResult {
+    stdout: string;
+    stderr: string;
+    exitCode: number;
+}
+
+/**
+ * The tool could not be started, usually because it is not installed where
+ * the configuration says
+ */
+export class ToolNotFoundError extends Error {
+    constructor(readonly executable: string) {
+        super(`Could not run '${executable}'. Set llvm-ir.llvmBinDirectory to the bin directory of your LLVM build.`);
+    }
+}
+
+/**
+ * The tool was stopped because it ran longer than allowed
+ */
+export class ToolTimeoutError extends Error {
+    constructor(readonly executable: string, readonly timeout: number) {
+        super(`'${executable}' did not finish within ${timeout / 1000} seconds.`);
+    }
+}
+
+/**
+ * A `file:line:col: error: message` line of LLVM tool output, with the
+ * zero-based position it points to
+ */
+export interface ToolMessage {
+    file: string;
+    line: number;
+    column: number;
+    severity: vscode.DiagnosticSeverity;
+    message: string;
+}
+
+/**
+ * A verifier message such as `Instruction does not dominate all uses!` and
+ * the values dumped after it, usually the offending instructions
+ */
+export interface VerifierMessage {
+    message: string;
+    values: string[];
+}
+
+/**
+ * The executable of an LLVM tool such as `opt`: from llvm-ir.llvmBinDirectory
+ * when set, otherwise looked up on the PATH
+ */
+export function resolveTool(name: string): string {
+    const configured = vscode.workspace.getConfiguration('llvm-ir').get<string>('llvmBinDirectory', '').trim();
+    if (!configured) {
+        return name;
+    }
+    const base = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? '';
+    const directory = configured.replace(/\$\{workspaceFolder\}/g, base);
+    const executable = process.platform === 'win32' ? `${name}.exe` : name;
+    return path.join(path.isAbsolute(directory) ? directory : path.join(base, directory), executable);
+}
+
+/**
+ * Run a tool with `input` on stdin. Resolves with its output whatever the
+ * exit code; rejects when the tool cannot be started, is cancelled or runs
+ * longer than `timeout` milliseconds.
+ */
+export function runTool(
+    executable: string,
+    args: string[],
+    input: string,
+    token?: vscode.CancellationToken,
+    timeout = 0
+): Promise<ToolResult> {
+    return new Promise((resolve, reject) => {
+        const options = { maxBuffer: MAX_OUTPUT_SIZE, timeout };
+        const child = execFile(executable, args, options, (error, stdout, stderr) => {
+            // A non-zero exit status comes as an error whose code is a number
+            const code: unknown = error?.code;
+            if (code === 'ENOENT' || code === 'EACCES') {
+                reject(new ToolNotFoundError(executable));
+            } else if (token?.isCancellationRequested) {
+                reject(new vscode.CancellationError());
+            } else if (error?.killed && timeout > 0) {
+                reject(new ToolTimeoutError(executable, timeout));
+            } else if (error && typeof code !== 'number') {
+                reject(error);
+            } else {
+                resolve({ stdout, stderr, exitCode: typeof code === 'number' ? code : 0 });
+            }
+        });
+        token?.onCancellationRequested(() => child.kill());
+        // The tool may exit before reading all of its input
+        child.stdin?.on('error', () => undefined);
+        child.stdin?.end(input);
+    });
+}
+
+/**
+ * The `<file>:line:col: severity: message` lines of tool output. The source
+ * line and caret that follow each message are left out.
+ */
+export function parseToolMessages(output: string): ToolMessage[] {
+    const messages: ToolMessage[] = [];
+    for (const line of output.split(/\r?\n/)) {
+        const match = line.match(POSITIONED_MESSAGE);
+        if (!match) {
+            continue;
+        }
+        messages.push({
+            file: match[1],
+            line: parseInt(match[2], 10) - 1,
+            column: Math.max(parseInt(match[3], 10) - 1, 0),
+            severity: match[4] === 'error'
+                ? vscode.DiagnosticSeverity.Error
+                : match[4] === 'warning' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Information,
+            message: match[5],
+        });
+    }
+    return messages;
+}
+
+/**
+ * The messages the IR verifier prints when a module parses but is invalid.
+ * Each message is a line of its own, almost always ending in `!`, followed
+ * by dumps of the values involved: instructions indented as in a function
+ * body, other values as `type name`. Positioned messages with their source
+ * line and caret, and lines of the tool's own such as
+ * `opt: -: error: input module is broken!`, are left out.
+ */
+export function parseVerifierMessages(output: string): VerifierMessage[] {
+    const messages: VerifierMessage[] = [];
+    const lines = output.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (POSITIONED_MESSAGE.test(line)) {
+            if (/^\s*\^/.test(lines[i + 2] ?? '')) {
+                i += 2;
+            }
+            continue;
+        }
+        if (!line.trim() || /^[^\s:]+: /.test(line)) {
+            continue;
+        }
+        const current = messages[messages.length - 1];
+        if (current && (/^\s/.test(line) || !line.trimEnd().endsWith('!'))) {
+            // Types are dumped without a line break, as in ` i64  %c = call ...`
+            current.values.push(...line.trim().split(/\s{2,}/));
+        } else {
+            messages.push({ message: line.trim(), values: [] });
+        }
+    }
+    return messages;
+}
@@ -0,0 +1,360 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { IRFunction, IRGlobal, IRModule, IROperand, IRValue, TypeKind, ValueKind, typeToString } from './ir';
+import { getFunctionAtPosition, parseDocument } from './llvmIrParser';
+import { parseToolMessages, resolveTool, runTool, ToolNotFoundError } from './llvmTools';
+
+// The last pipeline, offered again by the next run
+const PIPELINE_KEY = 'llvm-ir.optPipeline';
+const DEFAULT_PIPELINE = '-passes=instcombine,simplifycfg';
+
+// Scheme of the read-only documents holding opt input and output
+const SCHEME = 'llvm-ir-opt';
+
+/**
+ * The text given to opt, and for each of its lines the document line it came from
+ */
+interface OptInput {
+    text: string;
+    lineMap: number[];
+}
+
+/**
+ * Runs a local opt binary on a document or a single function and shows the
+ * result in a diff editor. opt errors become diagnostics on the document.
+ */
+export class OptRunner implements vscode.Disposable {
+    private readonly diagnostics = vscode.languages.createDiagnosticCollection('opt');
+    private readonly output = vscode.window.createOutputChannel('LLVM IR: opt');
+    private readonly contents = new Map<string, string>();
+    private readonly disposables: vscode.Disposable[] = [];
+    private runCount = 0;
+
+    constructor(private readonly state: vscode.Memento) {
+        this.disposables.push(
+            vscode.workspace.registerTextDocumentContentProvider(SCHEME, {
+                provideTextDocumentContent: uri => this.contents.get(uri.toString()) ?? '',
+            }),
+            // Positions reported by opt are only valid for the text it was given
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.contentChanges.length > 0) {
+                    this.diagnostics.delete(event.document.uri);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => this.diagnostics.delete(document.uri))
+        );
+    }
+
+    /**
+     * Ask for a pipeline and what to optimize, run opt and diff its output
+     * against its input
+     */
+    async run(editor: vscode.TextEditor): Promise<void> {
+        const document = editor.document;
+        const parsed = parseDocument(document);
+
+        let functionName = getFunctionAtPosition(parsed, editor.selection.active);
+        if (functionName) {
+            const picked = await vscode.window.showQuickPick([
+                { label: 'Whole module', functionName: undefined },
+                { label: `Only ${functionName}`, description: 'Other functions become declarations', functionName },
+            ], { placeHolder: 'What should opt run on?' });
+            if (!picked) {
+                return;
+            }
+            functionName = picked.functionName;
+        }
+
+        const pipeline = await vscode.window.showInputBox({
+            prompt: 'opt pass pipeline or arguments',
+            placeHolder: 'e.g. instcombine,simplifycfg or -passes=instcombine -debug-pass-manager',
+            value: this.state.get<string>(PIPELINE_KEY, DEFAULT_PIPELINE),
+            validateInput: value => value.trim() ? undefined : 'Enter a pass pipeline.',
+        });
+        if (!pipeline) {
+            return;
+        }
+        await this.state.update(PIPELINE_KEY, pipeline);
+
+        const input = functionName
+            ? extractFunction(document, parsed.module, functionName)
+            : { text: document.getText(), lineMap: [...Array(document.lineCount).keys()] };
+        const executable = resolveTool('opt');
+        const args = [...optArguments(pipeline), '-S', '-o', '-', '-'];
+        this.output.appendLine(`$ ${executable} ${args.join(' ')}`);
+
+        let result;
+        try {
+            result = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Running opt ${pipeline}`,
+                cancellable: true,
+            }, (_progress, token) => runTool(executable, args, input.text, token));
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                return;
+            }
+            if (error instanceof ToolNotFoundError) {
+                const choice = await vscode.window.showErrorMessage(error.message, 'Open Settings');
+                if (choice) {
+                    vscode.commands.executeCommand('workbench.action.openSettings', 'llvm-ir.llvmBinDirectory');
+                }
+                return;
+            }
+            vscode.window.showErrorMessage(`opt failed: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+
+        this.output.append(result.stderr);
+        this.reportMessages(document, result.stderr, input);
+        if (result.exitCode !== 0) {
+            const firstLine = result.stderr.split('\n').find(line => line.trim()) ?? '';
+            const choice = await vscode.window.showErrorMessage(
+                `opt exited with status ${result.exitCode}. ${firstLine}`,
+                'Show Output'
+            );
+            if (choice) {
+                this.output.show(true);
+            }
+            return;
+        }
+
+        // Earlier diffs keep the text they were opened with
+        this.contents.clear();
+        const id = ++this.runCount;
+        const name = path.basename(document.uri.fsPath, path.extname(document.uri.fsPath));
+        const before = functionName ? this.virtualDocument(`${name}.${id}.input.ll`, input.text) : document.uri;
+        const after = this.virtualDocument(`${name}.${id}.opt.ll`, result.stdout);
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            before,
+            after,
+            `${path.basename(document.uri.fsPath)} ↔ opt ${pipeline}`
+        );
+    }
+
+    private virtualDocument(name: string, text: string): vscode.Uri {
+        const uri = vscode.Uri.from({ scheme: SCHEME, path: `/${name}` });
+        this.contents.set(uri.toString(), text);
+        return uri;
+    }
+
+    /**
+     * Map the `<stdin>:line:col:` messages of opt back to the document
+     */
+    private reportMessages(document: vscode.TextDocument, stderr: string, input: OptInput): void {
+        const diagnostics: vscode.Diagnostic[] = [];
+        for (const message of parseToolMessages(stderr)) {
+            const line = input.lineMap[message.line];
+            if (line === undefined) {
+                continue;
+            }
+            const text = document.lineAt(line).text;
+            const position = new vscode.Position(line, Math.min(message.column, text.length));
+            const range = document.getWordRangeAtPosition(position)
+                ?? new vscode.Range(position, new vscode.Position(line, text.length));
+            const diagnostic = new vscode.Diagnostic(range, message.message, message.severity);
+            diagnostic.source = 'opt';
+            diagnostics.push(diagnostic);
+        }
+        this.diagnostics.set(document.uri, diagnostics);
+    }
+
+    dispose(): void {
+        this.diagnostics.dispose();
+        this.output.dispose();
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+    }
+}
+
+/**
+ * Command-line arguments for a pipeline: a bare pipeline such as
+ * `instcombine,simplifycfg` becomes `-passes=...`, anything starting with
+ * `-` is split into arguments the way a shell would, so that
+ * `-passes='default<O2>'` reaches opt without the quotes
+ */
+function optArguments(pipeline: string): string[] {
+    const trimmed = pipeline.trim();
+    return trimmed.startsWith('-') ? splitArguments(trimmed) : [`-passes=${splitArguments(trimmed).join(' ')}`];
+}
+
+/**
+ * Split on unquoted whitespace. Single quotes keep everything, double quotes
+ * and backslashes escape the next character the way POSIX shells do.
+ */
+function splitArguments(text: string): string[] {
+    const args: string[] = [];
+    let current: string | undefined;
+    let quote: string | undefined;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quote === "'") {
+            if (ch === "'") {
+                quote = undefined;
+            } else {
+                current += ch;
+            }
+        } else if (ch === '\\' && i + 1 < text.length && (quote !== '"' || '"\\$`'.includes(text[i + 1]))) {
+            current = (current ?? '') + text[++i];
+        } else if (quote === '"') {
+            if (ch === '"') {
+                quote = undefined;
+            } else {
+                current += ch;
+            }
+        } else if (ch === "'" || ch === '"') {
+            quote = ch;
+            current = current ?? '';
+        } else if (/\s/.test(ch)) {
+            if (current !== undefined) {
+                args.push(current);
+                current = undefined;
+            }
+        } else {
+            current = (current ?? '') + ch;
+        }
+    }
+    if (current !== undefined) {
+        args.push(current);
+    }
+    return args;
+}
+
+/**
+ * The module with every function definition but one turned into a
+ * declaration, the way llvm-extract leaves it. Aliases and ifuncs of the
+ * removed functions become declarations as well, and functions whose blocks
+ * a blockaddress constant refers to keep their bodies.
+ */
+function extractFunction(document: vscode.TextDocument, module: IRModule, name: string): OptInput {
+    const removed = functionsToRemove(module, name);
+    const replacements = new Map<number, { end: number; text: string }>();
+    for (const func of module.functions) {
+        if (removed.has(func.name)) {
+            replacements.set(func.range.start.line, { end: func.range.end.line, text: declarationOf(func) });
+        }
+    }
+    for (const global of aliasesOf(module, removed)) {
+        replacements.set(global.range.start.line, { end: global.range.end.line, text: aliasDeclarationOf(global) });
+    }
+
+    const lines: string[] = [];
+    const lineMap: number[] = [];
+    for (let line = 0; line < document.lineCount; line++) {
+        const replacement = replacements.get(line);
+        lineMap.push(line);
+        if (replacement) {
+            lines.push(replacement.text);
+            line = replacement.end;
+        } else {
+            lines.push(document.lineAt(line).text);
+        }
+    }
+    return { text: lines.join('\n') + '\n', lineMap };
+}
+
+/**
+ * The function definitions other than `name` to turn into declarations. A
+ * blockaddress needs the body of its function, so functions whose blocks the
+ * kept functions or the global initializers take the address of are kept.
+ */
+function functionsToRemove(module: IRModule, name: string): Set<string> {
+    const definitions = new Map(module.functions.filter(func => !func.isDeclaration).map(func => [func.name, func]));
+    const kept = new Set<string>();
+    const worklist = [name];
+    const keepAddressedFunctions = (operand: IROperand) => {
+        for (const value of nestedValues(operand)) {
+            const target = value.kind === ValueKind.BlockAddress ? value.operands?.[0].value.name : undefined;
+            if (target && definitions.has(target) && !kept.has(target)) {
+                worklist.push(target);
+            }
+        }
+    };
+
+    for (const global of module.globals) {
+        if (global.initializer) {
+            keepAddressedFunctions(global.initializer);
+        }
+    }
+    while (worklist.length > 0) {
+        const func = definitions.get(worklist.pop()!);
+        if (!func || kept.has(func.name)) {
+            continue;
+        }
+        kept.add(func.name);
+        for (const block of func.blocks) {
+            for (const inst of block.instructions) {
+                inst.operands.forEach(keepAddressedFunctions);
+            }
+        }
+    }
+    return new Set([...definitions.keys()].filter(func => !kept.has(func)));
+}
+
+/**
+ * The aliases and ifuncs that refer to a removed function, directly or
+ * through another such alias. They must refer to a definition.
+ */
+function aliasesOf(module: IRModule, removed: Set<string>): IRGlobal[] {
+    const gone = new Set(removed);
+    const aliases: IRGlobal[] = [];
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const global of module.globals) {
+            if (global.kind === 'variable' || !global.initializer || gone.has(global.name)) {
+                continue;
+            }
+            if (nestedValues(global.initializer).some(value => value.kind === ValueKind.Global && gone.has(value.name!))) {
+                gone.add(global.name);
+                aliases.push(global);
+                changed = true;
+            }
+        }
+    }
+    return aliases;
+}
+
+/**
+ * The value of an operand and the values nested in it, e.g. the function of
+ * a blockaddress or the aliasee inside a constant expression
+ */
+function nestedValues(operand: IROperand, result: IRValue[] = []): IRValue[] {
+    result.push(operand.value);
+    for (const nested of operand.value.operands ?? []) {
+        nestedValues(nested, result);
+    }
+    return result;
+}
+
+/**
+ * The declaration llvm-extract puts in place of an alias or ifunc whose
+ * target is removed: a function or an external global of its value type
+ */
+function aliasDeclarationOf(global: IRGlobal): string {
+    const type = global.valueType;
+    if (type.kind !== TypeKind.Function) {
+        return `${global.name} = external global ${typeToString(type)}`;
+    }
+    const params = (type.params ?? []).map(typeToString);
+    if (type.varArgs) {
+        params.push('...');
+    }
+    return ['declare', typeToString(type.returnType!), `${global.name}(${params.join(', ')})`].join(' ');
+}
+
+/**
+ * A declaration with the signature of a function definition. Linkage and
+ * header clauses such as personality are dropped, since declarations cannot
+ * have them.
+ */
+function declarationOf(func: IRFunction): string {
+    const params = func.params.map(param => [typeToString(param.type), ...param.attributes].join(' '));
+    if (func.varArgs) {
+        params.push('...');
+    }
+    const attributeGroups = func.attributes.filter(attribute => /^#\d+$/.test(attribute));
+    return ['declare', typeToString(func.returnType), `${func.name}(${params.join(', ')})`, ...attributeGroups].join(' ');
+}
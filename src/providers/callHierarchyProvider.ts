@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import { IRModule } from '../ir';
+import { getSymbolAtPosition, parseDocument, SymbolKind } from '../llvmIrParser';
+import { findCallSites } from '../analysis/callGraph';
+import { WorkspaceIndex } from '../workspaceIndex';
+
+/**
+ * Callers and callees of functions, following declarations into the .ll
+ * files of the workspace that define them. Global initializers such as
+ * `@llvm.global_ctors` appear as callers of the functions they point to.
+ */
+export class LLVMIRCallHierarchyProvider implements vscode.CallHierarchyProvider {
+    constructor(private readonly index: WorkspaceIndex) {}
+
+    async prepareCallHierarchy(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken
+    ): Promise<vscode.CallHierarchyItem | undefined> {
+        const symbol = getSymbolAtPosition(document, position);
+        if (!symbol?.name.startsWith('@')) {
+            return undefined;
+        }
+        return this.resolveItem(document.uri, parseDocument(document).module, symbol.name);
+    }
+
+    async provideCallHierarchyIncomingCalls(
+        item: vscode.CallHierarchyItem,
+        _token: vscode.CancellationToken
+    ): Promise<vscode.CallHierarchyIncomingCall[]> {
+        const module = await this.moduleOf(item.uri);
+        const sites = findCallSites(module)
+            .filter(site => site.callee === item.name)
+            .map(site => ({ uri: item.uri, site }));
+        // Other files reach this definition through their declarations, unless they define the name themselves
+        for (const found of this.index.findCallSites(item.name)) {
+            if (found.uri.toString() !== item.uri.toString() && !this.definesFunction(found.uri, item.name)) {
+                sites.push(found);
+            }
+        }
+
+        const calls: vscode.CallHierarchyIncomingCall[] = [];
+        for (const group of groupBy(sites, ({ uri, site }) => `${uri.toString()} ${site.caller}`).values()) {
+            const uri = group[0].uri;
+            const caller = itemFor(uri, await this.moduleOf(uri), group[0].site.caller);
+            if (caller) {
+                calls.push(new vscode.CallHierarchyIncomingCall(caller, group.map(({ site }) => site.range)));
+            }
+        }
+        return calls;
+    }
+
+    async provideCallHierarchyOutgoingCalls(
+        item: vscode.CallHierarchyItem,
+        _token: vscode.CancellationToken
+    ): Promise<vscode.CallHierarchyOutgoingCall[]> {
+        const module = await this.moduleOf(item.uri);
+        const sites = findCallSites(module).filter(site => site.caller === item.name);
+
+        const calls: vscode.CallHierarchyOutgoingCall[] = [];
+        for (const [callee, group] of groupBy(sites, site => site.callee)) {
+            const target = await this.resolveItem(item.uri, module, callee);
+            if (target) {
+                calls.push(new vscode.CallHierarchyOutgoingCall(target, group.map(site => site.range)));
+            }
+        }
+        return calls;
+    }
+
+    /**
+     * The item of a global name, taken from the file that defines it when
+     * this module only declares it
+     */
+    private async resolveItem(
+        uri: vscode.Uri,
+        module: IRModule,
+        name: string
+    ): Promise<vscode.CallHierarchyItem | undefined> {
+        const func = module.functions.find(f => f.name === name);
+        if (func?.isDeclaration) {
+            const definition = this.index.findDefinitions(SymbolKind.Function, name)
+                .find(symbol => !symbol.isDeclaration && symbol.location.uri.toString() !== uri.toString());
+            if (definition) {
+                const external = itemFor(definition.location.uri, await this.moduleOf(definition.location.uri), name);
+                if (external) {
+                    return external;
+                }
+            }
+        }
+        return itemFor(uri, module, name);
+    }
+
+    private definesFunction(uri: vscode.Uri, name: string): boolean {
+        return this.index.findDefinitions(SymbolKind.Function, name)
+            .some(symbol => !symbol.isDeclaration && symbol.location.uri.toString() === uri.toString());
+    }
+
+    private async moduleOf(uri: vscode.Uri): Promise<IRModule> {
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString())
+            ?? await vscode.workspace.openTextDocument(uri);
+        return parseDocument(document).module;
+    }
+}
+
+/**
+ * A function or global variable of a module as a call hierarchy item
+ */
+function itemFor(uri: vscode.Uri, module: IRModule, name: string): vscode.CallHierarchyItem | undefined {
+    const detail = vscode.workspace.asRelativePath(uri);
+    const func = module.functions.find(f => f.name === name);
+    if (func) {
+        return new vscode.CallHierarchyItem(
+            vscode.SymbolKind.Function,
+            name,
+            func.isDeclaration ? `${detail} (declaration)` : detail,
+            uri,
+            func.range,
+            func.nameRange
+        );
+    }
+    const global = module.globals.find(g => g.name === name);
+    if (global?.kind === 'variable') {
+        return new vscode.CallHierarchyItem(vscode.SymbolKind.Variable, name, detail, uri, global.range, global.nameRange);
+    }
+    return undefined;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        const group = groups.get(key(item)) ?? [];
+        group.push(item);
+        groups.set(key(item), group);
+    }
+    return groups;
+}
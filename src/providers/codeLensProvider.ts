@@ -0,0 +1,37 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { parseDocument } from '../llvmIrParser';
+import { createMetadataMap, resolveMetadata, sourceLocation } from '../analysis/debugInfo';
+
+/**
+ * Puts an "Open source" lens above each function definition with debug info
+ */
+export class LLVMIRCodeLensProvider implements vscode.CodeLensProvider {
+    provideCodeLenses(
+        document: vscode.TextDocument,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.CodeLens[]> {
+        const config = vscode.workspace.getConfiguration('llvm-ir', document.uri);
+        if (!config.get<boolean>('codeLens.sourceLocation', true)) {
+            return [];
+        }
+
+        const module = parseDocument(document).module;
+        const metadata = createMetadataMap(module);
+        const lenses: vscode.CodeLens[] = [];
+        for (const func of module.functions) {
+            const dbg = func.attachments.find(attachment => attachment.kind === '!dbg');
+            const subprogram = resolveMetadata(dbg?.value, metadata);
+            const location = subprogram ? sourceLocation(subprogram, metadata) : undefined;
+            if (func.isDeclaration || !location) {
+                continue;
+            }
+            lenses.push(new vscode.CodeLens(func.headerRange, {
+                title: `Open source: ${path.basename(location.filename)}:${location.line}`,
+                command: 'llvm-ir.openSourceLocation',
+                arguments: [location],
+            }));
+        }
+        return lenses;
+    }
+}
@@ -0,0 +1,364 @@
+import * as vscode from 'vscode';
+import {
+    parseDocument,
+    getFunctionAtPosition,
+    getSymbolKey,
+    ParsedDocument,
+    SymbolKind,
+} from '../llvmIrParser';
+import {
+    ATOMIC_ORDERINGS,
+    ATOMICRMW_OPERATIONS,
+    BINARY_OPCODES,
+    CALL_MARKERS,
+    DLL_STORAGE_CLASSES,
+    FAST_MATH_FLAGS,
+    FAST_MATH_OPCODES,
+    FCMP_PREDICATES,
+    FIRST_CLASS_TYPES,
+    FUNCTION_ATTRIBUTES,
+    GLOBAL_KEYWORDS,
+    ICMP_PREDICATES,
+    INSTRUCTION_OPCODES,
+    IRFunction,
+    LINKAGE_TYPES,
+    METADATA_KINDS,
+    OPCODE_FLAGS,
+    SPECIALIZED_METADATA_NODES,
+    TOP_LEVEL_KEYWORDS,
+    Token,
+    TokenKind,
+    VISIBILITY_STYLES,
+    tokenize,
+    typeToString,
+} from '../ir';
+import { collectValueTypes, createTypeContext } from '../analysis/typeInference';
+
+const CONSTANTS = ['true', 'false', 'null', 'undef', 'poison', 'zeroinitializer'];
+
+const ALL_FLAGS = new Set([...Object.values(OPCODE_FLAGS).flat(), ...FAST_MATH_FLAGS, ...CALL_MARKERS]);
+
+/**
+ * What the cursor is in front of, worked out from the tokens before it on the same line
+ */
+interface LineContext {
+    tokens: Token[];
+    last?: Token;
+    // Opcode of the instruction on this line, if any
+    opcode?: string;
+    // The function whose body contains the line
+    func?: IRFunction;
+}
+
+/**
+ * Suggests opcodes, flags, types, values, labels, globals, metadata and
+ * attributes depending on where the cursor is
+ */
+export class LLVMIRCompletionProvider implements vscode.CompletionItemProvider {
+    provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken,
+        _context: vscode.CompletionContext
+    ): vscode.ProviderResult<vscode.CompletionItem[]> {
+        const linePrefix = document.lineAt(position.line).text.substring(0, position.character);
+        const partial = linePrefix.match(/[%@!#]?[-\w.$]*$/)![0];
+        const before = linePrefix.substring(0, linePrefix.length - partial.length);
+
+        // Nothing to suggest inside comments and strings
+        const { tokens, comments } = tokenize(before);
+        if (comments.length > 0 || (before.match(/"/g) ?? []).length % 2 === 1) {
+            return undefined;
+        }
+
+        const parsed = parseDocument(document, position);
+        const context = this.getLineContext(parsed, position, tokens);
+        const range = new vscode.Range(position.translate(0, -partial.length), position);
+
+        if (/^\s*attributes\s+#[0-9]+\s*=\s*\{/.test(before)) {
+            return this.keywords(FUNCTION_ATTRIBUTES, vscode.CompletionItemKind.Property, range);
+        }
+
+        switch (partial[0]) {
+            case '@':
+                return this.globalItems(parsed, range);
+            case '!':
+                return this.metadataItems(parsed, context, before, range);
+            case '%':
+                return this.localItems(parsed, context, position, range);
+            case '#':
+                return undefined;
+            default:
+                return this.wordItems(parsed, context, range);
+        }
+    }
+
+    private getLineContext(parsed: ParsedDocument, position: vscode.Position, tokens: Token[]): LineContext {
+        const functionName = getFunctionAtPosition(parsed, position);
+        const func = parsed.module.functions.find(f => f.name === functionName && !f.isDeclaration);
+        const inBody = func !== undefined && position.line > func.headerRange.start.line;
+
+        // Skip `%x =` and call markers to find the opcode
+        let i = 0;
+        if (tokens[0]?.kind === TokenKind.LocalVar && tokens[1]?.text === '=') {
+            i = 2;
+        }
+        while (tokens[i] && CALL_MARKERS.includes(tokens[i].text)) {
+            i++;
+        }
+        const opcode = inBody && tokens[i] && INSTRUCTION_OPCODES.includes(tokens[i].text) ? tokens[i].text : undefined;
+
+        return { tokens, last: tokens[tokens.length - 1], opcode, func: inBody ? func : undefined };
+    }
+
+    private globalItems(parsed: ParsedDocument, range: vscode.Range): vscode.CompletionItem[] {
+        const items: vscode.CompletionItem[] = [];
+        const seen = new Set<string>();
+        for (const definition of parsed.definitions.values()) {
+            const isFunction = definition.kind === SymbolKind.Function;
+            if ((!isFunction && definition.kind !== SymbolKind.GlobalValue) || seen.has(definition.name)) {
+                continue;
+            }
+            seen.add(definition.name);
+            const kind = isFunction ? vscode.CompletionItemKind.Function : vscode.CompletionItemKind.Variable;
+            items.push(this.item(definition.name, kind, range, definition.detail));
+        }
+        return items;
+    }
+
+    private metadataItems(
+        parsed: ParsedDocument,
+        context: LineContext,
+        before: string,
+        range: vscode.Range
+    ): vscode.CompletionItem[] {
+        // `, !dbg` after an instruction or global, or after a function header's parameter list
+        if (context.last && this.atDepthZero(context.tokens) && (context.last.text === ',' || this.afterHeaderParams(context.tokens))) {
+            return this.keywords(METADATA_KINDS.map(kind => `!${kind}`), vscode.CompletionItemKind.Property, range);
+        }
+
+        const items: vscode.CompletionItem[] = [];
+        for (const definition of parsed.definitions.values()) {
+            if (definition.kind === SymbolKind.Metadata) {
+                items.push(this.item(definition.name, vscode.CompletionItemKind.Reference, range, definition.detail));
+            }
+        }
+        if (/^\s*!/.test(before)) {
+            items.push(...this.keywords(SPECIALIZED_METADATA_NODES.map(node => `!${node}`), vscode.CompletionItemKind.Class, range));
+        }
+        return items;
+    }
+
+    private localItems(
+        parsed: ParsedDocument,
+        context: LineContext,
+        position: vscode.Position,
+        range: vscode.Range
+    ): vscode.CompletionItem[] {
+        const func = context.func;
+        if (func && context.tokens.length === 0) {
+            // Defining a new value
+            return [];
+        }
+        if (func && (context.last?.text === 'label' || this.atPhiBlock(context))) {
+            return this.labelItems(parsed, func, range);
+        }
+        if (func && this.atValuePosition(parsed, context)) {
+            return this.valueItems(parsed, func, position, range);
+        }
+        return this.namedTypeItems(parsed, range);
+    }
+
+    private wordItems(parsed: ParsedDocument, context: LineContext, range: vscode.Range): vscode.CompletionItem[] {
+        const { tokens, last, opcode } = context;
+        const Keyword = vscode.CompletionItemKind.Keyword;
+
+        if (context.func) {
+            const atOpcode = tokens.length === 0
+                || (tokens.length === 2 && tokens[0].kind === TokenKind.LocalVar && tokens[1].text === '=')
+                || (last !== undefined && CALL_MARKERS.includes(last.text));
+            if (atOpcode) {
+                return [
+                    ...this.keywords(INSTRUCTION_OPCODES, Keyword, range),
+                    ...this.keywords(CALL_MARKERS, Keyword, range),
+                ];
+            }
+
+            const items = [...this.typeItems(parsed, range)];
+            if (opcode && last && (last.text === opcode || ALL_FLAGS.has(last.text))) {
+                items.push(...this.keywords(OPCODE_FLAGS[opcode] ?? [], Keyword, range));
+                if (FAST_MATH_OPCODES.includes(opcode)) {
+                    items.push(...this.keywords(FAST_MATH_FLAGS, Keyword, range));
+                }
+                if (opcode === 'icmp') {
+                    items.push(...this.keywords(ICMP_PREDICATES, vscode.CompletionItemKind.EnumMember, range));
+                } else if (opcode === 'fcmp') {
+                    items.push(...this.keywords(FCMP_PREDICATES, vscode.CompletionItemKind.EnumMember, range));
+                } else if (opcode === 'atomicrmw') {
+                    items.push(...this.keywords(ATOMICRMW_OPERATIONS, vscode.CompletionItemKind.EnumMember, range));
+                }
+            } else if (opcode && ['load', 'store', 'atomicrmw', 'cmpxchg', 'fence'].includes(opcode)) {
+                items.push(...this.keywords(ATOMIC_ORDERINGS, vscode.CompletionItemKind.EnumMember, range));
+            }
+            items.push(...this.keywords(CONSTANTS, vscode.CompletionItemKind.Constant, range));
+            return items;
+        }
+
+        if (tokens.length === 0) {
+            return this.keywords(TOP_LEVEL_KEYWORDS, Keyword, range);
+        }
+
+        // Linkage and visibility come before the return type of a function or the `global` of a variable
+        const first = tokens[0];
+        const isFunctionStart = (first.text === 'define' || first.text === 'declare')
+            && !tokens.some(token => token.kind === TokenKind.GlobalVar);
+        const isGlobalStart = first.kind === TokenKind.GlobalVar && tokens[1]?.text === '='
+            && !tokens.some(token => token.text === 'global' || token.text === 'constant');
+        if (isFunctionStart || isGlobalStart) {
+            return [
+                ...this.keywords(
+                    [...LINKAGE_TYPES, ...VISIBILITY_STYLES, ...DLL_STORAGE_CLASSES, ...GLOBAL_KEYWORDS.filter(
+                        keyword => isGlobalStart || !['global', 'constant', 'alias', 'ifunc', 'externally_initialized'].includes(keyword)
+                    )],
+                    Keyword,
+                    range
+                ),
+                ...this.typeItems(parsed, range),
+            ];
+        }
+
+        return this.typeItems(parsed, range);
+    }
+
+    /**
+     * Is a `%` at the cursor a value rather than a type? Values follow their
+     * type, except for the second operand of binary operators and comparisons.
+     */
+    private atValuePosition(parsed: ParsedDocument, context: LineContext): boolean {
+        const { last, opcode } = context;
+        if (!last) {
+            return false;
+        }
+        switch (last.kind) {
+            case TokenKind.Word:
+                return FIRST_CLASS_TYPES.includes(last.text) || /^i[0-9]+$/.test(last.text)
+                    || !(INSTRUCTION_OPCODES.includes(last.text) || ALL_FLAGS.has(last.text)
+                        || ['to', 'x', 'type', 'within', 'vscale'].includes(last.text));
+            case TokenKind.LocalVar:
+                return parsed.definitions.has(getSymbolKey(SymbolKind.NamedType, last.text));
+            case TokenKind.Punct:
+                if (last.text === '*' || last.text === ']' || last.text === '}' || last.text === '>') {
+                    return true;
+                }
+                if (last.text === '[') {
+                    return opcode === 'phi';
+                }
+                if (last.text === ',') {
+                    return opcode !== undefined && this.atDepthZero(context.tokens)
+                        && (BINARY_OPCODES.includes(opcode) || opcode === 'icmp' || opcode === 'fcmp');
+                }
+                return false;
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Is the cursor at the block of a phi's `[ value, %block ]` pair?
+     */
+    private atPhiBlock(context: LineContext): boolean {
+        if (context.opcode !== 'phi' || context.last?.text !== ',') {
+            return false;
+        }
+        const open = context.tokens.map(token => token.text).lastIndexOf('[');
+        const close = context.tokens.map(token => token.text).lastIndexOf(']');
+        return open > close;
+    }
+
+    private atDepthZero(tokens: Token[]): boolean {
+        let depth = 0;
+        for (const token of tokens) {
+            if (token.kind !== TokenKind.Punct) {
+                continue;
+            }
+            if (token.text === '(' || token.text === '[' || token.text === '{' || token.text === '<') {
+                depth++;
+            } else if (token.text === ')' || token.text === ']' || token.text === '}' || token.text === '>') {
+                depth--;
+            }
+        }
+        return depth === 0;
+    }
+
+    private afterHeaderParams(tokens: Token[]): boolean {
+        return (tokens[0]?.text === 'define' || tokens[0]?.text === 'declare')
+            && tokens.some(token => token.text === ')');
+    }
+
+    private valueItems(
+        parsed: ParsedDocument,
+        func: IRFunction,
+        position: vscode.Position,
+        range: vscode.Range
+    ): vscode.CompletionItem[] {
+        const types = collectValueTypes(func, createTypeContext(parsed.module));
+        const items: vscode.CompletionItem[] = [];
+        for (const definition of parsed.definitions.values()) {
+            if (definition.kind !== SymbolKind.LocalValue || definition.functionName !== func.name) {
+                continue;
+            }
+            const type = types.get(definition.name);
+            const item = this.item(
+                definition.name,
+                vscode.CompletionItemKind.Variable,
+                range,
+                type ? typeToString(type) : definition.detail
+            );
+            if (type && definition.detail) {
+                item.documentation = new vscode.MarkdownString().appendCodeblock(definition.detail, 'llvm-ir');
+            }
+            // Values defined above the cursor first
+            item.sortText = `${definition.range.start.isBefore(position) ? 0 : 1}${definition.name}`;
+            items.push(item);
+        }
+        return items;
+    }
+
+    private labelItems(parsed: ParsedDocument, func: IRFunction, range: vscode.Range): vscode.CompletionItem[] {
+        const items: vscode.CompletionItem[] = [];
+        for (const definition of parsed.definitions.values()) {
+            if (definition.kind === SymbolKind.Label && definition.functionName === func.name) {
+                items.push(this.item(`%${definition.name}`, vscode.CompletionItemKind.Reference, range, definition.detail));
+            }
+        }
+        return items;
+    }
+
+    private namedTypeItems(parsed: ParsedDocument, range: vscode.Range): vscode.CompletionItem[] {
+        const items: vscode.CompletionItem[] = [];
+        for (const definition of parsed.definitions.values()) {
+            if (definition.kind === SymbolKind.NamedType) {
+                items.push(this.item(definition.name, vscode.CompletionItemKind.Struct, range, definition.detail));
+            }
+        }
+        return items;
+    }
+
+    private typeItems(parsed: ParsedDocument, range: vscode.Range): vscode.CompletionItem[] {
+        return [
+            ...this.keywords(FIRST_CLASS_TYPES, vscode.CompletionItemKind.TypeParameter, range),
+            ...this.namedTypeItems(parsed, range),
+        ];
+    }
+
+    private keywords(words: string[], kind: vscode.CompletionItemKind, range: vscode.Range): vscode.CompletionItem[] {
+        return words.map(word => this.item(word, kind, range));
+    }
+
+    private item(label: string, kind: vscode.CompletionItemKind, range: vscode.Range, detail?: string): vscode.CompletionItem {
+        const item = new vscode.CompletionItem(label, kind);
+        item.range = range;
+        item.detail = detail;
+        return item;
+    }
+}
@@ -5,9 +5,14 @@ import {
     getSymbolKey,
     SymbolKind,
     SymbolDefinition,
+    SymbolReference,
 } from '../llvmIrParser';
+import { IRModule } from '../ir';
+import { WorkspaceIndex } from '../workspaceIndex';
 
 export class LLVMIRDefinitionProvider implements vscode.DefinitionProvider {
+    constructor(private readonly index: WorkspaceIndex) {}
+
     provideDefinition(
         document: vscode.TextDocument,
         position: vscode.Position,
@@ -18,7 +23,7 @@ export class LLVMIRDefinitionProvider implements vscode.DefinitionProvider {
             return null;
         }
 
-        const parsed = parseDocument(document);
+        const parsed = parseDocument(document, position);
         const definition = this.findDefinition(
             parsed.definitions,
             symbol.kind,
@@ -26,6 +31,14 @@ export class LLVMIRDefinitionProvider implements vscode.DefinitionProvider {
             symbol.functionName
         );
 
+        // Follow declarations and symbols missing from this file into the rest of the workspace
+        if (!definition || this.isDeclaration(definition, parsed.module)) {
+            const external = this.findInWorkspace(document.uri, symbol.kind, symbol.name, parsed.references);
+            if (external.length > 0) {
+                return external;
+            }
+        }
+
         if (!definition) {
             return null;
         }
@@ -33,6 +46,36 @@ export class LLVMIRDefinitionProvider implements vscode.DefinitionProvider {
         return new vscode.Location(document.uri, definition.selectionRange);
     }
 
+    private isDeclaration(definition: SymbolDefinition, module: IRModule): boolean {
+        if (definition.kind === SymbolKind.Function) {
+            return !definition.functionRange;
+        }
+        // `@g = external global i32` has no initializer
+        const global = module.globals.find(g => g.name === definition.name);
+        return global?.kind === 'variable' && !global.initializer;
+    }
+
+    private findInWorkspace(
+        uri: vscode.Uri,
+        kind: SymbolKind,
+        name: string,
+        references: SymbolReference[]
+    ): vscode.Location[] {
+        let kinds: SymbolKind[];
+        if (kind === SymbolKind.GlobalValue) {
+            kinds = [SymbolKind.Function, SymbolKind.GlobalValue];
+        } else if (kind === SymbolKind.LocalValue && references.some(ref => ref.kind === SymbolKind.NamedType && ref.name === name)) {
+            kinds = [SymbolKind.NamedType];
+        } else {
+            return [];
+        }
+
+        return kinds
+            .flatMap(k => this.index.findDefinitions(k, name))
+            .filter(symbol => !symbol.isDeclaration && symbol.location.uri.toString() !== uri.toString())
+            .map(symbol => symbol.location);
+    }
+
     private findDefinition(
         definitions: Map<string, SymbolDefinition>,
         kind: SymbolKind,
@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+import { getPassDumpSnapshots, parseDocument } from '../llvmIrParser';
+import {
+    checkUndefinedSymbols,
+    checkDuplicateDefinitions,
+    checkValueNumbering,
+} from '../analysis/symbolChecks';
+import { checkDominance } from '../analysis/dominanceChecks';
+import { checkTypes } from '../analysis/typeChecks';
+import { checkFileCheck } from '../analysis/fileCheck';
+
+/**
+ * Maintains the diagnostic collection with the extension's own lightweight checks
+ */
+export class LLVMIRDiagnosticsProvider implements vscode.Disposable {
+    private readonly collection = vscode.languages.createDiagnosticCollection('llvm-ir');
+
+    updateDiagnostics(document: vscode.TextDocument): void {
+        const config = vscode.workspace.getConfiguration('llvm-ir', document.uri);
+        // Pass dumps repeat functions and hold partial functions for loop passes
+        if (!config.get<boolean>('diagnostics.enabled', true) || getPassDumpSnapshots(document)) {
+            this.collection.delete(document.uri);
+            return;
+        }
+
+        const parsed = parseDocument(document);
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        for (const parseError of parsed.module.errors) {
+            const diagnostic = new vscode.Diagnostic(
+                parseError.range,
+                parseError.message,
+                vscode.DiagnosticSeverity.Error
+            );
+            diagnostic.source = 'llvm-ir';
+            diagnostics.push(diagnostic);
+        }
+
+        diagnostics.push(...checkUndefinedSymbols(parsed));
+        diagnostics.push(...checkDuplicateDefinitions(parsed.module));
+        diagnostics.push(...checkValueNumbering(parsed.module));
+        diagnostics.push(...checkDominance(parsed.module, document.uri));
+        diagnostics.push(...checkTypes(parsed.module));
+        diagnostics.push(...checkFileCheck(parsed.module));
+
+        this.collection.set(document.uri, diagnostics);
+    }
+
+    clearDiagnostics(uri: vscode.Uri): void {
+        this.collection.delete(uri);
+    }
+
+    dispose(): void {
+        this.collection.dispose();
+    }
+}
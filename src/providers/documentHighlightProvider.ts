@@ -0,0 +1,91 @@
+import * as vscode from 'vscode';
+import {
+    parseDocument,
+    getSymbolAtPosition,
+    getSymbolKey,
+    SymbolKind,
+    SymbolDefinition,
+} from '../llvmIrParser';
+
+/**
+ * Highlights the definition (as a write) and the uses (as reads) of the
+ * symbol under the cursor. Locals and labels are matched within their
+ * function only, so `%1` never matches `%10` or the `%1` of another function.
+ */
+export class LLVMIRDocumentHighlightProvider implements vscode.DocumentHighlightProvider {
+    provideDocumentHighlights(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.DocumentHighlight[]> {
+        const symbol = getSymbolAtPosition(document, position);
+        if (!symbol) {
+            return null;
+        }
+
+        const parsed = parseDocument(document, position);
+        const { definition, name, kind } = this.resolveSymbol(
+            parsed.definitions,
+            symbol.kind,
+            symbol.name,
+            symbol.functionName
+        );
+        const highlights: vscode.DocumentHighlight[] = [];
+
+        if (definition) {
+            highlights.push(new vscode.DocumentHighlight(definition.selectionRange, vscode.DocumentHighlightKind.Write));
+        }
+
+        const isScoped = kind === SymbolKind.LocalValue || kind === SymbolKind.Label;
+        for (const ref of parsed.references) {
+            if (ref.kind !== kind || ref.name !== name) {
+                continue;
+            }
+            if (isScoped && ref.functionName !== symbol.functionName) {
+                continue;
+            }
+            highlights.push(new vscode.DocumentHighlight(ref.range, vscode.DocumentHighlightKind.Read));
+        }
+
+        return highlights;
+    }
+
+    private resolveSymbol(
+        definitions: Map<string, SymbolDefinition>,
+        kind: SymbolKind,
+        name: string,
+        functionName?: string
+    ): { definition?: SymbolDefinition; name: string; kind: SymbolKind } {
+        // For local values and labels, look up with function scope
+        if ((kind === SymbolKind.LocalValue || kind === SymbolKind.Label) && functionName) {
+            const definition = definitions.get(getSymbolKey(kind, name, functionName));
+            if (definition) {
+                return { definition, name, kind };
+            }
+
+            // A label referenced as %name
+            if (kind === SymbolKind.LocalValue) {
+                const labelName = name.substring(1);
+                const label = definitions.get(getSymbolKey(SymbolKind.Label, labelName, functionName));
+                if (label) {
+                    return { definition: label, name: labelName, kind: SymbolKind.Label };
+                }
+            }
+        }
+
+        const definition = definitions.get(getSymbolKey(kind, name));
+        if (definition) {
+            return { definition, name, kind };
+        }
+
+        // A named type used as %T
+        if (kind === SymbolKind.LocalValue) {
+            const type = definitions.get(getSymbolKey(SymbolKind.NamedType, name));
+            if (type) {
+                return { definition: type, name, kind: SymbolKind.NamedType };
+            }
+        }
+
+        return { name, kind };
+    }
+}
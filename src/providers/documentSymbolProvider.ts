@@ -1,114 +1,156 @@
 import * as vscode from 'vscode';
-import {
-    parseDocument,
-    toVSCodeSymbolKind,
-    SymbolKind,
-    SymbolDefinition,
-} from '../llvmIrParser';
+import { IRFunction, IRModule, snapshotTitle } from '../ir';
+import { parseModules, toVSCodeSymbolKind, SymbolKind } from '../llvmIrParser';
+import { buildCFG, getTerminator } from '../analysis/cfg';
+import { findModuleSections } from './foldingRangeProvider';
 
+/**
+ * Outline of a module: functions with their basic blocks at the top level,
+ * and the other module-level entities grouped into a section per run of one
+ * kind. A pass dump has a section per snapshot holding the outline of its IR.
+ */
 export class LLVMIRDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
     provideDocumentSymbols(
         document: vscode.TextDocument,
         _token: vscode.CancellationToken
     ): vscode.ProviderResult<vscode.SymbolInformation[] | vscode.DocumentSymbol[]> {
-        const parsed = parseDocument(document);
-        const symbols: vscode.DocumentSymbol[] = [];
+        return parseModules(document).flatMap(({ parsed, snapshot }) => {
+            const symbols = moduleSymbols(parsed.module);
+            if (!snapshot) {
+                return symbols;
+            }
+            const header = document.lineAt(snapshot.headerLine).range;
+            const end = document.lineAt(Math.max(snapshot.endLine - 1, snapshot.headerLine)).range.end;
+            const section = new vscode.DocumentSymbol(
+                snapshotTitle(snapshot),
+                snapshot.target,
+                vscode.SymbolKind.Namespace,
+                new vscode.Range(header.start, end),
+                header
+            );
+            section.children = symbols;
+            return [section];
+        });
+    }
+}
 
-        // Group symbols by kind for better organization
-        const functions: SymbolDefinition[] = [];
-        const globals: SymbolDefinition[] = [];
-        const types: SymbolDefinition[] = [];
-        const metadata: SymbolDefinition[] = [];
-        const attributes: SymbolDefinition[] = [];
+/**
+ * The outline of one module
+ */
+function moduleSymbols(module: IRModule): vscode.DocumentSymbol[] {
+    const types = module.types.map(type =>
+        symbol(type.name, 'type', SymbolKind.NamedType, type.range, type.nameRange));
+    const globals = module.globals.map(global =>
+        symbol(global.name, global.kind === 'variable' ? 'global' : global.kind, SymbolKind.GlobalValue, global.range, global.nameRange));
 
-        for (const [key, def] of parsed.definitions) {
-            switch (def.kind) {
-                case SymbolKind.Function:
-                    functions.push(def);
-                    break;
-                case SymbolKind.GlobalValue:
-                    // Skip if it's also registered as a function
-                    if (!parsed.definitions.has(key.replace('GlobalValue', 'Function'))) {
-                        globals.push(def);
-                    }
-                    break;
-                case SymbolKind.NamedType:
-                    types.push(def);
-                    break;
-                case SymbolKind.Metadata:
-                    // Only include named metadata, not numbered
-                    if (!def.name.match(/^![0-9]+$/)) {
-                        metadata.push(def);
-                    }
-                    break;
-                case SymbolKind.AttributeGroup:
-                    attributes.push(def);
-                    break;
-                // Skip local values and labels for document outline
-            }
+    // A definition wins over a declaration of the same function
+    const defined = new Set(module.functions.filter(func => !func.isDeclaration).map(func => func.name));
+    const functions: vscode.DocumentSymbol[] = [];
+    for (const func of module.functions) {
+        if (func.isDeclaration && defined.has(func.name)) {
+            continue;
         }
+        const functionSymbol = symbol(func.name, func.headerText.substring(0, 50), SymbolKind.Function, func.range, func.nameRange);
+        functionSymbol.children = blockSymbols(func);
+        functions.push(functionSymbol);
+    }
 
-        // Add functions
-        for (const func of functions) {
-            const symbol = new vscode.DocumentSymbol(
-                func.name,
-                func.detail?.substring(0, 50) || '',
-                vscode.SymbolKind.Function,
-                func.range,
-                func.selectionRange
-            );
-            symbols.push(symbol);
-        }
+    const attributeGroups = module.attributeGroups.map(group =>
+        symbol(group.name, 'attributes', SymbolKind.AttributeGroup, group.range, group.nameRange));
+    const comdats = module.comdats.map(comdat =>
+        symbol(comdat.name, comdat.selectionKind, SymbolKind.Comdat, comdat.range, comdat.nameRange));
 
-        // Add global variables
-        for (const global of globals) {
-            const symbol = new vscode.DocumentSymbol(
-                global.name,
-                'global',
-                vscode.SymbolKind.Variable,
-                global.range,
-                global.selectionRange
-            );
-            symbols.push(symbol);
-        }
+    // Numbered metadata would flood the outline; only named metadata is listed
+    const metadata = module.metadata
+        .filter(md => md.isNamed)
+        .map(md => symbol(md.name, 'metadata', SymbolKind.Metadata, md.range, md.nameRange));
 
-        // Add types
-        for (const type of types) {
-            const symbol = new vscode.DocumentSymbol(
-                type.name,
-                'type',
-                vscode.SymbolKind.Struct,
-                type.range,
-                type.selectionRange
-            );
-            symbols.push(symbol);
+    // One section per run of entities of a kind, so that no section
+    // encloses a function and breadcrumbs inside functions stay correct
+    const byKind = {
+        type: new SectionCursor('Types', types),
+        global: new SectionCursor('Globals', globals),
+        function: new SectionCursor('', functions),
+        attributes: new SectionCursor('Attribute Groups', attributeGroups),
+        comdat: new SectionCursor('Comdats', comdats),
+        metadata: new SectionCursor('Metadata', metadata),
+    };
+    const symbols: vscode.DocumentSymbol[] = [];
+    for (const section of findModuleSections(module)) {
+        const cursor = byKind[section.kind];
+        const children = cursor.takeUntil(section.endLine);
+        if (section.kind === 'function') {
+            symbols.push(...children);
+        } else {
+            pushSection(symbols, cursor.name, children);
         }
+    }
+    return symbols;
+}
 
-        // Add metadata
-        for (const meta of metadata) {
-            const symbol = new vscode.DocumentSymbol(
-                meta.name,
-                'metadata',
-                vscode.SymbolKind.Property,
-                meta.range,
-                meta.selectionRange
-            );
-            symbols.push(symbol);
+/**
+ * One symbol per basic block, including the unlabelled entry block, with
+ * the number of predecessors and the terminator as detail
+ */
+function blockSymbols(func: IRFunction): vscode.DocumentSymbol[] {
+    if (func.isDeclaration || func.blocks.length === 0) {
+        return [];
+    }
+    const cfg = buildCFG(func);
+    return func.blocks.map((block, i) => {
+        const predecessors = cfg.predecessors[i].length;
+        const details = [`${predecessors} ${predecessors === 1 ? 'predecessor' : 'predecessors'}`];
+        const terminator = getTerminator(block);
+        if (terminator) {
+            details.push(terminator.opcode);
         }
+        const selectionRange = block.label?.range ?? block.instructions[0]?.range ?? block.range;
+        return symbol(block.name, details.join(', '), SymbolKind.Label, block.range, selectionRange);
+    });
+}
 
-        // Add attribute groups
-        for (const attr of attributes) {
-            const symbol = new vscode.DocumentSymbol(
-                attr.name,
-                'attributes',
-                vscode.SymbolKind.Constant,
-                attr.range,
-                attr.selectionRange
-            );
-            symbols.push(symbol);
-        }
+function symbol(
+    name: string,
+    detail: string,
+    kind: SymbolKind,
+    range: vscode.Range,
+    selectionRange: vscode.Range
+): vscode.DocumentSymbol {
+    return new vscode.DocumentSymbol(name, detail, toVSCodeSymbolKind(kind), range, selectionRange);
+}
+
+/**
+ * Walks the symbols of one kind, in source order, section by section
+ */
+class SectionCursor {
+    private next = 0;
+
+    constructor(readonly name: string, private readonly symbols: vscode.DocumentSymbol[]) {}
 
-        return symbols;
+    takeUntil(endLine: number): vscode.DocumentSymbol[] {
+        const start = this.next;
+        while (this.next < this.symbols.length && this.symbols[this.next].range.start.line <= endLine) {
+            this.next++;
+        }
+        return this.symbols.slice(start, this.next);
     }
 }
 
+/**
+ * Add a collapsible section spanning its children, unless it would be empty
+ */
+function pushSection(symbols: vscode.DocumentSymbol[], name: string, children: vscode.DocumentSymbol[]): void {
+    if (children.length === 0) {
+        return;
+    }
+    const range = children.reduce((union, child) => union.union(child.range), children[0].range);
+    const section = new vscode.DocumentSymbol(
+        name,
+        `${children.length}`,
+        vscode.SymbolKind.Namespace,
+        range,
+        children[0].selectionRange
+    );
+    section.children = children;
+    symbols.push(section);
+}
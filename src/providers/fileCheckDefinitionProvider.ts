@@ -0,0 +1,23 @@
+import * as vscode from 'vscode';
+import { parseDocument } from '../llvmIrParser';
+import { analyzeFileCheck, findVariableAt, findVariableDefinition } from '../analysis/fileCheck';
+
+/**
+ * Goes from a FileCheck variable use such as `[[TMP1]]` in a check directive
+ * to the `[[TMP1:%.*]]` that defines it
+ */
+export class LLVMIRFileCheckDefinitionProvider implements vscode.DefinitionProvider {
+    provideDefinition(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.Definition> {
+        const test = analyzeFileCheck(parseDocument(document).module);
+        const variable = test && findVariableAt(test, position);
+        if (!test || !variable || variable.isDefinition) {
+            return null;
+        }
+        const definition = findVariableDefinition(test, variable);
+        return definition ? new vscode.Location(document.uri, definition.range) : null;
+    }
+}
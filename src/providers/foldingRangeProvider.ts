@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import { IRModule } from '../ir';
+import { parseModules } from '../llvmIrParser';
+
+type EntityKind = 'type' | 'global' | 'function' | 'metadata' | 'attributes' | 'comdat';
+
+/**
+ * A run of consecutive module-level entities of one kind, such as the
+ * metadata at the end of a module. Blank lines and comments may separate them.
+ */
+export interface ModuleSection {
+    kind: EntityKind;
+    startLine: number;
+    endLine: number;
+}
+
+/**
+ * Folds functions, basic blocks, metadata and attribute group sections,
+ * multi-line global initializers and runs of line comments
+ */
+export class LLVMIRFoldingRangeProvider implements vscode.FoldingRangeProvider {
+    provideFoldingRanges(
+        document: vscode.TextDocument,
+        _context: vscode.FoldingContext,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.FoldingRange[]> {
+        const ranges: vscode.FoldingRange[] = [];
+        const add = (start: number, end: number, kind?: vscode.FoldingRangeKind) => {
+            if (end > start) {
+                ranges.push(new vscode.FoldingRange(start, end, kind));
+            }
+        };
+
+        // Each snapshot of a pass dump is a module of its own
+        for (const { parsed: { module } } of parseModules(document)) {
+            for (const func of module.functions) {
+                if (func.isDeclaration) {
+                    continue;
+                }
+                // Keep the closing brace visible when it is on a line of its own
+                const end = func.range.end.line;
+                const closingLine = document.lineAt(end).text;
+                add(func.range.start.line, /^\s*\}\s*(;.*)?$/.test(closingLine) ? end - 1 : end);
+                for (const block of func.blocks) {
+                    add(block.range.start.line, block.range.end.line);
+                }
+            }
+
+            for (const global of module.globals) {
+                if (global.initializer) {
+                    add(global.range.start.line, global.initializer.range.end.line);
+                }
+            }
+
+            for (const section of findModuleSections(module)) {
+                if (section.kind === 'metadata' || section.kind === 'attributes') {
+                    add(section.startLine, section.endLine, vscode.FoldingRangeKind.Region);
+                }
+            }
+
+            // Comments that are alone on consecutive lines
+            let runStart = -2;
+            let runEnd = -2;
+            for (const comment of module.comments) {
+                const line = comment.range.start.line;
+                if (document.lineAt(line).firstNonWhitespaceCharacterIndex !== comment.range.start.character) {
+                    continue;
+                }
+                if (line !== runEnd + 1) {
+                    add(runStart, runEnd, vscode.FoldingRangeKind.Comment);
+                    runStart = line;
+                }
+                runEnd = line;
+            }
+            add(runStart, runEnd, vscode.FoldingRangeKind.Comment);
+        }
+
+        return ranges;
+    }
+}
+
+/**
+ * Split the module-level entities into runs of one kind, in source order
+ */
+export function findModuleSections(module: IRModule): ModuleSection[] {
+    const entities: { kind: EntityKind; range: vscode.Range }[] = [
+        ...module.types.map(type => ({ kind: 'type' as const, range: type.range })),
+        ...module.globals.map(global => ({ kind: 'global' as const, range: global.range })),
+        ...module.functions.map(func => ({ kind: 'function' as const, range: func.range })),
+        ...module.metadata.map(md => ({ kind: 'metadata' as const, range: md.range })),
+        ...module.attributeGroups.map(group => ({ kind: 'attributes' as const, range: group.range })),
+        ...module.comdats.map(comdat => ({ kind: 'comdat' as const, range: comdat.range })),
+    ].sort((a, b) => a.range.start.compareTo(b.range.start));
+
+    const sections: ModuleSection[] = [];
+    for (const entity of entities) {
+        const last = sections[sections.length - 1];
+        if (last?.kind === entity.kind) {
+            last.endLine = entity.range.end.line;
+        } else {
+            sections.push({ kind: entity.kind, startLine: entity.range.start.line, endLine: entity.range.end.line });
+        }
+    }
+    return sections;
+}
@@ -0,0 +1,470 @@
+import * as vscode from 'vscode';
+import { Comment, IRFunction, IRInstruction, Token, TokenKind } from '../ir';
+import { parseDocument } from '../llvmIrParser';
+
+// llvm-dis starts the `; preds = ...` comment of a label at this column
+const LABEL_COMMENT_COLUMN = 50;
+
+const OPENING_BRACKETS = ['(', '[', '{', '<'];
+const CLOSING_BRACKETS = [')', ']', '}', '>'];
+
+/**
+ * What a source line holds, which decides its indentation
+ */
+enum LineRole {
+    Blank,
+    TopLevel,       // the first line of a global, function, type, metadata, attribute group or comdat
+    Continuation,   // a further line of a module-level entity or function header
+    Label,
+    Instruction,
+    DebugRecord,
+    InstructionContinuation,
+    SwitchCase,
+    FunctionEnd,
+    Comment,        // a line holding only a comment
+}
+
+interface LineInfo {
+    role: LineRole;
+    tokens: Token[];
+    comment?: Comment;
+    func?: IRFunction;
+    instruction?: IRInstruction;
+}
+
+interface FormatOptions {
+    alignAssignments: boolean;
+    wrapCallArguments: number;
+}
+
+/**
+ * Canonicalizes whitespace the way llvm-dis prints: two-space instruction
+ * indentation, labels at column 0, single spaces around `=` and after
+ * commas, aligned switch cases and one blank line between functions.
+ * Line breaks and comments are kept.
+ */
+export class LLVMIRFormattingProvider
+    implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+    provideDocumentFormattingEdits(
+        document: vscode.TextDocument,
+        _options: vscode.FormattingOptions,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.TextEdit[]> {
+        return formatLines(document, 0, document.lineCount - 1, getFormatOptions(document));
+    }
+
+    provideDocumentRangeFormattingEdits(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        _options: vscode.FormattingOptions,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.TextEdit[]> {
+        return formatLines(document, range.start.line, range.end.line, getFormatOptions(document));
+    }
+}
+
+function getFormatOptions(document: vscode.TextDocument): FormatOptions {
+    const config = vscode.workspace.getConfiguration('llvm-ir.format', document.uri);
+    return {
+        alignAssignments: config.get<boolean>('alignAssignments', false),
+        wrapCallArguments: config.get<number>('wrapCallArguments', 0),
+    };
+}
+
+/**
+ * Edits that format the lines from `startLine` to `endLine`
+ */
+function formatLines(
+    document: vscode.TextDocument,
+    startLine: number,
+    endLine: number,
+    options: FormatOptions
+): vscode.TextEdit[] {
+    const lines = classifyLines(document);
+    const formatted = lines.map((info, line) => formatLine(document, info, line));
+    alignSwitchCases(lines, formatted);
+    if (options.alignAssignments) {
+        alignAssignments(lines, formatted);
+    }
+    if (options.wrapCallArguments > 0) {
+        for (let line = startLine; line <= endLine; line++) {
+            formatted[line] = wrapCall(lines[line], formatted[line], options.wrapCallArguments);
+        }
+    }
+    const blankLines = adjustBlankLines(lines);
+
+    const edits: vscode.TextEdit[] = [];
+    for (let line = startLine; line <= endLine && line < document.lineCount; line++) {
+        const info = lines[line];
+        const text = document.lineAt(line).text;
+        if (info.role === LineRole.Blank) {
+            if (blankLines.remove.has(line)) {
+                const next = line + 1 < document.lineCount ? new vscode.Position(line + 1, 0) : undefined;
+                edits.push(vscode.TextEdit.delete(next
+                    ? new vscode.Range(line, 0, next.line, 0)
+                    : new vscode.Range(line, 0, line, text.length)));
+            } else if (text.length > 0) {
+                edits.push(vscode.TextEdit.replace(new vscode.Range(line, 0, line, text.length), ''));
+            }
+            continue;
+        }
+        const newText = (blankLines.insertBefore.has(line) ? '\n' : '') + formatted[line];
+        if (newText !== text) {
+            edits.push(vscode.TextEdit.replace(new vscode.Range(line, 0, line, text.length), newText));
+        }
+    }
+    return edits;
+}
+
+/**
+ * Work out the role of every line from the parsed module
+ */
+function classifyLines(document: vscode.TextDocument): LineInfo[] {
+    const module = parseDocument(document).module;
+    const lines: LineInfo[] = [];
+    for (let line = 0; line < document.lineCount; line++) {
+        lines.push({ role: LineRole.Blank, tokens: [] });
+    }
+    for (const token of module.tokens) {
+        lines[token.range.start.line]?.tokens.push(token);
+    }
+    for (const comment of module.comments) {
+        const info = lines[comment.range.start.line];
+        if (info) {
+            info.comment = comment;
+        }
+    }
+
+    const markEntity = (range: vscode.Range) => {
+        lines[range.start.line].role = LineRole.TopLevel;
+        for (let line = range.start.line + 1; line <= range.end.line; line++) {
+            lines[line].role = LineRole.Continuation;
+        }
+    };
+    for (const entity of [...module.types, ...module.globals, ...module.metadata, ...module.attributeGroups, ...module.comdats]) {
+        markEntity(entity.range);
+    }
+
+    for (const func of module.functions) {
+        markEntity(func.range);
+        for (let line = func.range.start.line; line <= func.range.end.line; line++) {
+            lines[line].func = func;
+        }
+        const end = lines[func.range.end.line];
+        if (!func.isDeclaration && end.tokens[0]?.text === '}' && func.range.end.line > func.headerRange.end.line) {
+            end.role = LineRole.FunctionEnd;
+        }
+        for (const block of func.blocks) {
+            if (block.label) {
+                lines[block.label.range.start.line].role = LineRole.Label;
+            }
+            for (const inst of block.instructions) {
+                const first = lines[inst.range.start.line];
+                if (first.role === LineRole.Label) {
+                    continue;
+                }
+                first.role = first.tokens[0]?.kind === TokenKind.DebugRecord ? LineRole.DebugRecord : LineRole.Instruction;
+                first.instruction = inst;
+                for (let line = inst.range.start.line + 1; line <= inst.range.end.line; line++) {
+                    lines[line].role = inst.opcode === 'switch' || inst.opcode === 'indirectbr'
+                        ? LineRole.SwitchCase
+                        : LineRole.InstructionContinuation;
+                    lines[line].instruction = inst;
+                }
+            }
+        }
+    }
+
+    for (const info of lines) {
+        if (info.tokens.length === 0) {
+            info.role = info.comment ? LineRole.Comment : LineRole.Blank;
+        } else if (info.role === LineRole.Blank) {
+            // source_filename, target and module asm lines
+            info.role = LineRole.TopLevel;
+        }
+    }
+    return lines;
+}
+
+/**
+ * The line with canonical indentation and spacing. Lines the lexer could not
+ * fully account for keep their text, minus trailing whitespace.
+ */
+function formatLine(document: vscode.TextDocument, info: LineInfo, line: number): string {
+    const text = document.lineAt(line).text;
+    if (info.role === LineRole.Blank) {
+        return '';
+    }
+    const covered = info.tokens.map(token => token.text).join('') + (info.comment?.text ?? '');
+    const tokensOnLine = info.tokens.every(token => token.range.isSingleLine && token.kind !== TokenKind.Invalid);
+    if (!tokensOnLine || covered.replace(/\s+/g, '') !== text.replace(/\s+/g, '')) {
+        return text.trimEnd();
+    }
+
+    const indent = ' '.repeat(indentation(info, line));
+    if (info.tokens.length === 0) {
+        return indent + info.comment!.text.trimEnd();
+    }
+    let result = indent + joinTokens(info.tokens, info.instruction?.opcode === 'phi');
+    if (info.comment) {
+        result = info.role === LineRole.Label && result.length < LABEL_COMMENT_COLUMN
+            ? result.padEnd(LABEL_COMMENT_COLUMN)
+            : `${result} `;
+        result += info.comment.text.trimEnd();
+    }
+    return result;
+}
+
+function indentation(info: LineInfo, line: number): number {
+    const first = info.tokens[0]?.text;
+    const closes = first !== undefined && CLOSING_BRACKETS.includes(first);
+    switch (info.role) {
+        case LineRole.Instruction:
+            return 2;
+        case LineRole.DebugRecord:
+            return 4;
+        case LineRole.InstructionContinuation:
+            // llvm-dis puts the `to label` of invoke and landingpad clauses at column 10
+            if (info.instruction?.opcode === 'invoke' || info.instruction?.opcode === 'landingpad') {
+                return 10;
+            }
+            return closes ? 2 : 4;
+        case LineRole.SwitchCase:
+            return closes ? 2 : 4;
+        case LineRole.Continuation:
+            // Function headers continue at column 4 like instruction operands
+            if (info.func && line <= info.func.headerRange.end.line) {
+                return closes ? 0 : 4;
+            }
+            return closes ? 0 : 2;
+        case LineRole.Comment:
+            return info.func && isInFunctionBody(info.func, line) ? 2 : 0;
+        default:
+            return 0;
+    }
+}
+
+function isInFunctionBody(func: IRFunction, line: number): boolean {
+    return !func.isDeclaration && line > func.headerRange.end.line && line < func.range.end.line;
+}
+
+/**
+ * Join the tokens of one line with canonical spacing: none before commas
+ * and inside parentheses, one after commas and around `=`, one inside the
+ * brackets llvm-dis pads and none inside the others, and otherwise one
+ * space wherever the source had any
+ */
+function joinTokens(tokens: Token[], isPhi = false): string {
+    // `"key"="value"` string attributes are written without spaces
+    const isString = (token?: Token) => token?.kind === TokenKind.String;
+    const padding = bracketPadding(tokens, isPhi);
+    let result = tokens[0].text;
+    for (let i = 1; i < tokens.length; i++) {
+        const prev = tokens[i - 1];
+        const token = tokens[i];
+        let separator: string;
+        if (token.text === ',') {
+            separator = '';
+        } else if (prev.text === ',') {
+            separator = ' ';
+        } else if (token.text === '=' && !(isString(prev) && isString(tokens[i + 1]))) {
+            separator = ' ';
+        } else if (prev.text === '=' && !(isString(tokens[i - 2]) && isString(token))) {
+            separator = ' ';
+        } else if (prev.text === '(' || token.text === ')') {
+            separator = '';
+        } else if (OPENING_BRACKETS.includes(prev.text) && padding.has(prev)) {
+            separator = padding.get(prev) && !CLOSING_BRACKETS.includes(token.text) ? ' ' : '';
+        } else if (CLOSING_BRACKETS.includes(token.text) && padding.has(token)) {
+            separator = padding.get(token) ? ' ' : '';
+        } else {
+            separator = token.offset > prev.end ? ' ' : '';
+        }
+        result += separator + token.text;
+    }
+    return result;
+}
+
+/**
+ * Whether each bracket of a line has a space inside. llvm-dis pads struct
+ * bodies and attribute groups `{ i32, i64 }`, the incoming values of a phi
+ * `[ %a, %entry ]` and operand bundles `[ "deopt"() ]`, but not metadata
+ * tuples `!{...}`, arrays or vectors. A closing bracket whose opening one is
+ * on an earlier line is left out and keeps its spacing.
+ */
+function bracketPadding(tokens: Token[], isPhi: boolean): Map<Token, boolean> {
+    const padding = new Map<Token, boolean>();
+    const open: Token[] = [];
+    tokens.forEach((token, i) => {
+        if (token.kind !== TokenKind.Punct || token.text === '(' || token.text === ')') {
+            return;
+        }
+        if (OPENING_BRACKETS.includes(token.text)) {
+            const padded = token.text === '{'
+                ? tokens[i - 1]?.text !== '!'
+                : token.text === '[' && open.length === 0 && (isPhi || tokens[i + 1]?.kind === TokenKind.String);
+            padding.set(token, padded);
+            open.push(token);
+        } else if (CLOSING_BRACKETS.includes(token.text) && open.length > 0) {
+            padding.set(token, padding.get(open.pop()!)!);
+        }
+    });
+    return padding;
+}
+
+/**
+ * Pad the `<ty> <value>,` part of switch cases so their labels line up
+ */
+function alignSwitchCases(lines: LineInfo[], formatted: string[]): void {
+    const switches = new Map<IRInstruction, { line: number; split: number }[]>();
+    lines.forEach((info, line) => {
+        const split = formatted[line].indexOf(', label ');
+        if (info.role === LineRole.SwitchCase && info.instruction?.opcode === 'switch' && split >= 0) {
+            switches.set(info.instruction, [...(switches.get(info.instruction) ?? []), { line, split: split + 1 }]);
+        }
+    });
+    for (const cases of switches.values()) {
+        const width = Math.max(...cases.map(entry => entry.split));
+        for (const { line, split } of cases) {
+            const text = formatted[line];
+            formatted[line] = text.substring(0, split).padEnd(width) + text.substring(split);
+        }
+    }
+}
+
+/**
+ * Pad instruction results so the `=` of each block's instructions line up
+ */
+function alignAssignments(lines: LineInfo[], formatted: string[]): void {
+    const blocks = new Map<string, number[]>();
+    for (let line = 0; line < lines.length; line++) {
+        const info = lines[line];
+        if (info.role !== LineRole.Instruction || !info.instruction?.result || !info.func) {
+            continue;
+        }
+        const block = info.func.blocks.find(b => b.instructions.includes(info.instruction!));
+        const key = `${info.func.name} ${block?.name}`;
+        blocks.set(key, [...(blocks.get(key) ?? []), line]);
+    }
+    for (const group of blocks.values()) {
+        const width = Math.max(...group.map(line => formatted[line].indexOf(' = ')));
+        for (const line of group) {
+            const text = formatted[line];
+            const split = text.indexOf(' = ');
+            if (split > 0) {
+                formatted[line] = text.substring(0, split).padEnd(width) + text.substring(split);
+            }
+        }
+    }
+}
+
+/**
+ * Put each argument of a call that is longer than `limit` on its own line
+ */
+function wrapCall(info: LineInfo, text: string, limit: number): string {
+    const inst = info.instruction;
+    if (info.role !== LineRole.Instruction || !inst?.call || !inst.range.isSingleLine || text.length <= limit) {
+        return text;
+    }
+    const tokens = info.tokens;
+    const calleeEnd = inst.call.callee.range.end;
+    const open = tokens.findIndex(token => token.text === '(' && token.range.start.isEqual(calleeEnd));
+    if (open < 0) {
+        return text;
+    }
+
+    // Split the arguments at the commas outside of nested brackets
+    const args: Token[][] = [[]];
+    let depth = 0;
+    let close = -1;
+    for (let i = open + 1; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (depth === 0 && token.text === ')') {
+            close = i;
+            break;
+        }
+        if (OPENING_BRACKETS.includes(token.text)) {
+            depth++;
+        } else if (CLOSING_BRACKETS.includes(token.text)) {
+            depth--;
+        }
+        if (depth === 0 && token.text === ',') {
+            args.push([]);
+        } else {
+            args[args.length - 1].push(token);
+        }
+    }
+    if (close < 0 || args[0].length === 0) {
+        return text;
+    }
+
+    const indent = ' '.repeat(indentation(info, inst.range.start.line));
+    const argIndent = ' '.repeat(4);
+    const wrapped = [indent + joinTokens(tokens.slice(0, open + 1))];
+    args.slice(0, -1).forEach(arg => wrapped.push(`${argIndent}${joinTokens(arg)},`));
+    const last = args[args.length - 1];
+    const lastStart = tokens.indexOf(last[0]);
+    let lastLine = argIndent + joinTokens(tokens.slice(lastStart));
+    if (info.comment) {
+        lastLine += ` ${info.comment.text.trimEnd()}`;
+    }
+    wrapped.push(lastLine);
+    return wrapped.join('\n');
+}
+
+/**
+ * Blank lines to remove and lines to put a blank line before: one before
+ * each function, after each function and before each labelled block, none
+ * at the start and end of a function body, and at most one elsewhere.
+ * Comments directly above a line move with it.
+ */
+function adjustBlankLines(lines: LineInfo[]): { remove: Set<number>; insertBefore: Set<number> } {
+    const remove = new Set<number>();
+    const insertBefore = new Set<number>();
+    let previous = -1;
+    let line = 0;
+    while (line < lines.length) {
+        if (lines[line].role === LineRole.Blank) {
+            line++;
+            continue;
+        }
+        // A run of comment lines belongs to the code line right after it
+        let anchor = line;
+        while (anchor + 1 < lines.length && lines[anchor].role === LineRole.Comment
+            && lines[anchor + 1].role !== LineRole.Blank) {
+            anchor++;
+        }
+
+        if (previous >= 0) {
+            const existing = line - previous - 1;
+            const wanted = wantedBlankLines(lines, previous, anchor, existing);
+            for (let blank = previous + 1 + wanted; blank < line; blank++) {
+                remove.add(blank);
+            }
+            if (existing < wanted) {
+                insertBefore.add(line);
+            }
+        }
+        previous = anchor;
+        line = anchor + 1;
+    }
+    return { remove, insertBefore };
+}
+
+function wantedBlankLines(lines: LineInfo[], previous: number, anchor: number, existing: number): number {
+    const info = lines[anchor];
+    const before = lines[previous];
+    const func = info.func;
+    if (func && (isInFunctionBody(func, anchor) || info.role === LineRole.FunctionEnd)) {
+        if (previous <= func.headerRange.end.line || info.role === LineRole.FunctionEnd) {
+            return 0;
+        }
+        return info.role === LineRole.Label ? 1 : Math.min(existing, 1);
+    }
+    const startsFunction = info.role === LineRole.TopLevel && func !== undefined && func.range.start.line === anchor;
+    const endsFunction = before.func !== undefined && before.func.range.end.line === previous;
+    if ((startsFunction || endsFunction) && before.func !== func) {
+        return 1;
+    }
+    return Math.min(existing, 1);
+}
@@ -2,10 +2,14 @@ import * as vscode from 'vscode';
 import {
     parseDocument,
     getSymbolAtPosition,
+    getKeywordAtPosition,
     getSymbolKey,
     SymbolKind,
     SymbolDefinition,
 } from '../llvmIrParser';
+import { LangRefEntry, lookupIntrinsic, lookupLangRef, typeToString } from '../ir';
+import { inferValueType } from '../analysis/typeInference';
+import { createMetadataMap, describeMetadata, sourceLocation } from '../analysis/debugInfo';
 
 export class LLVMIRHoverProvider implements vscode.HoverProvider {
     provideHover(
@@ -15,10 +19,10 @@ export class LLVMIRHoverProvider implements vscode.HoverProvider {
     ): vscode.ProviderResult<vscode.Hover> {
         const symbol = getSymbolAtPosition(document, position);
         if (!symbol) {
-            return null;
+            return this.provideKeywordHover(document, position);
         }
 
-        const parsed = parseDocument(document);
+        const parsed = parseDocument(document, position);
         const definition = this.findDefinition(
             parsed.definitions,
             symbol.kind,
@@ -27,7 +31,9 @@ export class LLVMIRHoverProvider implements vscode.HoverProvider {
         );
 
         if (!definition) {
-            return null;
+            // Intrinsics are usually used before, or without, being declared
+            const intrinsic = this.intrinsicDocumentation(symbol.name);
+            return intrinsic ? new vscode.Hover(intrinsic, symbol.range) : null;
         }
 
         // Build hover content
@@ -37,9 +43,33 @@ export class LLVMIRHoverProvider implements vscode.HoverProvider {
         // Add kind label
         markdown.appendMarkdown(`**${kindName}**\n\n`);
 
+        // Add the inferred type of local values
+        if (definition.kind === SymbolKind.LocalValue && definition.functionName) {
+            const type = inferValueType(parsed.module, definition.functionName, definition.name);
+            if (type) {
+                markdown.appendMarkdown(`\`${definition.name} : ${typeToString(type)}\`\n\n`);
+            }
+        }
+
         // Add the definition line as code
         markdown.appendCodeblock(definition.detail || definition.name, 'llvm-ir');
 
+        // Summarize debug info by following the node's references
+        if (definition.kind === SymbolKind.Metadata) {
+            const metadata = createMetadataMap(parsed.module);
+            const node = metadata.get(definition.name);
+            const summary = node ? describeMetadata(node, metadata) : [];
+            if (summary.length > 0) {
+                markdown.appendMarkdown(`\n${summary.join('\n')}`);
+            }
+            const location = node ? sourceLocation(node, metadata) : undefined;
+            if (location) {
+                const args = encodeURIComponent(JSON.stringify([location]));
+                markdown.appendMarkdown(`\n\n[Open source location](command:llvm-ir.openSourceLocation?${args})`);
+                markdown.isTrusted = { enabledCommands: ['llvm-ir.openSourceLocation'] };
+            }
+        }
+
         // Add location info
         const line = definition.selectionRange.start.line + 1;
         let locationInfo = `*Defined at line ${line}*`;
@@ -48,9 +78,65 @@ export class LLVMIRHoverProvider implements vscode.HoverProvider {
         }
         markdown.appendMarkdown(`\n\n${locationInfo}`);
 
+        const intrinsic = this.intrinsicDocumentation(symbol.name);
+        if (intrinsic) {
+            markdown.appendMarkdown(`\n\n---\n\n${intrinsic.value}`);
+        }
+
         return new vscode.Hover(markdown, symbol.range);
     }
 
+    /**
+     * Documentation from the bundled LangRef summary for opcodes, linkage types,
+     * calling conventions, attributes, orderings and other keywords
+     */
+    private provideKeywordHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | null {
+        const keyword = getKeywordAtPosition(document, position);
+        const entries = keyword ? lookupLangRef(keyword.text) : [];
+        if (!keyword || entries.length === 0) {
+            return null;
+        }
+
+        const markdown = new vscode.MarkdownString();
+        entries.forEach((entry, index) => {
+            if (index > 0) {
+                markdown.appendMarkdown('\n\n---\n\n');
+            }
+            this.appendLangRefEntry(markdown, keyword.text, entry);
+        });
+        return new vscode.Hover(markdown, keyword.range);
+    }
+
+    private appendLangRefEntry(markdown: vscode.MarkdownString, word: string, entry: LangRefEntry): void {
+        markdown.appendMarkdown(`**${entry.category}** \`${word}\`\n\n`);
+        if (entry.syntax) {
+            markdown.appendCodeblock(entry.syntax, 'llvm-ir');
+        }
+        markdown.appendMarkdown(`\n${entry.summary}`);
+        if (entry.constraints) {
+            markdown.appendMarkdown(`\n\n${entry.constraints}`);
+        }
+    }
+
+    private intrinsicDocumentation(name: string): vscode.MarkdownString | undefined {
+        if (!name.startsWith('@llvm.')) {
+            return undefined;
+        }
+
+        const markdown = new vscode.MarkdownString();
+        markdown.appendMarkdown('**Intrinsic**\n\n');
+        const intrinsic = lookupIntrinsic(name);
+        if (intrinsic) {
+            const params = intrinsic.varArgs ? [...intrinsic.params, '...'] : intrinsic.params;
+            markdown.appendCodeblock(`declare ${intrinsic.returnType} ${intrinsic.name}(${params.join(', ')})`, 'llvm-ir');
+            markdown.appendMarkdown(`\n${intrinsic.description}`);
+        }
+        if (name.startsWith('@llvm.experimental.')) {
+            markdown.appendMarkdown('\n\nExperimental intrinsics may change or be removed in future LLVM releases.');
+        }
+        return intrinsic || name.startsWith('@llvm.experimental.') ? markdown : undefined;
+    }
+
     private findDefinition(
         definitions: Map<string, SymbolDefinition>,
         kind: SymbolKind,
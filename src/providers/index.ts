@@ -1,5 +1,21 @@
 export { LLVMIRDefinitionProvider } from './definitionProvider';
+export { LLVMIRFileCheckDefinitionProvider } from './fileCheckDefinitionProvider';
 export { LLVMIRReferenceProvider } from './referenceProvider';
 export { LLVMIRDocumentSymbolProvider } from './documentSymbolProvider';
 export { LLVMIRHoverProvider } from './hoverProvider';
+export { LLVMIRRenameProvider } from './renameProvider';
+export { LLVMIRWorkspaceSymbolProvider } from './workspaceSymbolProvider';
+export { LLVMIRCompletionProvider } from './completionProvider';
+export { LLVMIRSignatureHelpProvider } from './signatureHelpProvider';
+export { LLVMIRMetadataTreeProvider } from './metadataTreeProvider';
+export { LLVMIRPassDumpTreeProvider } from './passDumpTreeProvider';
+export { LLVMIRCodeLensProvider } from './codeLensProvider';
+export { LLVMIRLitCodeLensProvider } from './litCodeLensProvider';
+export { LLVMIRCallHierarchyProvider } from './callHierarchyProvider';
+export { LLVMIRFoldingRangeProvider } from './foldingRangeProvider';
+export { LLVMIRDocumentHighlightProvider } from './documentHighlightProvider';
+export { LLVMIRSemanticTokensProvider, SEMANTIC_TOKENS_LEGEND } from './semanticTokensProvider';
+export { LLVMIRFormattingProvider } from './formattingProvider';
 
+export { LLVMIRDiagnosticsProvider } from './diagnosticsProvider';
+export { LLVMIRInlayHintsProvider } from './inlayHintsProvider';
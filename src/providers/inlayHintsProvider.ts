@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+import { parseModules } from '../llvmIrParser';
+import { typeToString } from '../ir';
+import { collectValueTypes, createTypeContext } from '../analysis/typeInference';
+
+/**
+ * Shows the inferred type after each unnamed instruction result such as `%7`
+ */
+export class LLVMIRInlayHintsProvider implements vscode.InlayHintsProvider, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeInlayHints = this.changeEmitter.event;
+
+    provideInlayHints(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.InlayHint[]> {
+        const config = vscode.workspace.getConfiguration('llvm-ir', document.uri);
+        if (!config.get<boolean>('inlayHints.valueTypes', true)) {
+            return [];
+        }
+
+        const hints: vscode.InlayHint[] = [];
+        for (const { parsed } of parseModules(document, range)) {
+            const ctx = createTypeContext(parsed.module);
+            for (const func of parsed.module.functions) {
+                if (func.isDeclaration || !func.range.intersection(range)) {
+                    continue;
+                }
+                const valueTypes = collectValueTypes(func, ctx);
+                for (const block of func.blocks) {
+                    for (const inst of block.instructions) {
+                        const result = inst.result;
+                        if (!result || !/^%[0-9]+$/.test(result.name) || !range.contains(result.range)) {
+                            continue;
+                        }
+                        const type = valueTypes.get(result.name);
+                        if (!type) {
+                            continue;
+                        }
+                        const hint = new vscode.InlayHint(
+                            result.range.end,
+                            `: ${typeToString(type)}`,
+                            vscode.InlayHintKind.Type
+                        );
+                        hints.push(hint);
+                    }
+                }
+            }
+        }
+
+        return hints;
+    }
+
+    /**
+     * Ask the editor to request hints again, e.g. after a configuration change
+     */
+    refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+}
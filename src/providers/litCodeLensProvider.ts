@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+import { parseDocument } from '../llvmIrParser';
+import { analyzeFileCheck } from '../analysis/fileCheck';
+import { LitRunner } from '../litRunner';
+
+/**
+ * Puts a "Run this test" lens on the first RUN line of a lit test, followed
+ * by the result of its last run
+ */
+export class LLVMIRLitCodeLensProvider implements vscode.CodeLensProvider {
+    readonly onDidChangeCodeLenses: vscode.Event<void>;
+
+    constructor(private readonly runner: LitRunner) {
+        this.onDidChangeCodeLenses = runner.onDidChangeState;
+    }
+
+    provideCodeLenses(
+        document: vscode.TextDocument,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.CodeLens[]> {
+        const config = vscode.workspace.getConfiguration('llvm-ir', document.uri);
+        if (!config.get<boolean>('codeLens.runTest', true)) {
+            return [];
+        }
+        const runLine = analyzeFileCheck(parseDocument(document).module)?.runLines[0];
+        if (!runLine) {
+            return [];
+        }
+
+        const range = document.lineAt(runLine.keywordRange.start.line).range;
+        const state = this.runner.getState(document.uri);
+        if (state?.status === 'running') {
+            return [new vscode.CodeLens(range, { title: '$(sync~spin) Running…', command: '' })];
+        }
+
+        const lenses = [new vscode.CodeLens(range, {
+            title: '$(play) Run this test',
+            command: 'llvm-ir.runLitTest',
+            arguments: [document.uri],
+        })];
+        if (state) {
+            const seconds = (state.duration / 1000).toFixed(1);
+            lenses.push(new vscode.CodeLens(range, {
+                title: `${state.passed ? '$(pass) Passed' : '$(error) Failed'} (${state.code}, ${seconds}s)`,
+                tooltip: 'Show the lit output',
+                command: 'llvm-ir.showLitOutput',
+            }));
+        }
+        return lenses;
+    }
+}
@@ -0,0 +1,129 @@
+import * as vscode from 'vscode';
+import { parseDocument } from '../llvmIrParser';
+import { IRMetadataValue, MetadataKind } from '../ir';
+import { MetadataMap, createMetadataMap, describeMetadata, resolveMetadata } from '../analysis/debugInfo';
+
+/**
+ * A metadata definition, or an operand of a node reached by expanding one
+ */
+export interface MetadataTreeNode {
+    // The definition name for top-level nodes, the field name or index for operands
+    label: string;
+    value: IRMetadataValue;
+    uri: vscode.Uri;
+    isDefinition: boolean;
+}
+
+/**
+ * Lists the metadata of the active LLVM IR document. Each node expands into
+ * its fields and elements, following references to other nodes recursively.
+ */
+export class LLVMIRMetadataTreeProvider implements vscode.TreeDataProvider<MetadataTreeNode>, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<MetadataTreeNode | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    private document: vscode.TextDocument | undefined;
+    private metadata: MetadataMap = new Map();
+    private definitionRanges = new Map<string, vscode.Range>();
+    private roots: MetadataTreeNode[] = [];
+
+    /**
+     * Show the metadata of a document, or clear the view for anything but LLVM IR
+     */
+    setDocument(document: vscode.TextDocument | undefined): void {
+        this.document = document?.languageId === 'llvm-ir' ? document : undefined;
+        this.metadata = new Map();
+        this.definitionRanges = new Map();
+        this.roots = [];
+        if (this.document) {
+            const module = parseDocument(this.document).module;
+            const uri = this.document.uri;
+            this.metadata = createMetadataMap(module);
+            this.definitionRanges = new Map(module.metadata.map(md => [md.name, md.nameRange]));
+            this.roots = module.metadata.map(md => ({ label: md.name, value: md.node, uri, isDefinition: true }));
+        }
+        this.changeEmitter.fire(undefined);
+    }
+
+    refresh(document: vscode.TextDocument): void {
+        if (document === this.document) {
+            this.setDocument(document);
+        }
+    }
+
+    /**
+     * The top-level node of a metadata definition, for revealing it in the view
+     */
+    findRoot(name: string): MetadataTreeNode | undefined {
+        return this.roots.find(root => root.label === name);
+    }
+
+    getTreeItem(element: MetadataTreeNode): vscode.TreeItem {
+        const value = element.value;
+        const resolved = resolveMetadata(value, this.metadata);
+
+        let label = element.label;
+        if (!element.isDefinition) {
+            label += `: ${value.kind === MetadataKind.Reference ? value.name : this.shortText(value)}`;
+        }
+        const item = new vscode.TreeItem(
+            label,
+            this.getChildren(element).length > 0
+                ? vscode.TreeItemCollapsibleState.Collapsed
+                : vscode.TreeItemCollapsibleState.None
+        );
+
+        if (resolved && (element.isDefinition || value.kind === MetadataKind.Reference)) {
+            const summary = describeMetadata(resolved, this.metadata);
+            const kind = resolved.kind === MetadataKind.Specialized
+                ? `${resolved.distinct ? 'distinct ' : ''}!${resolved.nodeName}`
+                : this.shortText(resolved);
+            item.description = summary.length > 0 ? `${kind}  ${summary[0].replace(/`/g, '')}` : kind;
+            item.tooltip = new vscode.MarkdownString(summary.length > 0 ? summary.join('\n') : resolved.text);
+        }
+
+        // Jump to the definition of the node
+        const name = element.isDefinition ? element.label : value.name;
+        const definitionRange = name ? this.definitionRanges.get(name) : undefined;
+        if (definitionRange) {
+            item.command = {
+                command: 'vscode.open',
+                title: 'Go to Definition',
+                arguments: [element.uri, { selection: definitionRange }],
+            };
+        }
+        return item;
+    }
+
+    getChildren(element?: MetadataTreeNode): MetadataTreeNode[] {
+        if (!element) {
+            return this.roots;
+        }
+
+        const node = resolveMetadata(element.value, this.metadata);
+        if (!node) {
+            return [];
+        }
+        const children: MetadataTreeNode[] = [];
+        for (const field of node.fields ?? []) {
+            children.push({ label: field.key, value: field.value, uri: element.uri, isDefinition: false });
+        }
+        (node.elements ?? []).forEach((value, index) => {
+            children.push({ label: `[${index}]`, value, uri: element.uri, isDefinition: false });
+        });
+        return children;
+    }
+
+    getParent(_element: MetadataTreeNode): vscode.ProviderResult<MetadataTreeNode> {
+        // Only top-level nodes are revealed
+        return undefined;
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+
+    private shortText(value: IRMetadataValue): string {
+        return value.text.length > 60 ? `${value.text.substring(0, 60)}...` : value.text;
+    }
+}
@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+import { getPassDumpSnapshots } from '../llvmIrParser';
+import { PassDumpSnapshot, snapshotTitle } from '../ir';
+
+/**
+ * A snapshot of the pass dump shown in the view
+ */
+export interface PassDumpTreeNode {
+    uri: vscode.Uri;
+    index: number;
+    snapshot: PassDumpSnapshot;
+}
+
+/**
+ * Lists the snapshots of the active pass dump, the output of
+ * -print-after-all, -print-before-all or -print-changed, with the pass, what
+ * it ran on and whether it changed the IR.
+ */
+export class LLVMIRPassDumpTreeProvider implements vscode.TreeDataProvider<PassDumpTreeNode>, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<PassDumpTreeNode | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    private document: vscode.TextDocument | undefined;
+    private roots: PassDumpTreeNode[] = [];
+
+    /**
+     * Show the snapshots of a document, or clear the view for anything but a pass dump
+     */
+    setDocument(document: vscode.TextDocument | undefined): void {
+        const snapshots = document?.languageId === 'llvm-ir' ? getPassDumpSnapshots(document) : undefined;
+        this.document = snapshots ? document : undefined;
+        this.roots = snapshots?.map((snapshot, index) => ({ uri: document!.uri, index, snapshot })) ?? [];
+        vscode.commands.executeCommand('setContext', 'llvm-ir.passDumpOpen', snapshots !== undefined);
+        this.changeEmitter.fire(undefined);
+    }
+
+    refresh(document: vscode.TextDocument): void {
+        if (document === this.document || document === vscode.window.activeTextEditor?.document) {
+            this.setDocument(document);
+        }
+    }
+
+    getTreeItem(element: PassDumpTreeNode): vscode.TreeItem {
+        const snapshot = element.snapshot;
+        const item = new vscode.TreeItem(snapshot.when === 'start' ? 'At Start' : snapshot.pass);
+
+        const status = snapshot.deleted ? 'deleted' : snapshot.changed === false ? 'unchanged' : undefined;
+        item.description = [snapshot.when === 'before' ? 'before' : undefined, snapshot.target, status]
+            .filter(part => part)
+            .join(' · ');
+        item.tooltip = `${snapshotTitle(snapshot)} on ${snapshot.target || 'unknown'}`
+            + (snapshot.changed === undefined ? '' : snapshot.changed ? '\nChanged the IR' : '\nDid not change the IR');
+        item.iconPath = new vscode.ThemeIcon(
+            snapshot.deleted ? 'diff-removed'
+                : snapshot.changed ? 'diff-modified'
+                    : snapshot.changed === false ? 'dash' : 'circle-outline'
+        );
+        item.contextValue = snapshot.previous !== undefined ? 'passSnapshot.comparable' : 'passSnapshot';
+
+        // Jump to the header of the snapshot
+        const header = new vscode.Range(snapshot.headerLine, 0, snapshot.headerLine, 0);
+        item.command = {
+            command: 'vscode.open',
+            title: 'Go to Snapshot',
+            arguments: [element.uri, { selection: header }],
+        };
+        return item;
+    }
+
+    getChildren(element?: PassDumpTreeNode): PassDumpTreeNode[] {
+        return element ? [] : this.roots;
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+}
@@ -6,8 +6,11 @@ import {
     SymbolKind,
     SymbolDefinition,
 } from '../llvmIrParser';
+import { WorkspaceIndex } from '../workspaceIndex';
 
 export class LLVMIRReferenceProvider implements vscode.ReferenceProvider {
+    constructor(private readonly index: WorkspaceIndex) {}
+
     provideReferences(
         document: vscode.TextDocument,
         position: vscode.Position,
@@ -19,7 +22,7 @@ export class LLVMIRReferenceProvider implements vscode.ReferenceProvider {
             return null;
         }
 
-        const parsed = parseDocument(document);
+        const parsed = parseDocument(document, position);
         const locations: vscode.Location[] = [];
 
         // Determine actual symbol info (might be a label referenced as %name)
@@ -37,6 +40,10 @@ export class LLVMIRReferenceProvider implements vscode.ReferenceProvider {
 
         // Find all references
         for (const ref of parsed.references) {
+            if (ref.kind !== actualKind || ref.name !== actualName) {
+                continue;
+            }
+
             // For function-scoped symbols, only match references in the same function
             if (actualKind === SymbolKind.LocalValue || actualKind === SymbolKind.Label) {
                 if (ref.functionName !== symbol.functionName) {
@@ -44,28 +51,22 @@ export class LLVMIRReferenceProvider implements vscode.ReferenceProvider {
                 }
             }
 
-            // Match by the reference name
-            if (ref.name === symbol.name && ref.kind === symbol.kind) {
-                // Check if this is the same location as the definition
-                if (definition && ref.range.isEqual(definition.selectionRange)) {
-                    continue; // Skip, already added
-                }
-                locations.push(new vscode.Location(document.uri, ref.range));
-            }
+            locations.push(new vscode.Location(document.uri, ref.range));
+        }
 
-            // Also check if this is a label reference stored with % but we're looking at definition without %
-            if (actualKind === SymbolKind.Label && ref.kind === SymbolKind.LocalValue) {
-                if (ref.functionName !== symbol.functionName) {
-                    continue;
-                }
-                const refWithoutPercent = ref.name.startsWith('%') ? ref.name.substring(1) : ref.name;
-                if (refWithoutPercent === actualName) {
-                    if (definition && ref.range.isEqual(definition.selectionRange)) {
-                        continue;
+        // Globals and functions are also used and declared by other files
+        if (actualKind === SymbolKind.GlobalValue) {
+            const isOtherFile = (location: vscode.Location) => location.uri.toString() !== document.uri.toString();
+            if (context.includeDeclaration) {
+                for (const kind of [SymbolKind.Function, SymbolKind.GlobalValue]) {
+                    for (const symbol of this.index.findDefinitions(kind, actualName)) {
+                        if (isOtherFile(symbol.location)) {
+                            locations.push(symbol.location);
+                        }
                     }
-                    locations.push(new vscode.Location(document.uri, ref.range));
                 }
             }
+            locations.push(...this.index.findReferences(actualName).filter(isOtherFile));
         }
 
         return locations;
@@ -0,0 +1,275 @@
+import * as vscode from 'vscode';
+import {
+    parseDocument,
+    getSymbolAtPosition,
+    getSymbolKey,
+    ParsedDocument,
+    SymbolKind,
+    SymbolDefinition,
+} from '../llvmIrParser';
+
+// Identifiers that need no quoting: [-a-zA-Z$._][-a-zA-Z$._0-9]*
+const IDENTIFIER_RE = /^[-a-zA-Z$._][-a-zA-Z$._0-9]*$/;
+const QUOTED_IDENTIFIER_RE = /^"[^"]+"$/;
+const METADATA_NAME_RE = /^[-a-zA-Z$._][-a-zA-Z$._0-9\\]*$/;
+const NUMBER_RE = /^[0-9]+$/;
+
+/**
+ * The symbol a rename applies to, with the name as it appears in the definition map
+ */
+interface RenameTarget {
+    kind: SymbolKind;
+    name: string;
+    functionName?: string;
+    definition: SymbolDefinition;
+}
+
+/**
+ * Renames symbols within their scope: locals and labels within their function,
+ * everything else module-wide. Naming an unnamed value renumbers the unnamed
+ * values after it so that the numbering stays sequential.
+ */
+export class LLVMIRRenameProvider implements vscode.RenameProvider {
+    prepareRename(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.Range | { range: vscode.Range; placeholder: string }> {
+        const symbol = getSymbolAtPosition(document, position);
+        if (!symbol) {
+            throw new Error('You cannot rename this element.');
+        }
+        const target = this.resolveTarget(parseDocument(document, position), symbol.kind, symbol.name, symbol.functionName);
+        if (!target) {
+            throw new Error(`'${symbol.name}' is not defined in this file.`);
+        }
+        if (target.kind === SymbolKind.AttributeGroup) {
+            throw new Error('Attribute groups are numbered and cannot be renamed.');
+        }
+        return { range: symbol.range, placeholder: document.getText(symbol.range) };
+    }
+
+    provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.WorkspaceEdit> {
+        this.prepareRename(document, position, token);
+        const symbol = getSymbolAtPosition(document, position)!;
+        const parsed = parseDocument(document, position);
+        const target = this.resolveTarget(parsed, symbol.kind, symbol.name, symbol.functionName)!;
+
+        const bareName = this.validateName(parsed, target, newName);
+        const edits = new Map<string, vscode.TextEdit>();
+        const replace = (range: vscode.Range, text: string) => {
+            edits.set(`${range.start.line}:${range.start.character}`, vscode.TextEdit.replace(range, text));
+        };
+
+        // The definition: labels are written without a sigil, unnamed parameters
+        // and instruction results not at all
+        const definitionText = document.getText(target.definition.selectionRange);
+        const newText = target.kind === SymbolKind.Label ? bareName : `${sigil(target.kind)}${bareName}`;
+        if (definitionText === target.name) {
+            replace(target.definition.selectionRange, newText);
+        } else if (target.definition.selectionRange.isEmpty) {
+            replace(target.definition.selectionRange, `${newText} = `);
+        } else {
+            const end = target.definition.range.end;
+            edits.set(`${end.line}:${end.character}`, vscode.TextEdit.insert(end, ` ${newText}`));
+        }
+
+        for (const ref of parsed.references) {
+            if (ref.kind === target.kind && ref.name === target.name && ref.functionName === target.functionName) {
+                replace(ref.range, newText);
+            }
+        }
+
+        // Giving %N a name shifts every later unnamed value of the same sequence down by one
+        const number = this.numberOf(target.kind, target.name);
+        if (number !== undefined) {
+            this.renumberAfter(document, parsed, target, number, replace);
+        }
+
+        const workspaceEdit = new vscode.WorkspaceEdit();
+        workspaceEdit.set(document.uri, [...edits.values()]);
+        return workspaceEdit;
+    }
+
+    private resolveTarget(
+        parsed: ParsedDocument,
+        kind: SymbolKind,
+        name: string,
+        functionName?: string
+    ): RenameTarget | undefined {
+        const definitions = parsed.definitions;
+
+        // For local values and labels, look up with function scope
+        if ((kind === SymbolKind.LocalValue || kind === SymbolKind.Label) && functionName) {
+            const definition = definitions.get(getSymbolKey(kind, name, functionName));
+            if (definition) {
+                return { kind, name, functionName, definition };
+            }
+
+            // A label referenced as %name
+            if (kind === SymbolKind.LocalValue) {
+                const labelName = name.substring(1);
+                const label = definitions.get(getSymbolKey(SymbolKind.Label, labelName, functionName));
+                if (label) {
+                    return { kind: SymbolKind.Label, name: labelName, functionName, definition: label };
+                }
+            }
+        }
+
+        const definition = definitions.get(getSymbolKey(kind, name));
+        if (definition) {
+            return { kind, name, definition };
+        }
+
+        if (kind === SymbolKind.LocalValue) {
+            const type = definitions.get(getSymbolKey(SymbolKind.NamedType, name));
+            if (type) {
+                return { kind: SymbolKind.NamedType, name, definition: type };
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Check the new name and return it without its sigil
+     */
+    private validateName(parsed: ParsedDocument, target: RenameTarget, newName: string): string {
+        let name = newName.trim();
+        const prefix = sigil(target.kind);
+        if (prefix && name.startsWith(prefix)) {
+            name = name.substring(prefix.length);
+        }
+        if (target.kind === SymbolKind.Label && name.endsWith(':')) {
+            name = name.slice(0, -1);
+        }
+
+        if (target.kind === SymbolKind.Metadata) {
+            const numbered = NUMBER_RE.test(target.name.substring(1));
+            if (numbered && !NUMBER_RE.test(name)) {
+                throw new Error('Numbered metadata can only be renamed to another number.');
+            }
+            if (!numbered && !METADATA_NAME_RE.test(name)) {
+                throw new Error(`'!${name}' is not a valid metadata name.`);
+            }
+        } else if (NUMBER_RE.test(name)) {
+            throw new Error('Numbers are assigned to unnamed values automatically; choose a name.');
+        } else if (!IDENTIFIER_RE.test(name) && !QUOTED_IDENTIFIER_RE.test(name)) {
+            throw new Error(`'${name}' is not a valid identifier; quote it as "${name.replace(/"/g, '')}".`);
+        }
+
+        const written = `${prefix}${name}`;
+        const existing = this.findExisting(parsed, target, name, written);
+        if (existing && existing !== target.definition) {
+            const scope = target.functionName ? ` in '${target.functionName}'` : '';
+            throw new Error(`'${written}' is already defined${scope}.`);
+        }
+        return name;
+    }
+
+    /**
+     * The definition already using the new name in the target's namespace. Locals
+     * and labels share one namespace per function, globals and functions one per module.
+     */
+    private findExisting(
+        parsed: ParsedDocument,
+        target: RenameTarget,
+        name: string,
+        written: string
+    ): SymbolDefinition | undefined {
+        switch (target.kind) {
+            case SymbolKind.LocalValue:
+            case SymbolKind.Label:
+                return parsed.definitions.get(getSymbolKey(SymbolKind.LocalValue, `%${name}`, target.functionName))
+                    ?? parsed.definitions.get(getSymbolKey(SymbolKind.Label, name, target.functionName));
+            case SymbolKind.GlobalValue:
+                return parsed.definitions.get(getSymbolKey(SymbolKind.GlobalValue, written));
+            default:
+                return parsed.definitions.get(getSymbolKey(target.kind, written));
+        }
+    }
+
+    /**
+     * Shift the unnamed values numbered above `removed` down by one: the
+     * locals and labels of the function, or the unnamed globals of the module
+     */
+    private renumberAfter(
+        document: vscode.TextDocument,
+        parsed: ParsedDocument,
+        target: RenameTarget,
+        removed: number,
+        replace: (range: vscode.Range, text: string) => void
+    ): void {
+        const isLocal = target.kind === SymbolKind.LocalValue || target.kind === SymbolKind.Label;
+        const kinds = isLocal
+            ? [SymbolKind.LocalValue, SymbolKind.Label]
+            : [SymbolKind.GlobalValue, SymbolKind.Function];
+        const shifted = (kind: SymbolKind, name: string): string | undefined => {
+            const n = this.numberOf(kind, name);
+            if (n === undefined || n <= removed) {
+                return undefined;
+            }
+            return kind === SymbolKind.Label ? `${n - 1}` : `${sigil(kind)}${n - 1}`;
+        };
+
+        for (const definition of parsed.definitions.values()) {
+            if (!kinds.includes(definition.kind) || definition.functionName !== target.functionName) {
+                continue;
+            }
+            const text = shifted(definition.kind, definition.name);
+            // Unnamed parameters have nothing written to renumber
+            const written = document.getText(definition.selectionRange) === definition.name;
+            if (text && written) {
+                replace(definition.selectionRange, text);
+            }
+        }
+
+        for (const ref of parsed.references) {
+            if (kinds.includes(ref.kind) && ref.functionName === target.functionName) {
+                const text = shifted(ref.kind, ref.name);
+                if (text) {
+                    replace(ref.range, text);
+                }
+            }
+        }
+    }
+
+    /**
+     * The number of an unnamed local, label or global, if it is one
+     */
+    private numberOf(kind: SymbolKind, name: string): number | undefined {
+        if (kind === SymbolKind.Metadata || kind === SymbolKind.NamedType) {
+            return undefined;
+        }
+        const digits = kind === SymbolKind.Label ? name : name.substring(1);
+        return NUMBER_RE.test(digits) ? parseInt(digits, 10) : undefined;
+    }
+}
+
+/**
+ * The prefix a symbol kind is written with in references
+ */
+function sigil(kind: SymbolKind): string {
+    switch (kind) {
+        case SymbolKind.LocalValue:
+        case SymbolKind.Label:
+        case SymbolKind.NamedType:
+            return '%';
+        case SymbolKind.GlobalValue:
+        case SymbolKind.Function:
+            return '@';
+        case SymbolKind.Metadata:
+            return '!';
+        case SymbolKind.Comdat:
+            return '$';
+        case SymbolKind.AttributeGroup:
+            return '#';
+        default:
+            return '';
+    }
+}
@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+import { IRModule, ReferenceRole } from '../ir';
+import { parseModules } from '../llvmIrParser';
+import { analyzeFileCheck } from '../analysis/fileCheck';
+
+const TOKEN_TYPES = ['type', 'parameter', 'variable', 'label', 'function', 'global', 'metadata', 'keyword', 'regexp'] as const;
+const TOKEN_MODIFIERS = ['declaration', 'definition', 'readonly', 'defaultLibrary', 'unused', 'undefined'] as const;
+
+type TokenType = typeof TOKEN_TYPES[number];
+type TokenModifier = typeof TOKEN_MODIFIERS[number];
+
+type AddToken = (range: vscode.Range, type: TokenType, ...modifiers: TokenModifier[]) => void;
+
+export const SEMANTIC_TOKENS_LEGEND = new vscode.SemanticTokensLegend([...TOKEN_TYPES], [...TOKEN_MODIFIERS]);
+
+/**
+ * Function-local names: parameters, instruction results and block labels
+ */
+interface FunctionScope {
+    params: Set<string>;
+    results: Set<string>;
+    labels: Set<string>;
+    used: Set<string>;
+}
+
+/**
+ * Classifies names by what they refer to, which the TextMate grammar cannot
+ * tell apart: `%T` types, parameters, instruction results and labels, and
+ * `@f` functions, intrinsics and global variables. Unused parameters and
+ * results and references to undefined names carry a modifier. In lit tests,
+ * RUN lines, check directives of any prefix the RUN lines use, their regexes
+ * and FileCheck variables are picked out of the comments.
+ */
+export class LLVMIRSemanticTokensProvider implements vscode.DocumentSemanticTokensProvider {
+    provideDocumentSemanticTokens(
+        document: vscode.TextDocument,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.SemanticTokens> {
+        const tokens: { range: vscode.Range; type: TokenType; modifiers: TokenModifier[] }[] = [];
+        const add: AddToken = (range, type, ...modifiers) => {
+            if (range.isSingleLine && !range.isEmpty) {
+                tokens.push({ range, type, modifiers });
+            }
+        };
+        // Each snapshot of a pass dump is a module of its own. Those of function
+        // and loop passes leave out the rest of the module, so nothing is undefined.
+        for (const { parsed, snapshot } of parseModules(document)) {
+            const partial = snapshot !== undefined && snapshot.scope !== 'module';
+            addModuleTokens(parsed.module, partial
+                ? (range, type, ...modifiers) => add(range, type, ...modifiers.filter(modifier => modifier !== 'undefined'))
+                : add);
+        }
+
+        tokens.sort((a, b) => a.range.start.compareTo(b.range.start));
+        const builder = new vscode.SemanticTokensBuilder(SEMANTIC_TOKENS_LEGEND);
+        let previous: vscode.Range | undefined;
+        for (const token of tokens) {
+            // Tokens must not overlap
+            if (previous && token.range.start.isBefore(previous.end)) {
+                continue;
+            }
+            builder.push(token.range, token.type, token.modifiers);
+            previous = token.range;
+        }
+        return builder.build();
+    }
+}
+
+/**
+ * The tokens of the names in one module and of the lit directives in its comments
+ */
+function addModuleTokens(module: IRModule, add: AddToken): void {
+    const scopes = collectScopes(module);
+    const functions = new Set(module.functions.map(func => func.name));
+    const globals = new Map(module.globals.map(global => [global.name, global]));
+    const types = new Set(module.types.map(type => type.name));
+    const metadata = new Set(module.metadata.map(md => md.name));
+
+    for (const type of module.types) {
+        add(type.nameRange, 'type', 'definition');
+    }
+    for (const global of module.globals) {
+        add(global.nameRange, 'global', 'definition', ...(global.isConstant ? ['readonly' as const] : []));
+    }
+    for (const md of module.metadata) {
+        add(md.nameRange, 'metadata', 'definition');
+    }
+    for (const func of module.functions) {
+        const library = isIntrinsic(func.name) ? ['defaultLibrary' as const] : [];
+        add(func.nameRange, 'function', func.isDeclaration ? 'declaration' : 'definition', ...library);
+
+        const scope = scopes.get(func.name);
+        if (!scope) {
+            continue;
+        }
+        for (const param of func.params) {
+            if (param.name) {
+                add(param.name.range, 'parameter', 'definition', ...unused(scope, param.name.name));
+            }
+        }
+        for (const block of func.blocks) {
+            if (block.label) {
+                add(block.label.range, 'label', 'definition');
+            }
+            for (const inst of block.instructions) {
+                if (inst.result) {
+                    add(inst.result.range, 'variable', 'definition', ...unused(scope, inst.result.name));
+                }
+            }
+        }
+    }
+
+    for (const ref of module.references) {
+        const scope = ref.functionName !== undefined ? scopes.get(ref.functionName) : undefined;
+        switch (ref.role) {
+            case ReferenceRole.Value:
+                if (ref.name.startsWith('@')) {
+                    if (functions.has(ref.name)) {
+                        add(ref.range, 'function', ...(isIntrinsic(ref.name) ? ['defaultLibrary' as const] : []));
+                    } else {
+                        const global = globals.get(ref.name);
+                        add(ref.range, 'global', ...(global ? (global.isConstant ? ['readonly' as const] : []) : ['undefined' as const]));
+                    }
+                } else if (scope?.params.has(ref.name)) {
+                    add(ref.range, 'parameter');
+                } else if (scope?.results.has(ref.name)) {
+                    add(ref.range, 'variable');
+                } else if (scope) {
+                    add(ref.range, 'variable', 'undefined');
+                }
+                break;
+            case ReferenceRole.Type:
+                add(ref.range, 'type', ...(types.has(ref.name) ? [] : ['undefined' as const]));
+                break;
+            case ReferenceRole.Label:
+                add(ref.range, 'label', ...(scope && !scope.labels.has(ref.name.substring(1)) ? ['undefined' as const] : []));
+                break;
+            case ReferenceRole.Metadata:
+                // Named metadata such as !llvm.loop kinds are not definitions of their own
+                add(ref.range, 'metadata', ...(/^!\d+$/.test(ref.name) && !metadata.has(ref.name) ? ['undefined' as const] : []));
+                break;
+        }
+    }
+
+    const test = analyzeFileCheck(module);
+    for (const run of test?.runLines ?? []) {
+        add(run.keywordRange, 'keyword');
+    }
+    for (const directive of test?.directives ?? []) {
+        add(directive.range, 'keyword');
+        for (const range of directive.regexRanges) {
+            add(range, 'regexp');
+        }
+        for (const variable of directive.variables) {
+            add(variable.range, 'variable', ...(variable.isDefinition ? ['definition' as const] : []));
+        }
+    }
+}
+
+function collectScopes(module: IRModule): Map<string, FunctionScope> {
+    const scopes = new Map<string, FunctionScope>();
+    for (const func of module.functions) {
+        if (func.isDeclaration) {
+            continue;
+        }
+        scopes.set(func.name, {
+            params: new Set(func.params.map(param => param.name?.name ?? param.implicitName!)),
+            results: new Set(func.blocks.flatMap(block => block.instructions.flatMap(inst => inst.result ? [inst.result.name] : []))),
+            labels: new Set(func.blocks.map(block => block.name)),
+            used: new Set(),
+        });
+    }
+    for (const ref of module.references) {
+        if (ref.role === ReferenceRole.Value && ref.functionName !== undefined) {
+            scopes.get(ref.functionName)?.used.add(ref.name);
+        }
+    }
+    return scopes;
+}
+
+function unused(scope: FunctionScope, name: string): TokenModifier[] {
+    return scope.used.has(name) ? [] : ['unused'];
+}
+
+function isIntrinsic(name: string): boolean {
+    return name.startsWith('@llvm.');
+}
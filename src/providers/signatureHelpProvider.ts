@@ -0,0 +1,171 @@
+import * as vscode from 'vscode';
+import { parseDocument } from '../llvmIrParser';
+import { INSTRUCTION_OPCODES, IRFunction, Token, TokenKind, lookupIntrinsic, tokenize, typeToString } from '../ir';
+
+const CALL_OPCODES = ['call', 'invoke', 'callbr'];
+
+// Lines before the cursor searched for the start of a call that spans several lines
+const MAX_CALL_LINES = 64;
+
+/**
+ * The call the cursor is in: the callee and the index of the argument being typed
+ */
+interface CallSite {
+    callee: string;
+    argument: number;
+}
+
+/**
+ * Shows the parameters of the function being called, from its declare/define
+ * line or, for intrinsics not declared in the module, from the intrinsic table
+ */
+export class LLVMIRSignatureHelpProvider implements vscode.SignatureHelpProvider {
+    provideSignatureHelp(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken,
+        _context: vscode.SignatureHelpContext
+    ): vscode.ProviderResult<vscode.SignatureHelp> {
+        const call = this.findCallSite(document, position);
+        if (!call) {
+            return undefined;
+        }
+
+        const parsed = parseDocument(document, position);
+        const func = parsed.module.functions.find(f => f.name === call.callee);
+        let signature: vscode.SignatureInformation;
+        let paramCount: number;
+        let varArgs: boolean;
+
+        if (func) {
+            const params = func.params.map(param => [typeToString(param.type), ...param.attributes, param.name?.name]
+                .filter(part => part)
+                .join(' '));
+            signature = this.buildSignature(typeToString(func.returnType), func.name, params, func.varArgs);
+            signature.documentation = new vscode.MarkdownString().appendCodeblock(this.headerLine(func), 'llvm-ir');
+            paramCount = params.length;
+            varArgs = func.varArgs;
+        } else {
+            const intrinsic = call.callee.startsWith('@llvm.') ? lookupIntrinsic(call.callee) : undefined;
+            if (!intrinsic) {
+                return undefined;
+            }
+            signature = this.buildSignature(intrinsic.returnType, intrinsic.name, intrinsic.params, intrinsic.varArgs);
+            signature.documentation = intrinsic.description;
+            paramCount = intrinsic.params.length;
+            varArgs = intrinsic.varArgs;
+        }
+
+        const help = new vscode.SignatureHelp();
+        help.signatures = [signature];
+        help.activeSignature = 0;
+        // Extra arguments of a varargs call belong to the trailing '...'
+        help.activeParameter = varArgs ? Math.min(call.argument, paramCount) : call.argument;
+        return help;
+    }
+
+    /**
+     * Find the unclosed argument list of the call the cursor is in, which may
+     * have started on an earlier line
+     */
+    private findCallSite(document: vscode.TextDocument, position: vscode.Position): CallSite | undefined {
+        const start = new vscode.Position(Math.max(0, position.line - MAX_CALL_LINES), 0);
+        const text = document.getText(new vscode.Range(start, position));
+        const lexed = tokenize(text, { offset: document.offsetAt(start), line: start.line });
+        if (lexed.comments.some(comment => comment.range.start.line === position.line)) {
+            return undefined;
+        }
+
+        // Only the tokens of the instruction the cursor is in
+        let first = lexed.tokens.length - 1;
+        while (first > 0 && !startsInstruction(lexed.tokens, first)) {
+            first--;
+        }
+        const tokens = lexed.tokens.slice(Math.max(first, 0));
+
+        const opcodeIndex = tokens.findIndex(token => token.kind === TokenKind.Word && CALL_OPCODES.includes(token.text));
+        if (opcodeIndex < 0) {
+            return undefined;
+        }
+
+        // The callee is the first global directly followed by the argument list
+        let i = opcodeIndex + 1;
+        while (i + 1 < tokens.length && !(tokens[i].kind === TokenKind.GlobalVar && tokens[i + 1].text === '(')) {
+            i++;
+        }
+        if (i + 1 >= tokens.length) {
+            return undefined;
+        }
+
+        const callee = tokens[i].text;
+        let depth = 0;
+        let argument = 0;
+        for (const token of tokens.slice(i + 1)) {
+            if (token.kind !== TokenKind.Punct) {
+                continue;
+            }
+            if (token.text === '(' || token.text === '[' || token.text === '{' || token.text === '<') {
+                depth++;
+            } else if (token.text === ')' || token.text === ']' || token.text === '}' || token.text === '>') {
+                depth--;
+                if (depth === 0) {
+                    // The argument list is closed
+                    return undefined;
+                }
+            } else if (token.text === ',' && depth === 1) {
+                argument++;
+            }
+        }
+        return { callee, argument };
+    }
+
+    private buildSignature(returnType: string, name: string, params: string[], varArgs: boolean): vscode.SignatureInformation {
+        const labels = varArgs ? [...params, '...'] : params;
+        let label = `${returnType} ${name}(`;
+        const parameters: vscode.ParameterInformation[] = [];
+        labels.forEach((param, index) => {
+            if (index > 0) {
+                label += ', ';
+            }
+            parameters.push(new vscode.ParameterInformation([label.length, label.length + param.length]));
+            label += param;
+        });
+        label += ')';
+
+        const signature = new vscode.SignatureInformation(label);
+        signature.parameters = parameters;
+        return signature;
+    }
+
+    /**
+     * The header of a function up to the end of its parameter list
+     */
+    private headerLine(func: IRFunction): string {
+        const header = func.headerText.replace(/\s*\{\s*$/, '');
+        return header.length > 200 ? `${header.substring(0, 200)}...` : header;
+    }
+}
+
+/**
+ * Whether a token begins a line with an instruction, a label, a function
+ * header or the closing brace of a function
+ */
+function startsInstruction(tokens: Token[], index: number): boolean {
+    const token = tokens[index];
+    if (index > 0 && tokens[index - 1].range.end.line === token.range.start.line) {
+        return false;
+    }
+    switch (token.kind) {
+        case TokenKind.LabelDef:
+            return true;
+        case TokenKind.LocalVar:
+            return tokens[index + 1]?.text === '=';
+        case TokenKind.Word:
+            return INSTRUCTION_OPCODES.includes(token.text)
+                || ['tail', 'musttail', 'notail', 'define', 'declare'].includes(token.text);
+        case TokenKind.Punct:
+            return token.text === '}';
+        default:
+            return false;
+    }
+}
@@ -0,0 +1,27 @@
+import * as vscode from 'vscode';
+import { toVSCodeSymbolKind } from '../llvmIrParser';
+import { WorkspaceIndex } from '../workspaceIndex';
+
+// Enough for any sensible query; VS Code filters and ranks the rest itself
+const MAX_RESULTS = 1000;
+
+/**
+ * Finds functions, globals and named types defined anywhere in the workspace (Ctrl+T)
+ */
+export class LLVMIRWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+    constructor(private readonly index: WorkspaceIndex) {}
+
+    provideWorkspaceSymbols(
+        query: string,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.SymbolInformation[]> {
+        return this.index.searchSymbols(query, MAX_RESULTS).map(symbol =>
+            new vscode.SymbolInformation(
+                symbol.name,
+                toVSCodeSymbolKind(symbol.kind),
+                vscode.workspace.asRelativePath(symbol.location.uri),
+                symbol.location
+            )
+        );
+    }
+}
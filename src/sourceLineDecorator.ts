@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { parseDocument } from './llvmIrParser';
+import { createMetadataMap, sourceLocation } from './analysis/debugInfo';
+import { isSameSourceFile } from './commands/openSource';
+
+/**
+ * Highlights the lines of source editors that have IR in an open .ll
+ * document, according to the DILocations of its debug info
+ */
+export class SourceLineDecorator implements vscode.Disposable {
+    private readonly decoration = vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor('editor.rangeHighlightBackground'),
+        overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.infoForeground'),
+        overviewRulerLane: vscode.OverviewRulerLane.Left,
+    });
+    private enabled = false;
+
+    setEnabled(enabled: boolean): void {
+        this.enabled = enabled;
+        this.update();
+    }
+
+    /**
+     * Redecorate the visible source editors
+     */
+    update(): void {
+        const editors = vscode.window.visibleTextEditors.filter(editor => editor.document.languageId !== 'llvm-ir');
+        if (!this.enabled) {
+            for (const editor of editors) {
+                editor.setDecorations(this.decoration, []);
+            }
+            return;
+        }
+
+        const irDocuments = vscode.workspace.textDocuments.filter(document => document.languageId === 'llvm-ir');
+        for (const editor of editors) {
+            // Source line (zero-based) to the IR files that have code for it
+            const lines = new Map<number, Set<string>>();
+            for (const irDocument of irDocuments) {
+                const module = parseDocument(irDocument).module;
+                const metadata = createMetadataMap(module);
+                for (const md of module.metadata) {
+                    if (md.node.nodeName !== 'DILocation') {
+                        continue;
+                    }
+                    const location = sourceLocation(md.node, metadata);
+                    if (location && isSameSourceFile(location, editor.document.uri.fsPath)) {
+                        const files = lines.get(location.line - 1) ?? new Set<string>();
+                        files.add(path.basename(irDocument.uri.fsPath));
+                        lines.set(location.line - 1, files);
+                    }
+                }
+            }
+
+            const decorations: vscode.DecorationOptions[] = [];
+            for (const [line, files] of lines) {
+                if (line >= 0 && line < editor.document.lineCount) {
+                    decorations.push({
+                        range: editor.document.lineAt(line).range,
+                        hoverMessage: `Has IR in ${[...files].join(', ')}`,
+                    });
+                }
+            }
+            editor.setDecorations(this.decoration, decorations);
+        }
+    }
+
+    dispose(): void {
+        this.decoration.dispose();
+    }
+}
@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { LLVMIRDocumentHighlightProvider } from '../providers/documentHighlightProvider';
+import { createDocument } from './helpers';
+import { DocumentHighlightKind, Position } from './vscode';
+
+const token = {} as vscode.CancellationToken;
+
+function highlights(lines: string[], line: number, character: number): [number, number, DocumentHighlightKind][] {
+    const document = createDocument(lines.join('\n'));
+    const result = new LLVMIRDocumentHighlightProvider().provideDocumentHighlights(
+        document, new Position(line, character) as vscode.Position, token
+    ) as vscode.DocumentHighlight[];
+    return result.map(h => [h.range.start.line, h.range.start.character, h.kind as number]);
+}
+
+describe('LLVMIRDocumentHighlightProvider', () => {
+    const lines = [
+        'define i32 @f(i32 %0) {',
+        '  %2 = add i32 %0, 1',
+        '  %10 = add i32 %2, %2',
+        '  ret i32 %10',
+        '}',
+        'define i32 @g(i32 %0) {',
+        '  %2 = add i32 %0, 1',
+        '  ret i32 %2',
+        '}',
+    ];
+
+    it('marks the definition as a write and the uses as reads', () => {
+        assert.deepStrictEqual(highlights(lines, 1, 3), [
+            [1, 2, DocumentHighlightKind.Write],
+            [2, 16, DocumentHighlightKind.Read],
+            [2, 20, DocumentHighlightKind.Read],
+        ]);
+    });
+
+    it('does not match locals of other functions or longer numbers', () => {
+        assert.deepStrictEqual(highlights(lines, 7, 11), [
+            [6, 2, DocumentHighlightKind.Write],
+            [7, 10, DocumentHighlightKind.Read],
+        ]);
+    });
+});
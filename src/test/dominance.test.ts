@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { checkDominance } from '../analysis/dominanceChecks';
+import { parseModule } from '../ir';
+import { Uri } from './vscode';
+
+const uri = Uri.file('/test/dominance.ll') as unknown as vscode.Uri;
+
+function check(lines: string[]) {
+    return checkDominance(parseModule(lines.join('\n')), uri);
+}
+
+describe('checkDominance', () => {
+    it('warns about a use on a path that skips the definition', () => {
+        const diagnostics = check([
+            'define i32 @f(i1 %c) {',
+            'entry:',
+            '  br i1 %c, label %then, label %exit',
+            'then:',
+            '  %x = add i32 1, 2',
+            '  br label %exit',
+            'exit:',
+            '  ret i32 %x',
+            '}',
+        ]);
+
+        assert.deepStrictEqual(diagnostics.map(d => [d.message, d.range.start.line]), [
+            ["'%x' does not dominate this use", 7],
+        ]);
+        assert.strictEqual(diagnostics[0].relatedInformation?.[0].location.range.start.line, 4);
+    });
+
+    it('warns about a use before the definition in the same block', () => {
+        const diagnostics = check([
+            'define i32 @f() {',
+            '  %a = add i32 %b, 1',
+            '  %b = add i32 1, 2',
+            '  ret i32 %a',
+            '}',
+        ]);
+
+        assert.deepStrictEqual(diagnostics.map(d => d.message), ["'%b' does not dominate this use"]);
+    });
+
+    it('only requires phi operands to dominate the end of their incoming block', () => {
+        const diagnostics = check([
+            'define i32 @f(i1 %c) {',
+            'entry:',
+            '  br i1 %c, label %then, label %exit',
+            'then:',
+            '  %x = add i32 1, 2',
+            '  br label %exit',
+            'exit:',
+            '  %p = phi i32 [ 0, %entry ], [ %x, %then ]',
+            '  ret i32 %p',
+            '}',
+        ]);
+
+        assert.deepStrictEqual(diagnostics, []);
+    });
+
+    it('accepts the loop-carried value of a phi', () => {
+        const diagnostics = check([
+            'define void @f() {',
+            'entry:',
+            '  br label %loop',
+            'loop:',
+            '  %i = phi i32 [ 0, %entry ], [ %next, %loop ]',
+            '  %next = add i32 %i, 1',
+            '  %done = icmp eq i32 %next, 10',
+            '  br i1 %done, label %exit, label %loop',
+            'exit:',
+            '  ret void',
+            '}',
+        ]);
+
+        assert.deepStrictEqual(diagnostics, []);
+    });
+});
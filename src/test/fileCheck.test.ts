@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { parseModule } from '../ir';
+import { analyzeFileCheck, checkFileCheck, findVariableAt, findVariableDefinition } from '../analysis/fileCheck';
+import { Position } from './vscode';
+
+const TEST = [
+    '; RUN: opt -S -passes=instcombine < %s | FileCheck %s --check-prefixes=CHECK,COMMON',
+    '; RUN: opt -S < %s \\',
+    '; RUN:   | FileCheck %s --check-prefix=NOOPT -DWIDTH=32',
+    '',
+    'define i32 @f(i32 %x) {',
+    '; COMMON-LABEL: @f(',
+    '; CHECK-NEXT:    [[TMP1:%.*]] = shl i32 [[X:%.*]], 1',
+    '; CHECK-NEXT:    ret i32 [[TMP1]]',
+    '; NOOPT:         add i[[WIDTH]] {{%.*}}, [[UNDEF]]',
+    '; CHEKC-NEXT:    typo',
+    '  %a = add i32 %x, %x',
+    '  ret i32 %a',
+    '}',
+].join('\n');
+
+describe('analyzeFileCheck', () => {
+    it('finds RUN lines, joining continued ones into one command', () => {
+        const test = analyzeFileCheck(parseModule(TEST))!;
+        assert.strictEqual(test.runLines.length, 3);
+        assert.deepStrictEqual(test.runs.map(run => run.prefixes), [['CHECK', 'COMMON'], ['NOOPT']]);
+        assert.deepStrictEqual([...test.runs[1].definedVariables], ['WIDTH']);
+    });
+
+    it('finds the directives with their variables', () => {
+        const test = analyzeFileCheck(parseModule(TEST))!;
+        assert.deepStrictEqual(test.directives.map(directive => `${directive.prefix}:${directive.kind}`), [
+            'COMMON:LABEL', 'CHECK:NEXT', 'CHECK:NEXT', 'NOOPT:',
+        ]);
+        assert.deepStrictEqual(test.directives[1].variables.map(variable => [variable.name, variable.isDefinition]), [
+            ['TMP1', true], ['X', true],
+        ]);
+        assert.strictEqual(test.directives[3].regexRanges.length, 1);
+        assert.deepStrictEqual(test.unknownDirectives.map(directive => directive.prefix), ['CHEKC']);
+    });
+
+    it('is undefined for files without RUN lines', () => {
+        assert.strictEqual(analyzeFileCheck(parseModule('define void @f() {\n  ret void\n}')), undefined);
+    });
+
+    it('goes from a variable use to its definition', () => {
+        const test = analyzeFileCheck(parseModule(TEST))!;
+        const use = findVariableAt(test, new Position(7, 27))!;
+        assert.strictEqual(use.name, 'TMP1');
+        assert.strictEqual(use.isDefinition, false);
+        assert.strictEqual(findVariableDefinition(test, use)?.range.start.line, 6);
+    });
+});
+
+describe('checkFileCheck', () => {
+    it('reports unknown prefixes and undefined variables', () => {
+        const messages = checkFileCheck(parseModule(TEST)).map(diagnostic => diagnostic.message);
+        assert.deepStrictEqual(messages.sort(), [
+            "undefined FileCheck variable 'UNDEF'",
+            "unknown check prefix 'CHEKC', the RUN lines check CHECK, COMMON, NOOPT",
+        ]);
+    });
+
+    it('reports prefixes no directive uses', () => {
+        const messages = checkFileCheck(parseModule([
+            '; RUN: FileCheck %s --check-prefixes=CHECK,UNUSED',
+            '; CHECK: ret',
+        ].join('\n'))).map(diagnostic => diagnostic.message);
+        assert.strictEqual(messages.length, 1);
+        assert.match(messages[0], /UNUSED/);
+    });
+});
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { LLVMIRFormattingProvider } from '../providers/formattingProvider';
+import { applyEdits, createDocument } from './helpers';
+
+const options = { tabSize: 4, insertSpaces: true } as vscode.FormattingOptions;
+const token = {} as vscode.CancellationToken;
+
+function format(lines: string[]): string {
+    const document = createDocument(lines.join('\n'));
+    const edits = new LLVMIRFormattingProvider().provideDocumentFormattingEdits(document, options, token);
+    return applyEdits(document, edits as vscode.TextEdit[]);
+}
+
+describe('LLVMIRFormattingProvider', () => {
+    const formatted = [
+        '@g = global i32 0, align 4',
+        '',
+        'define i32 @f(i32 %a, i32 %b) {',
+        'entry:',
+        '  %sum = add nsw i32 %a, %b',
+        '  switch i32 %sum, label %exit [',
+        '    i32 0,  label %exit',
+        '    i32 10, label %exit',
+        '  ]',
+        '',
+        'exit:                                             ; preds = %entry, %entry, %entry',
+        '  ret i32 %sum',
+        '}',
+        '',
+        'declare void @h()',
+    ];
+
+    it('canonicalizes indentation and spacing', () => {
+        assert.strictEqual(format([
+            '@g   =   global i32 0 ,align 4',
+            'define i32 @f(i32 %a,i32 %b) {',
+            '    entry:',
+            '%sum=add nsw i32 %a,%b',
+            '      switch i32 %sum, label %exit [',
+            ' i32 0, label %exit',
+            '            i32 10, label %exit',
+            ']',
+            '',
+            '',
+            '',
+            '  exit:     ; preds = %entry, %entry, %entry',
+            '        ret i32 %sum',
+            '  }',
+            'declare void @h()',
+        ]), formatted.join('\n'));
+    });
+
+    it('spaces the brackets of phis and structs like llvm-dis', () => {
+        assert.strictEqual(format([
+            '%T = type {i32,   i64}',
+            '%P = type <{ i8,i32 }>',
+            '@a = global [ 2 x i32 ] [ i32 1,i32 2 ]',
+            '!0 = !{ i32 1 }',
+            'define i32 @f(i1 %c) {',
+            'entry:',
+            '  %p = phi i32 [ %a, %entry ], [ 0, %b ],[1,%c]',
+            '  %s = insertvalue {i32, i64} {i32 0,i64 0}, i32 %p, 0',
+            '  ret i32 %p',
+            '}',
+        ]), [
+            '%T = type { i32, i64 }',
+            '%P = type <{ i8, i32 }>',
+            '@a = global [2 x i32] [i32 1, i32 2]',
+            '!0 = !{i32 1}',
+            '',
+            'define i32 @f(i1 %c) {',
+            'entry:',
+            '  %p = phi i32 [ %a, %entry ], [ 0, %b ], [ 1, %c ]',
+            '  %s = insertvalue { i32, i64 } { i32 0, i64 0 }, i32 %p, 0',
+            '  ret i32 %p',
+            '}',
+        ].join('\n'));
+    });
+
+    it('leaves formatted text unchanged', () => {
+        assert.strictEqual(format(formatted), formatted.join('\n'));
+    });
+});
@@ -0,0 +1,60 @@
+import * as vscode from 'vscode';
+import { Position, Range, Uri } from './vscode';
+
+let documentCount = 0;
+
+/**
+ * A text document holding `text`, with a URI of its own so that parse
+ * results of different tests are not shared
+ */
+export function createDocument(text: string): vscode.TextDocument {
+    const lines = text.split('\n');
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            lineStarts.push(i + 1);
+        }
+    }
+    const offsetAt = (position: Position) =>
+        Math.min(lineStarts[position.line] + position.character, text.length);
+
+    const document = {
+        uri: Uri.file(`/test/document${++documentCount}.ll`),
+        languageId: 'llvm-ir',
+        version: 1,
+        lineCount: lines.length,
+        getText: (range?: Range) => range ? text.substring(offsetAt(range.start), offsetAt(range.end)) : text,
+        lineAt: (line: number) => ({
+            lineNumber: line,
+            text: lines[line],
+            range: new Range(line, 0, line, lines[line].length),
+            rangeIncludingLineBreak: line + 1 < lines.length
+                ? new Range(line, 0, line + 1, 0)
+                : new Range(line, 0, line, lines[line].length),
+            firstNonWhitespaceCharacterIndex: lines[line].search(/\S|$/),
+            isEmptyOrWhitespace: lines[line].trim() === '',
+        }),
+        offsetAt,
+        positionAt: (offset: number) => {
+            let line = 0;
+            while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) {
+                line++;
+            }
+            return new Position(line, offset - lineStarts[line]);
+        },
+    };
+    return document as unknown as vscode.TextDocument;
+}
+
+/**
+ * The text after applying non-overlapping edits
+ */
+export function applyEdits(document: vscode.TextDocument, edits: vscode.TextEdit[]): string {
+    let text = document.getText();
+    const sorted = [...edits].sort((a, b) => document.offsetAt(b.range.start) - document.offsetAt(a.range.start));
+    for (const edit of sorted) {
+        text = text.substring(0, document.offsetAt(edit.range.start)) + edit.newText
+            + text.substring(document.offsetAt(edit.range.end));
+    }
+    return text;
+}
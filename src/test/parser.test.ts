@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import { parseModule, typeToString } from '../ir';
+
+describe('parseModule', () => {
+    it('parses globals, functions, blocks and instructions', () => {
+        const module = parseModule([
+            '@counter = global i32 0',
+            '',
+            'define i32 @inc(i32 %x) {',
+            'entry:',
+            '  %y = add nsw i32 %x, 1',
+            '  br label %exit',
+            'exit:',
+            '  ret i32 %y',
+            '}',
+        ].join('\n'));
+
+        assert.deepStrictEqual(module.errors, []);
+        assert.deepStrictEqual(module.globals.map(global => global.name), ['@counter']);
+        const func = module.functions[0];
+        assert.strictEqual(func.name, '@inc');
+        assert.strictEqual(typeToString(func.returnType), 'i32');
+        assert.deepStrictEqual(func.blocks.map(block => block.name), ['entry', 'exit']);
+        const add = func.blocks[0].instructions[0];
+        assert.strictEqual(add.opcode, 'add');
+        assert.strictEqual(add.result?.name, '%y');
+        assert.deepStrictEqual(add.flags, ['nsw']);
+        assert.strictEqual(add.range.start.line, 4);
+    });
+
+    it('parses a call whose arguments span several lines', () => {
+        const module = parseModule([
+            'declare void @g(i32, i32)',
+            'define void @f() {',
+            '  call void @g(i32 1,',
+            '               i32 2)',
+            '  ret void',
+            '}',
+        ].join('\n'));
+
+        assert.deepStrictEqual(module.errors, []);
+        const call = module.functions[1].blocks[0].instructions[0];
+        assert.strictEqual(call.opcode, 'call');
+        assert.strictEqual(call.call?.args.length, 2);
+        assert.strictEqual(call.range.end.line, 3);
+    });
+
+    it('numbers unnamed parameters after numbered ones', () => {
+        const func = parseModule('define i32 @f(i32 %0, i32) {\n  ret i32 %1\n}').functions[0];
+        assert.strictEqual(func.params[1].implicitName, '%1');
+        assert.strictEqual(func.blocks[0].name, '2');
+    });
+
+    it('gives unnamed instructions with a result an implicit number', () => {
+        const func = parseModule([
+            'define i32 @f(i32 %x) {',
+            '  add i32 %x, 1',
+            '  store i32 %x, ptr null',
+            '  call void @g()',
+            '  %2 = add i32 %1, 1',
+            '  mul i32 %2, 2',
+            '  ret i32 %3',
+            '}',
+        ].join('\n')).functions[0];
+        assert.deepStrictEqual(
+            func.blocks[0].instructions.map(inst => inst.result?.name ?? inst.implicitName),
+            ['%1', undefined, undefined, '%2', '%3', undefined]
+        );
+    });
+
+    it('does not number debug records', () => {
+        const func = parseModule([
+            'define i32 @f(i32 %x) {',
+            '  add i32 %x, 1',
+            '    #dbg_value(i32 %1, !1, !DIExpression(), !2)',
+            '  add i32 %1, 1',
+            '  ret i32 %2',
+            '}',
+        ].join('\n')).functions[0];
+        assert.deepStrictEqual(
+            func.blocks[0].instructions.map(inst => inst.implicitName),
+            ['%1', undefined, '%2', undefined]
+        );
+    });
+
+    it('starts an unlabelled block after a terminator', () => {
+        const func = parseModule([
+            'define i32 @f(i1 %c) {',
+            '  br i1 %c, label %1, label %3',
+            '; <label>:1:',
+            '  add i32 1, 2',
+            '  br label %3',
+            '; <label>:3:',
+            '  ret i32 0',
+            '}',
+        ].join('\n')).functions[0];
+        assert.deepStrictEqual(func.blocks.map(block => block.name), ['0', '1', '3']);
+        assert.strictEqual(func.blocks[1].instructions[0].implicitName, '%2');
+        assert.strictEqual(func.blocks[2].range.start.line, 6);
+    });
+
+    it('recovers from a broken instruction and reports it', () => {
+        const module = parseModule([
+            'define void @f() {',
+            '  %x = add i32 1,',
+            '  ret void',
+            '}',
+            'define void @g() {',
+            '  ret void',
+            '}',
+        ].join('\n'));
+
+        // The operand is missing, which shows at the next line
+        assert.strictEqual(module.errors.length, 1);
+        assert.strictEqual(module.errors[0].range.start.line, 2);
+        assert.deepStrictEqual(module.functions.map(func => func.name), ['@f', '@g']);
+        assert.strictEqual(module.functions[1].blocks[0].instructions[0].opcode, 'ret');
+    });
+
+    it('places ranges relative to the origin of a slice', () => {
+        const module = parseModule('define void @f() {\n  ret void\n}', { offset: 100, line: 10 });
+        assert.strictEqual(module.functions[0].range.start.line, 10);
+        assert.strictEqual(module.functions[0].blocks[0].instructions[0].range.start.line, 11);
+    });
+});
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { isPassDump, parsePassDump, previousSnapshotText, splitFunctions } from '../ir';
+import { parseModules } from '../llvmIrParser';
+import { createDocument } from './helpers';
+import { Range } from './vscode';
+
+const DUMP = [
+    '; *** IR Dump After InstCombinePass on f ***',
+    'define i32 @f(i32 %x) {',
+    '  %y = shl i32 %x, 1',
+    '  ret i32 %y',
+    '}',
+    '; *** IR Dump After SimplifyCFGPass on f ***',
+    'define i32 @f(i32 %x) {',
+    '  %y = shl i32 %x, 1',
+    '  ret i32 %y',
+    '}',
+    '; *** IR Dump After GVNPass on f ***',
+    'define i32 @f(i32 %x) {',
+    '  ret i32 %x',
+    '}',
+    '',
+].join('\n');
+
+describe('parsePassDump', () => {
+    it('recognizes pass dumps by their first line', () => {
+        assert.ok(isPassDump(DUMP));
+        assert.ok(isPassDump('*** IR Dump Before InstCombinePass on f ***\n'));
+        assert.ok(!isPassDump('define void @f() {\n  ret void\n}\n'));
+    });
+
+    it('splits the dump into snapshots with their pass and target', () => {
+        const snapshots = parsePassDump(DUMP);
+        assert.deepStrictEqual(snapshots.map(snapshot => [snapshot.when, snapshot.pass, snapshot.target]), [
+            ['after', 'InstCombinePass', 'f'],
+            ['after', 'SimplifyCFGPass', 'f'],
+            ['after', 'GVNPass', 'f'],
+        ]);
+        assert.deepStrictEqual(snapshots.map(snapshot => [snapshot.headerLine, snapshot.startLine]), [[0, 1], [5, 6], [10, 11]]);
+        assert.deepStrictEqual(snapshots.map(snapshot => snapshot.previous), [undefined, 0, 1]);
+    });
+
+    it('tells which passes changed the function', () => {
+        const snapshots = parsePassDump(DUMP);
+        assert.deepStrictEqual(snapshots.map(snapshot => snapshot.changed), [undefined, false, true]);
+    });
+
+    it('rebuilds the previous version of a snapshot', () => {
+        const snapshots = parsePassDump(DUMP);
+        const previous = previousSnapshotText(DUMP, snapshots, 2);
+        assert.ok(previous?.includes('%y = shl i32 %x, 1'));
+        assert.strictEqual(previousSnapshotText(DUMP, snapshots, 0), undefined);
+    });
+});
+
+describe('splitFunctions', () => {
+    it('maps function names to their definitions', () => {
+        const functions = splitFunctions('define void @a() {\n  ret void\n}\n\ndefine void @b() {\n  ret void\n}\n');
+        assert.deepStrictEqual([...functions.keys()], ['@a', '@b']);
+        assert.ok(functions.get('@b')!.startsWith('define void @b()'));
+    });
+});
+
+describe('parseModules', () => {
+    it('parses each snapshot of a pass dump as a module of its own', () => {
+        const modules = parseModules(createDocument(DUMP));
+        assert.deepStrictEqual(modules.map(({ snapshot }) => snapshot?.pass), ['InstCombinePass', 'SimplifyCFGPass', 'GVNPass']);
+        assert.deepStrictEqual(modules.map(({ parsed }) => parsed.module.errors), [[], [], []]);
+        assert.deepStrictEqual(modules.map(({ parsed }) => parsed.module.functions[0].range.start.line), [1, 6, 11]);
+    });
+
+    it('keeps the snapshots that a range overlaps', () => {
+        const modules = parseModules(createDocument(DUMP), new Range(7, 0, 10, 0));
+        assert.deepStrictEqual(modules.map(({ snapshot }) => snapshot?.pass), ['SimplifyCFGPass', 'GVNPass']);
+    });
+
+    it('parses ordinary IR as one module', () => {
+        const modules = parseModules(createDocument('define void @f() {\n  ret void\n}\n'));
+        assert.strictEqual(modules.length, 1);
+        assert.strictEqual(modules[0].snapshot, undefined);
+        assert.strictEqual(modules[0].parsed.module.functions.length, 1);
+    });
+});
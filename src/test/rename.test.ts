@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { LLVMIRRenameProvider } from '../providers/renameProvider';
+import { applyEdits, createDocument } from './helpers';
+import { Position } from './vscode';
+
+const token = {} as vscode.CancellationToken;
+
+function rename(lines: string[], line: number, character: number, newName: string): string {
+    const document = createDocument(lines.join('\n'));
+    const edit = new LLVMIRRenameProvider().provideRenameEdits(
+        document, new Position(line, character) as vscode.Position, newName, token
+    ) as vscode.WorkspaceEdit;
+    return applyEdits(document, edit.get(document.uri));
+}
+
+describe('LLVMIRRenameProvider', () => {
+    it('renames a local within its function only', () => {
+        assert.strictEqual(rename([
+            'define i32 @f(i32 %x) {',
+            '  %y = add i32 %x, 1',
+            '  ret i32 %y',
+            '}',
+            'define i32 @g(i32 %y) {',
+            '  ret i32 %y',
+            '}',
+        ], 1, 3, 'sum'), [
+            'define i32 @f(i32 %x) {',
+            '  %sum = add i32 %x, 1',
+            '  ret i32 %sum',
+            '}',
+            'define i32 @g(i32 %y) {',
+            '  ret i32 %y',
+            '}',
+        ].join('\n'));
+    });
+
+    it('renumbers the later unnamed values when naming a numbered one', () => {
+        assert.strictEqual(rename([
+            'define i32 @f(i32 %0) {',
+            '  %2 = add i32 %0, 1',
+            '  br label %3',
+            '3:',
+            '  %4 = mul i32 %2, 2',
+            '  ret i32 %4',
+            '}',
+        ], 1, 3, '%sum'), [
+            'define i32 @f(i32 %0) {',
+            '  %sum = add i32 %0, 1',
+            '  br label %2',
+            '2:',
+            '  %3 = mul i32 %sum, 2',
+            '  ret i32 %3',
+            '}',
+        ].join('\n'));
+    });
+
+    it('rejects names that are already taken', () => {
+        const document = createDocument([
+            'define i32 @f(i32 %x) {',
+            '  %y = add i32 %x, 1',
+            '  ret i32 %y',
+            '}',
+        ].join('\n'));
+
+        assert.throws(
+            () => new LLVMIRRenameProvider().provideRenameEdits(document, new Position(1, 3) as vscode.Position, 'x', token),
+            /'%x' is already defined in '@f'/
+        );
+    });
+});
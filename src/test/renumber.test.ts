@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import { renumberMetadata, renumberValues } from '../commands/renumber';
+import { applyEdits, createDocument } from './helpers';
+
+describe('renumberValues', () => {
+    it('closes gaps in the numbering of a function and rewrites the uses', () => {
+        const document = createDocument([
+            'define i32 @f(i32 %0) {',
+            '  %3 = add i32 %0, 1',
+            '  br label %7',
+            '7:',
+            '  %9 = mul i32 %3, 2',
+            '  ret i32 %9',
+            '}',
+        ].join('\n'));
+
+        assert.strictEqual(applyEdits(document, renumberValues(document)), [
+            'define i32 @f(i32 %0) {',
+            '  %2 = add i32 %0, 1',
+            '  br label %3',
+            '3:',
+            '  %4 = mul i32 %2, 2',
+            '  ret i32 %4',
+            '}',
+        ].join('\n'));
+    });
+
+    it('counts unnamed instructions and parameters', () => {
+        const document = createDocument([
+            'define i32 @f(i32) {',
+            '  add i32 %0, 1',
+            '  %5 = add i32 %2, 1',
+            '  ret i32 %5',
+            '}',
+        ].join('\n'));
+
+        assert.strictEqual(applyEdits(document, renumberValues(document)), [
+            'define i32 @f(i32) {',
+            '  add i32 %0, 1',
+            '  %3 = add i32 %2, 1',
+            '  ret i32 %3',
+            '}',
+        ].join('\n'));
+    });
+
+    it('rewrites the uses of unnamed values after a closed gap', () => {
+        const document = createDocument([
+            'define i32 @f(i32 %0) {',
+            '  %5 = add i32 %0, 1',
+            '  add i32 %5, 1',
+            '  ret i32 %6',
+            '}',
+        ].join('\n'));
+
+        assert.strictEqual(applyEdits(document, renumberValues(document)), [
+            'define i32 @f(i32 %0) {',
+            '  %2 = add i32 %0, 1',
+            '  add i32 %2, 1',
+            '  ret i32 %3',
+            '}',
+        ].join('\n'));
+    });
+
+    it('does not count debug records', () => {
+        const text = [
+            'define i32 @f(i32 %0) !dbg !1 {',
+            '  %2 = add i32 %0, 1',
+            '    #dbg_value(i32 %2, !2, !DIExpression(), !3)',
+            '  %3 = add i32 %2, 1',
+            '  ret i32 %3',
+            '}',
+        ].join('\n');
+        const document = createDocument(text);
+        assert.strictEqual(applyEdits(document, renumberValues(document)), text);
+    });
+
+    it('leaves a correctly numbered function alone', () => {
+        const document = createDocument('define i32 @f(i32 %0) {\n  %2 = add i32 %0, 1\n  ret i32 %2\n}');
+        assert.deepStrictEqual(renumberValues(document), []);
+    });
+});
+
+describe('renumberMetadata', () => {
+    const text = [
+        'define void @f() !dbg !5 {',
+        '  ret void, !dbg !9',
+        '}',
+        '!llvm.dbg.cu = !{!5}',
+        '!5 = distinct !{!9}',
+        '!7 = !{}',
+        '!9 = !{i32 1}',
+    ].join('\n');
+
+    it('numbers metadata in order of definition', () => {
+        const document = createDocument(text);
+        assert.strictEqual(applyEdits(document, renumberMetadata(document, false)), [
+            'define void @f() !dbg !0 {',
+            '  ret void, !dbg !2',
+            '}',
+            '!llvm.dbg.cu = !{!0}',
+            '!0 = distinct !{!2}',
+            '!1 = !{}',
+            '!2 = !{i32 1}',
+        ].join('\n'));
+    });
+
+    it('can drop unused metadata', () => {
+        const document = createDocument(text);
+        const renumbered = applyEdits(document, renumberMetadata(document, true));
+        assert.ok(!renumbered.includes('!{}'));
+        assert.ok(renumbered.includes('!1 = !{i32 1}'));
+    });
+});
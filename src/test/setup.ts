@@ -0,0 +1,9 @@
+import Module = require('module');
+import * as vscode from './vscode';
+
+// Tests run outside VS Code: `import * as vscode from 'vscode'` gets the stand-in
+const moduleLoader = Module as unknown as { _load(request: string, ...rest: unknown[]): unknown };
+const load = moduleLoader._load;
+moduleLoader._load = function (request: string, ...rest: unknown[]) {
+    return request === 'vscode' ? vscode : load.call(this, request, ...rest);
+};
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { LLVMIRSignatureHelpProvider } from '../providers/signatureHelpProvider';
+import { createDocument } from './helpers';
+import { Position } from './vscode';
+
+const token = {} as vscode.CancellationToken;
+const context = {} as vscode.SignatureHelpContext;
+
+function signatureHelp(lines: string[], line: number, character: number): vscode.SignatureHelp | undefined {
+    const document = createDocument(lines.join('\n'));
+    return new LLVMIRSignatureHelpProvider().provideSignatureHelp(
+        document, new Position(line, character) as vscode.Position, token, context
+    ) as vscode.SignatureHelp | undefined;
+}
+
+describe('LLVMIRSignatureHelpProvider', () => {
+    const declaration = 'declare i32 @g(i32 noundef, ptr)';
+
+    it('shows the parameters of a declared function', () => {
+        const help = signatureHelp([
+            declaration,
+            'define void @f(ptr %p) {',
+            '  %r = call i32 @g(i32 1, ',
+            '}',
+        ], 2, 26);
+
+        assert.strictEqual(help?.signatures[0].label, 'i32 @g(i32 noundef, ptr)');
+        assert.strictEqual(help?.activeParameter, 1);
+    });
+
+    it('finds a call whose arguments continue on later lines', () => {
+        const help = signatureHelp([
+            declaration,
+            'define void @f(ptr %p) {',
+            '  %r = call i32 @g(',
+            '      i32 1,',
+            '      ',
+            '}',
+        ], 4, 6);
+
+        assert.strictEqual(help?.signatures[0].label, 'i32 @g(i32 noundef, ptr)');
+        assert.strictEqual(help?.activeParameter, 1);
+    });
+
+    it('shows nothing once the argument list is closed', () => {
+        const help = signatureHelp([
+            declaration,
+            'define void @f(ptr %p) {',
+            '  %r = call i32 @g(i32 1, ptr %p)',
+            '}',
+        ], 2, 34);
+
+        assert.strictEqual(help, undefined);
+    });
+});
@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import { checkDuplicateDefinitions, checkUndefinedSymbols, checkValueNumbering } from '../analysis/symbolChecks';
+import { parseModule } from '../ir';
+import { parseDocument } from '../llvmIrParser';
+import { createDocument } from './helpers';
+
+describe('checkUndefinedSymbols', () => {
+    it('reports undefined values, labels and functions', () => {
+        const document = createDocument([
+            'define i32 @f(i32 %x) {',
+            'entry:',
+            '  %y = add i32 %x, %z',
+            '  call void @missing()',
+            '  br label %nowhere',
+            '}',
+        ].join('\n'));
+
+        const messages = checkUndefinedSymbols(parseDocument(document)).map(d => d.message);
+        assert.deepStrictEqual(messages.sort(), [
+            "reference to undefined label '%nowhere'",
+            "use of undefined value '%z'",
+            "use of undefined value '@missing'",
+        ]);
+    });
+
+    it('does not see the locals of other functions', () => {
+        const document = createDocument([
+            'define i32 @f(i32 %x) {',
+            '  ret i32 %x',
+            '}',
+            'define i32 @g() {',
+            '  ret i32 %x',
+            '}',
+        ].join('\n'));
+
+        const diagnostics = checkUndefinedSymbols(parseDocument(document));
+        assert.deepStrictEqual(diagnostics.map(d => [d.message, d.range.start.line]), [
+            ["use of undefined value '%x'", 4],
+        ]);
+    });
+});
+
+describe('checkDuplicateDefinitions', () => {
+    it('reports redefined globals and locals', () => {
+        const module = parseModule([
+            '@g = global i32 0',
+            '@g = global i32 1',
+            'define void @f() {',
+            '  %a = add i32 1, 2',
+            '  %a = add i32 3, 4',
+            '  ret void',
+            '}',
+        ].join('\n'));
+
+        assert.deepStrictEqual(checkDuplicateDefinitions(module).map(d => [d.message, d.range.start.line]), [
+            ["redefinition of global '@g'", 1],
+            ["multiple definition of local value named 'a' in '@f'", 4],
+        ]);
+    });
+});
+
+describe('checkValueNumbering', () => {
+    it('accepts sequential numbering across parameters, blocks and results', () => {
+        const module = parseModule([
+            'define i32 @f(i32 %0, i32 %1) {',
+            '  %3 = add i32 %0, %1',
+            '  br label %4',
+            '4:',
+            '  %5 = add i32 %3, 1',
+            '  ret i32 %5',
+            '}',
+        ].join('\n'));
+
+        assert.deepStrictEqual(checkValueNumbering(module), []);
+    });
+
+    it('counts unnamed parameters and unnamed instructions with a result', () => {
+        const module = parseModule([
+            'define i32 @f(i32, i32 %1) {',
+            '  add i32 %0, %1',
+            '  br label %4',
+            '4:',
+            '  %5 = add i32 %2, 1',
+            '  ret i32 %5',
+            '}',
+        ].join('\n'));
+
+        assert.deepStrictEqual(checkValueNumbering(module), []);
+    });
+
+    it('does not count debug records', () => {
+        const module = parseModule([
+            'define i32 @f(i32 %x) !dbg !1 {',
+            '  %1 = add i32 %x, 1',
+            '    #dbg_value(i32 %1, !2, !DIExpression(), !3)',
+            '  %2 = add i32 %1, 1',
+            '    #dbg_declare(ptr null, !2, !DIExpression(), !3)',
+            '  call void @g()',
+            '  %3 = add i32 %2, 1',
+            '  ret i32 %3',
+            '}',
+        ].join('\n'));
+
+        assert.deepStrictEqual(checkValueNumbering(module), []);
+    });
+
+    it('reports a gap once, at the first misnumbered value', () => {
+        const module = parseModule([
+            'define i32 @f(i32 %0) {',
+            'entry:',
+            '  %2 = add i32 %0, 1',
+            '  %3 = add i32 %2, 1',
+            '  ret i32 %3',
+            '}',
+        ].join('\n'));
+
+        assert.deepStrictEqual(checkValueNumbering(module).map(d => [d.message, d.range.start.line]), [
+            ["instruction expected to be numbered '%1'", 2],
+        ]);
+    });
+});
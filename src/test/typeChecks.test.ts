@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { checkTypes } from '../analysis/typeChecks';
+import { parseModule } from '../ir';
+
+function messages(lines: string[]): string[] {
+    return checkTypes(parseModule(lines.join('\n'))).map(d => d.message);
+}
+
+describe('checkTypes', () => {
+    it('accepts well-typed instructions', () => {
+        assert.deepStrictEqual(messages([
+            'define i32 @f(i32 %a, ptr %p) {',
+            '  %b = add i32 %a, 1',
+            '  %c = icmp eq i32 %b, 0',
+            '  %d = select i1 %c, i32 %a, i32 %b',
+            '  store i32 %d, ptr %p',
+            '  ret i32 %d',
+            '}',
+        ]), []);
+    });
+
+    it('reports operands defined with another type', () => {
+        assert.deepStrictEqual(messages([
+            'define i32 @f(i64 %a) {',
+            '  %b = add i32 %a, 1',
+            '  ret i32 %b',
+            '}',
+        ]), ["'%a' defined with type 'i64' but expected 'i32'"]);
+    });
+
+    it('reports a branch condition that is not i1', () => {
+        assert.deepStrictEqual(messages([
+            'define void @f(i32 %c) {',
+            'entry:',
+            '  br i32 %c, label %entry, label %entry',
+            '}',
+        ]), ["branch condition must have type 'i1'"]);
+    });
+
+    it('reports a return value of the wrong type', () => {
+        assert.deepStrictEqual(messages([
+            'define i32 @f() {',
+            '  ret i64 0',
+            '}',
+        ]), ["value doesn't match function result type 'i32'"]);
+    });
+
+    it('warns about calls that do not match the callee', () => {
+        const diagnostics = checkTypes(parseModule([
+            'declare i32 @g(i32)',
+            'define void @f() {',
+            '  %r = call i32 @g(i32 1, i32 2)',
+            '  ret void',
+            '}',
+        ].join('\n')));
+
+        assert.deepStrictEqual(diagnostics.map(d => d.message), ["'@g' expects 1 argument but is called with 2"]);
+    });
+});
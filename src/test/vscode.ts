@@ -0,0 +1,233 @@
+/**
+ * The parts of the vscode API that the code under test uses, for running the
+ * unit tests in plain Node. The real module only exists inside VS Code.
+ */
+
+export class Position {
+    constructor(readonly line: number, readonly character: number) {}
+
+    compareTo(other: Position): number {
+        return this.line - other.line || this.character - other.character;
+    }
+
+    isBefore(other: Position): boolean {
+        return this.compareTo(other) < 0;
+    }
+
+    isBeforeOrEqual(other: Position): boolean {
+        return this.compareTo(other) <= 0;
+    }
+
+    isAfter(other: Position): boolean {
+        return this.compareTo(other) > 0;
+    }
+
+    isAfterOrEqual(other: Position): boolean {
+        return this.compareTo(other) >= 0;
+    }
+
+    isEqual(other: Position): boolean {
+        return this.compareTo(other) === 0;
+    }
+
+    translate(lineDelta: number | { lineDelta?: number; characterDelta?: number } = 0, characterDelta = 0): Position {
+        if (typeof lineDelta === 'object') {
+            return new Position(this.line + (lineDelta.lineDelta ?? 0), this.character + (lineDelta.characterDelta ?? 0));
+        }
+        return new Position(this.line + lineDelta, this.character + characterDelta);
+    }
+
+    with(line: number | { line?: number; character?: number } = this.line, character = this.character): Position {
+        if (typeof line === 'object') {
+            return new Position(line.line ?? this.line, line.character ?? this.character);
+        }
+        return new Position(line, character);
+    }
+}
+
+export class Range {
+    readonly start: Position;
+    readonly end: Position;
+
+    constructor(start: Position | number, end: Position | number, endLine?: number, endCharacter?: number) {
+        const from = typeof start === 'number' ? new Position(start, end as number) : start;
+        const to = typeof start === 'number' ? new Position(endLine!, endCharacter!) : end as Position;
+        [this.start, this.end] = from.isAfter(to) ? [to, from] : [from, to];
+    }
+
+    get isEmpty(): boolean {
+        return this.start.isEqual(this.end);
+    }
+
+    get isSingleLine(): boolean {
+        return this.start.line === this.end.line;
+    }
+
+    contains(value: Position | Range): boolean {
+        if (value instanceof Range) {
+            return this.contains(value.start) && this.contains(value.end);
+        }
+        return value.isAfterOrEqual(this.start) && value.isBeforeOrEqual(this.end);
+    }
+
+    isEqual(other: Range): boolean {
+        return this.start.isEqual(other.start) && this.end.isEqual(other.end);
+    }
+
+    intersection(other: Range): Range | undefined {
+        const start = this.start.isAfter(other.start) ? this.start : other.start;
+        const end = this.end.isBefore(other.end) ? this.end : other.end;
+        return start.isAfter(end) ? undefined : new Range(start, end);
+    }
+
+    union(other: Range): Range {
+        return new Range(
+            this.start.isBefore(other.start) ? this.start : other.start,
+            this.end.isAfter(other.end) ? this.end : other.end
+        );
+    }
+
+    with(start: Position | { start?: Position; end?: Position } = this.start, end = this.end): Range {
+        if (start instanceof Position) {
+            return new Range(start, end);
+        }
+        return new Range(start.start ?? this.start, start.end ?? this.end);
+    }
+}
+
+export class Uri {
+    private constructor(readonly scheme: string, readonly path: string) {}
+
+    static file(path: string): Uri {
+        return new Uri('file', path);
+    }
+
+    static parse(value: string): Uri {
+        const match = value.match(/^([\w+.-]+):(?:\/\/)?(.*)$/);
+        return match ? new Uri(match[1], match[2]) : Uri.file(value);
+    }
+
+    get fsPath(): string {
+        return this.path;
+    }
+
+    toString(): string {
+        return `${this.scheme}://${this.path}`;
+    }
+}
+
+export class Location {
+    constructor(readonly uri: Uri, readonly range: Range) {}
+}
+
+export enum DiagnosticSeverity {
+    Error = 0,
+    Warning = 1,
+    Information = 2,
+    Hint = 3,
+}
+
+export class DiagnosticRelatedInformation {
+    constructor(readonly location: Location, readonly message: string) {}
+}
+
+export class Diagnostic {
+    source?: string;
+    code?: string | number;
+    relatedInformation?: DiagnosticRelatedInformation[];
+
+    constructor(
+        readonly range: Range,
+        readonly message: string,
+        readonly severity: DiagnosticSeverity = DiagnosticSeverity.Error
+    ) {}
+}
+
+export class TextEdit {
+    constructor(readonly range: Range, readonly newText: string) {}
+
+    static replace(range: Range, newText: string): TextEdit {
+        return new TextEdit(range, newText);
+    }
+
+    static insert(position: Position, newText: string): TextEdit {
+        return new TextEdit(new Range(position, position), newText);
+    }
+
+    static delete(range: Range): TextEdit {
+        return new TextEdit(range, '');
+    }
+}
+
+export class WorkspaceEdit {
+    private readonly edits = new Map<string, [Uri, TextEdit[]]>();
+
+    set(uri: Uri, edits: TextEdit[]): void {
+        this.edits.set(uri.toString(), [uri, edits]);
+    }
+
+    get(uri: Uri): TextEdit[] {
+        return this.edits.get(uri.toString())?.[1] ?? [];
+    }
+
+    entries(): [Uri, TextEdit[]][] {
+        return [...this.edits.values()];
+    }
+}
+
+export enum DocumentHighlightKind {
+    Text = 0,
+    Read = 1,
+    Write = 2,
+}
+
+export class DocumentHighlight {
+    constructor(readonly range: Range, readonly kind: DocumentHighlightKind = DocumentHighlightKind.Text) {}
+}
+
+export class MarkdownString {
+    constructor(public value = '') {}
+
+    appendText(value: string): MarkdownString {
+        this.value += value;
+        return this;
+    }
+
+    appendMarkdown(value: string): MarkdownString {
+        this.value += value;
+        return this;
+    }
+
+    appendCodeblock(value: string, language = ''): MarkdownString {
+        this.value += `\n\`\`\`${language}\n${value}\n\`\`\`\n`;
+        return this;
+    }
+}
+
+export class ParameterInformation {
+    constructor(readonly label: string | [number, number], readonly documentation?: string | MarkdownString) {}
+}
+
+export class SignatureInformation {
+    parameters: ParameterInformation[] = [];
+
+    constructor(readonly label: string, public documentation?: string | MarkdownString) {}
+}
+
+export class SignatureHelp {
+    signatures: SignatureInformation[] = [];
+    activeSignature = 0;
+    activeParameter = 0;
+}
+
+export enum SymbolKind {
+    File, Module, Namespace, Package, Class, Method, Property, Field, Constructor, Enum, Interface,
+    Function, Variable, Constant, String, Number, Boolean, Array, Object, Key, Null, EnumMember,
+    Struct, Event, Operator, TypeParameter,
+}
+
+export const workspace = {
+    getConfiguration: () => ({
+        get: <T>(_section: string, defaultValue?: T) => defaultValue,
+    }),
+};
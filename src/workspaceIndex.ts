@@ -0,0 +1,255 @@
+import * as vscode from 'vscode';
+import { IRModule, ReferenceRole, parseModule } from './ir';
+import { SymbolKind, parseDocument } from './llvmIrParser';
+import { CallSite, findCallSites } from './analysis/callGraph';
+
+const LLVM_IR_GLOB = '**/*.ll';
+const EXCLUDE_GLOB = '**/node_modules/**';
+
+// Large pass dumps are not worth parsing in the background
+const MAX_INDEXED_FILE_SIZE = 16 * 1024 * 1024;
+
+// Yield to the event loop after this many files during the initial scan
+const SCAN_BATCH_SIZE = 25;
+
+/**
+ * A module-level symbol (function, global or named type) of an indexed file
+ */
+export interface IndexedSymbol {
+    name: string;
+    kind: SymbolKind;
+    isDeclaration: boolean;
+    location: vscode.Location;
+}
+
+/**
+ * What the index keeps of a file: its module-level symbols, its uses of
+ * global names and its call sites. Local values, labels and metadata never
+ * cross file boundaries.
+ */
+interface IndexedFile {
+    uri: vscode.Uri;
+    symbols: IndexedSymbol[];
+    references: { name: string; range: vscode.Range }[];
+    callSites: CallSite[];
+}
+
+/**
+ * Background index of the module-level symbols of every .ll file in the
+ * workspace. Open documents are indexed from their current text, everything
+ * else from disk.
+ */
+export class WorkspaceIndex implements vscode.Disposable {
+    private readonly files = new Map<string, IndexedFile>();
+    private watcher?: vscode.FileSystemWatcher;
+    private generation = 0;
+
+    /**
+     * Scan the workspace and keep the index up to date with file changes
+     */
+    start(): void {
+        if (this.watcher) {
+            return;
+        }
+        this.watcher = vscode.workspace.createFileSystemWatcher(LLVM_IR_GLOB);
+        this.watcher.onDidCreate(uri => this.indexFile(uri));
+        this.watcher.onDidChange(uri => this.indexFile(uri));
+        this.watcher.onDidDelete(uri => this.files.delete(uri.toString()));
+        this.scanWorkspace(this.generation).catch(error => {
+            console.error('LLVM IR: workspace scan failed', error);
+        });
+    }
+
+    /**
+     * Stop watching and drop everything indexed so far
+     */
+    stop(): void {
+        this.generation++;
+        this.watcher?.dispose();
+        this.watcher = undefined;
+        this.files.clear();
+    }
+
+    /**
+     * Index an open document from its in-memory text
+     */
+    updateDocument(document: vscode.TextDocument): void {
+        if (!this.watcher) {
+            return;
+        }
+        this.files.set(document.uri.toString(), indexModule(parseDocument(document).module, document.uri));
+    }
+
+    /**
+     * A document was closed: fall back to the saved file, or forget files outside the workspace
+     */
+    closeDocument(document: vscode.TextDocument): void {
+        if (!this.watcher) {
+            return;
+        }
+        if (document.uri.scheme === 'file' && vscode.workspace.getWorkspaceFolder(document.uri)) {
+            this.indexFile(document.uri);
+        } else {
+            this.files.delete(document.uri.toString());
+        }
+    }
+
+    /**
+     * Module-level symbols of the given kind and name, in all indexed files
+     */
+    findDefinitions(kind: SymbolKind, name: string): IndexedSymbol[] {
+        const result: IndexedSymbol[] = [];
+        for (const file of this.files.values()) {
+            for (const symbol of file.symbols) {
+                if (symbol.kind === kind && symbol.name === name) {
+                    result.push(symbol);
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Uses of a global name in all indexed files
+     */
+    findReferences(name: string): vscode.Location[] {
+        const result: vscode.Location[] = [];
+        for (const file of this.files.values()) {
+            for (const ref of file.references) {
+                if (ref.name === name) {
+                    result.push(new vscode.Location(file.uri, ref.range));
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Call sites of a function in all indexed files
+     */
+    findCallSites(callee: string): { uri: vscode.Uri; site: CallSite }[] {
+        const result: { uri: vscode.Uri; site: CallSite }[] = [];
+        for (const file of this.files.values()) {
+            for (const site of file.callSites) {
+                if (site.callee === callee) {
+                    result.push({ uri: file.uri, site });
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Defined symbols whose name matches the query as a case-insensitive subsequence
+     */
+    searchSymbols(query: string, limit: number): IndexedSymbol[] {
+        const needle = query.toLowerCase();
+        const result: IndexedSymbol[] = [];
+        for (const file of this.files.values()) {
+            for (const symbol of file.symbols) {
+                if (!symbol.isDeclaration && matchesQuery(symbol.name.substring(1).toLowerCase(), needle)) {
+                    result.push(symbol);
+                    if (result.length >= limit) {
+                        return result;
+                    }
+                }
+            }
+        }
+        return result;
+    }
+
+    dispose(): void {
+        this.stop();
+    }
+
+    private async scanWorkspace(generation: number): Promise<void> {
+        const uris = await vscode.workspace.findFiles(LLVM_IR_GLOB, EXCLUDE_GLOB);
+        for (let i = 0; i < uris.length; i++) {
+            if (generation !== this.generation) {
+                return;
+            }
+            if (!this.files.has(uris[i].toString())) {
+                await this.indexFile(uris[i]);
+            }
+            if (i % SCAN_BATCH_SIZE === SCAN_BATCH_SIZE - 1) {
+                await new Promise(resolve => setTimeout(resolve, 0));
+            }
+        }
+    }
+
+    private async indexFile(uri: vscode.Uri): Promise<void> {
+        const key = uri.toString();
+        const findOpen = () => vscode.workspace.textDocuments.find(document => document.uri.toString() === key);
+        const open = findOpen();
+        if (open) {
+            this.updateDocument(open);
+            return;
+        }
+
+        const generation = this.generation;
+        let text: string;
+        try {
+            const bytes = await vscode.workspace.fs.readFile(uri);
+            if (bytes.length > MAX_INDEXED_FILE_SIZE) {
+                if (!findOpen()) {
+                    this.files.delete(key);
+                }
+                return;
+            }
+            text = Buffer.from(bytes).toString('utf8');
+        } catch {
+            if (!findOpen()) {
+                this.files.delete(key);
+            }
+            return;
+        }
+        // A document opened during the read was indexed from its buffer, which wins
+        if (generation === this.generation && !findOpen()) {
+            this.files.set(key, indexModule(parseModule(text), uri));
+        }
+    }
+}
+
+function indexModule(module: IRModule, uri: vscode.Uri): IndexedFile {
+    const symbols: IndexedSymbol[] = [];
+    for (const func of module.functions) {
+        symbols.push({
+            name: func.name,
+            kind: SymbolKind.Function,
+            isDeclaration: func.isDeclaration,
+            location: new vscode.Location(uri, func.nameRange),
+        });
+    }
+    for (const global of module.globals) {
+        symbols.push({
+            name: global.name,
+            kind: SymbolKind.GlobalValue,
+            isDeclaration: global.kind === 'variable' && !global.initializer,
+            location: new vscode.Location(uri, global.nameRange),
+        });
+    }
+    for (const type of module.types) {
+        symbols.push({
+            name: type.name,
+            kind: SymbolKind.NamedType,
+            isDeclaration: false,
+            location: new vscode.Location(uri, type.nameRange),
+        });
+    }
+
+    const references = module.references
+        .filter(ref => ref.role === ReferenceRole.Value && ref.name.startsWith('@'))
+        .map(ref => ({ name: ref.name, range: ref.range }));
+
+    return { uri, symbols, references, callSites: findCallSites(module) };
+}
+
+function matchesQuery(name: string, query: string): boolean {
+    let i = 0;
+    for (const ch of name) {
+        if (i < query.length && ch === query[i]) {
+            i++;
+        }
+    }
+    return i === query.length;
+}